@@ -0,0 +1,201 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { StickyNote, RichContent, ContentBlock } from '../types';
+
+export const ASSET_PROTOCOL = 'sticky-asset';
+
+const DATA_URL_PATTERN = /^data:(image\/[a-zA-Z0-9.+-]+);base64,(.*)$/;
+const ASSET_FILE_PATTERN = /^[0-9a-f]{64}\.[a-z0-9]+$/;
+const ASSET_URL_PREFIX = `${ASSET_PROTOCOL}://image/`;
+
+const EXTENSIONS_BY_MIME_TYPE: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'image/svg+xml': 'svg'
+};
+
+// 画像ブロックのmetadataに記録する画像ファイルの参照
+export interface AssetReference {
+  assetHash: string;
+  mimeType: string;
+}
+
+/**
+ * 画像ファイルの保存先（内容のSHA-256をファイル名にして保存する）
+ * 同じ画像は1ファイルにまとめられ、付箋データには参照（ハッシュ）のみを保存する
+ */
+export class AssetStore {
+  constructor(private assetsPath: string) {
+    if (!fs.existsSync(assetsPath)) {
+      fs.mkdirSync(assetsPath, { recursive: true });
+    }
+  }
+
+  getAssetsPath(): string {
+    return this.assetsPath;
+  }
+
+  /**
+   * データURLの画像を保存し、参照とレンダラーで読み込むURLを返す
+   * 同じ内容のファイルが既にあれば書き込まない
+   */
+  saveDataUrl(dataUrl: string): (AssetReference & { url: string }) | null {
+    const match = dataUrl.match(DATA_URL_PATTERN);
+    const extension = match ? EXTENSIONS_BY_MIME_TYPE[match[1]] : undefined;
+    if (!match || !extension) {
+      return null;
+    }
+
+    const data = Buffer.from(match[2], 'base64');
+    const assetHash = crypto.createHash('sha256').update(data).digest('hex');
+    const fileName = `${assetHash}.${extension}`;
+    const filePath = path.join(this.assetsPath, fileName);
+
+    if (!fs.existsSync(filePath)) {
+      const tempFile = filePath + '.tmp';
+      fs.writeFileSync(tempFile, data);
+      fs.renameSync(tempFile, filePath);
+    }
+
+    return { assetHash, mimeType: match[1], url: ASSET_URL_PREFIX + fileName };
+  }
+
+  /**
+   * 付箋の内容に埋め込まれた画像（データURL）を画像ファイルへの参照に置き換える
+   * @returns 置き換え後の内容（置き換える画像がなければ元の内容）
+   */
+  externalizeContent(content: StickyNote['content']): StickyNote['content'] {
+    return this.mapImageBlocks(content, block => {
+      if (!block.content.startsWith('data:')) {
+        return block;
+      }
+      try {
+        const asset = this.saveDataUrl(block.content);
+        if (!asset) {
+          return block;
+        }
+        return {
+          ...block,
+          content: asset.url,
+          metadata: { ...block.metadata, assetHash: asset.assetHash, mimeType: asset.mimeType }
+        };
+      } catch (error) {
+        // 保存できない場合は埋め込みのまま残す
+        console.error('[ASSET] Failed to save image asset:', error);
+        return block;
+      }
+    });
+  }
+
+  /**
+   * 画像ファイルへの参照をデータURLに戻す（バックアップやエクスポートなどアプリ外へ書き出す場合）
+   * ファイルが見つからない画像は参照のまま残す
+   * @param dataUrls 変換済みのデータURL（画像のURLごと）。含まれる画像はファイルを読まずに使い、読んだ画像は追加される
+   */
+  inlineContent(content: StickyNote['content'], dataUrls?: Map<string, string>): StickyNote['content'] {
+    return this.mapImageBlocks(content, block => {
+      const cachedDataUrl = dataUrls?.get(block.content);
+      if (cachedDataUrl) {
+        return { ...block, content: cachedDataUrl };
+      }
+      const filePath = this.resolveAssetUrl(block.content);
+      if (!filePath || !fs.existsSync(filePath)) {
+        return block;
+      }
+      const mimeType = block.metadata?.mimeType || this.getMimeType(filePath);
+      const dataUrl = `data:${mimeType};base64,${fs.readFileSync(filePath).toString('base64')}`;
+      dataUrls?.set(block.content, dataUrl);
+      return { ...block, content: dataUrl };
+    });
+  }
+
+  inlineNote(note: StickyNote): StickyNote {
+    const content = this.inlineContent(note.content);
+    return content === note.content ? note : { ...note, content };
+  }
+
+  /**
+   * 画像のURL（sticky-asset://image/<ハッシュ>.<拡張子>）をファイルパスに変換
+   * 不正なファイル名（ディレクトリ外への参照など）はnull
+   */
+  resolveAssetUrl(url: string): string | null {
+    if (!url.startsWith(ASSET_URL_PREFIX)) {
+      return null;
+    }
+    const fileName = url.slice(ASSET_URL_PREFIX.length).split(/[?#]/)[0];
+    return ASSET_FILE_PATTERN.test(fileName) ? path.join(this.assetsPath, fileName) : null;
+  }
+
+  /**
+   * 付箋の内容から参照されている画像ファイル名を集める
+   */
+  collectReferencedFiles(contents: StickyNote['content'][]): Set<string> {
+    const referencedFiles = new Set<string>();
+    contents.forEach(content => {
+      this.mapImageBlocks(content, block => {
+        const filePath = this.resolveAssetUrl(block.content);
+        if (filePath) {
+          referencedFiles.add(path.basename(filePath));
+        }
+        return block;
+      });
+    });
+    return referencedFiles;
+  }
+
+  /**
+   * どの付箋からも参照されていない画像ファイルを削除
+   * 付箋の保存前に画像だけが保存された直後の場合があるため、新しいファイルは残す
+   * @returns 削除したファイルの合計サイズ
+   */
+  removeUnreferencedAssets(referencedFiles: Set<string>, minAgeMs: number): number {
+    let freedSpace = 0;
+    const cutoff = Date.now() - minAgeMs;
+
+    fs.readdirSync(this.assetsPath)
+      .filter(fileName => ASSET_FILE_PATTERN.test(fileName) && !referencedFiles.has(fileName))
+      .forEach(fileName => {
+        const filePath = path.join(this.assetsPath, fileName);
+        try {
+          const stats = fs.statSync(filePath);
+          if (stats.mtimeMs < cutoff) {
+            fs.unlinkSync(filePath);
+            freedSpace += stats.size;
+            console.log(`[ASSET] Removed unreferenced image: ${fileName}`);
+          }
+        } catch (error) {
+          console.error(`[ASSET] Failed to remove ${fileName}:`, error);
+        }
+      });
+
+    return freedSpace;
+  }
+
+  private getMimeType(filePath: string): string {
+    const extension = path.extname(filePath).slice(1);
+    const entry = Object.entries(EXTENSIONS_BY_MIME_TYPE).find(([, ext]) => ext === extension);
+    return entry ? entry[0] : 'application/octet-stream';
+  }
+
+  private mapImageBlocks(content: StickyNote['content'], transform: (block: ContentBlock) => ContentBlock): StickyNote['content'] {
+    if (!content || typeof content === 'string' || !Array.isArray(content.blocks)) {
+      return content;
+    }
+
+    let changed = false;
+    const blocks = content.blocks.map(block => {
+      if (block.type !== 'image' || typeof block.content !== 'string') {
+        return block;
+      }
+      const transformed = transform(block);
+      changed = changed || transformed !== block;
+      return transformed;
+    });
+
+    return changed ? { ...content, blocks } as RichContent : content;
+  }
+}
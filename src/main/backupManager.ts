@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import { StickyNote, AppSettings, NotesBackup, RichContent, ContentBlock, SavedSearch } from '../types';
+import { extractTags } from '../utils/tagUtils';
+
+const BACKUP_FORMAT = 'green-sticky-notes-backup';
+const BACKUP_VERSION = 1;
+
+// 復元時に受け付ける設定項目と型（保存した検索は別に検証する）
+const SETTINGS_FIELD_TYPES: Record<Exclude<keyof AppSettings, 'savedSearches'>, 'string' | 'number' | 'boolean'> = {
+  defaultFontSize: 'number',
+  defaultBackgroundColor: 'string',
+  defaultHeaderColor: 'string',
+  headerIconSize: 'number',
+  defaultInactiveWidth: 'number',
+  defaultInactiveHeight: 'number',
+  defaultInactiveFontSize: 'number',
+  showAllHotkey: 'string',
+  hideAllHotkey: 'string',
+  searchHotkey: 'string',
+  pinHotkey: 'string',
+  lockHotkey: 'string',
+  newNoteHotkey: 'string',
+  captureHotkey: 'string',
+  autoStart: 'boolean',
+  trashRetentionDays: 'number',
+  moveCheckedToBottom: 'boolean',
+  fetchLinkTitles: 'boolean',
+  syncFolderPath: 'string',
+  storageBackend: 'string'
+};
+
+const GEOMETRY_FIELDS = ['activeX', 'activeY', 'activeWidth', 'activeHeight',
+                         'inactiveX', 'inactiveY', 'inactiveWidth', 'inactiveHeight'] as const;
+
+/**
+ * 全付箋・設定のバックアップ（1つのJSONファイル）の作成と復元
+ * 画像はRichContentのブロックにデータURLとして含まれるため、そのまま保存される
+ */
+export class BackupManager {
+  /**
+   * バックアップファイルを書き出す
+   */
+  async writeBackup(filePath: string, notes: StickyNote[], settings: AppSettings, appVersion: string): Promise<void> {
+    const backup: NotesBackup = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: Date.now(),
+      appVersion,
+      notes,
+      settings
+    };
+
+    const tempFile = filePath + '.tmp';
+    try {
+      fs.writeFileSync(tempFile, JSON.stringify(backup, null, 2), 'utf8');
+      fs.renameSync(tempFile, filePath);
+    } catch (error) {
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * バックアップファイルを読み込んで検証する
+   * 形式が不正な場合は内容を示すメッセージ付きのErrorを投げる
+   */
+  async readBackup(filePath: string): Promise<NotesBackup> {
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error('バックアップファイルを読み込めませんでした（JSON形式ではありません）');
+    }
+
+    if (!data || typeof data !== 'object' || data.format !== BACKUP_FORMAT) {
+      throw new Error('Green Sticky Notesのバックアップファイルではありません');
+    }
+    if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+      throw new Error('新しいバージョンのアプリで作成されたバックアップのため復元できません');
+    }
+    if (!Array.isArray(data.notes)) {
+      throw new Error('バックアップに付箋データが含まれていません');
+    }
+
+    const notes = data.notes.map((note: any, index: number) => {
+      const error = this.validateNote(note);
+      if (error) {
+        throw new Error(`${index + 1}件目の付箋が不正です: ${error}`);
+      }
+      return this.normalizeNote(note);
+    });
+
+    return {
+      format: data.format,
+      version: data.version,
+      exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+      appVersion: typeof data.appVersion === 'string' ? data.appVersion : '',
+      notes,
+      settings: this.sanitizeSettings(data.settings)
+    };
+  }
+
+  /**
+   * 復元する付箋のIDが既存のIDと重複する場合は新しいIDを振り直す
+   * @param reservedIds 使用済みのID（現在の付箋やゴミ箱内の付箋）
+   */
+  remapConflictingIds(notes: StickyNote[], reservedIds: Set<string>): { notes: StickyNote[]; remappedCount: number } {
+    const usedIds = new Set(reservedIds);
+    let remappedCount = 0;
+
+    const remappedNotes = notes.map(note => {
+      if (!usedIds.has(note.id)) {
+        usedIds.add(note.id);
+        return note;
+      }
+
+      let newId = this.generateId();
+      while (usedIds.has(newId)) {
+        newId = this.generateId();
+      }
+      usedIds.add(newId);
+      remappedCount++;
+      return { ...note, id: newId };
+    });
+
+    return { notes: remappedNotes, remappedCount };
+  }
+
+  private validateNote(note: any): string | null {
+    if (!note || typeof note !== 'object') return 'オブジェクトではありません';
+    if (typeof note.id !== 'string' || !note.id) return 'IDがありません';
+    if (!this.isValidContent(note.content)) return '内容の形式が不正です';
+    for (const field of GEOMETRY_FIELDS) {
+      if (typeof note[field] !== 'number' || isNaN(note[field])) return `${field}が数値ではありません`;
+    }
+    if (typeof note.backgroundColor !== 'string') return '背景色がありません';
+    if (typeof note.fontSize !== 'number') return '文字サイズが数値ではありません';
+    return null;
+  }
+
+  private isValidContent(content: any): boolean {
+    if (typeof content === 'string') return true;
+    return !!content && Array.isArray(content.blocks) && content.blocks.every((block: any) =>
+      block && typeof block.id === 'string' &&
+      ['text', 'image', 'code', 'table'].includes(block.type) &&
+      typeof block.content === 'string'
+    );
+  }
+
+  /**
+   * 既知の項目のみを取り出し、復元後は表示モードで開くよう状態を初期化
+   */
+  private normalizeNote(note: any): StickyNote {
+    const content: string | RichContent = typeof note.content === 'string'
+      ? note.content
+      : {
+          blocks: note.content.blocks.map((block: any): ContentBlock => ({
+            id: block.id,
+            type: block.type,
+            content: block.content,
+            ...(Array.isArray(block.marks) ? { marks: block.marks } : {}),
+            ...(block.metadata !== undefined ? { metadata: block.metadata } : {})
+          }))
+        };
+    const now = Date.now();
+
+    return {
+      id: note.id,
+      content,
+      activeX: Math.round(note.activeX),
+      activeY: Math.round(note.activeY),
+      activeWidth: Math.round(note.activeWidth),
+      activeHeight: Math.round(note.activeHeight),
+      inactiveX: Math.round(note.inactiveX),
+      inactiveY: Math.round(note.inactiveY),
+      inactiveWidth: Math.round(note.inactiveWidth),
+      inactiveHeight: Math.round(note.inactiveHeight),
+      backgroundColor: note.backgroundColor,
+      headerColor: typeof note.headerColor === 'string' ? note.headerColor : undefined,
+      fontSize: note.fontSize,
+      isPinned: note.isPinned === true,
+      isLocked: note.isLocked === true,
+      displayId: typeof note.displayId === 'string' ? note.displayId : '1',
+      isActive: false,
+      tags: extractTags(content),
+      reminderAt: typeof note.reminderAt === 'number' ? note.reminderAt : undefined,
+      reminderRecurrence: ['daily', 'weekdays', 'weekly', 'monthly'].includes(note.reminderRecurrence)
+        ? note.reminderRecurrence
+        : undefined,
+      createdAt: typeof note.createdAt === 'number' ? note.createdAt : now,
+      updatedAt: typeof note.updatedAt === 'number' ? note.updatedAt : now
+    };
+  }
+
+  private sanitizeSettings(settings: any): AppSettings {
+    const sanitized: Partial<AppSettings> = {};
+    if (settings && typeof settings === 'object') {
+      (Object.keys(SETTINGS_FIELD_TYPES) as (keyof typeof SETTINGS_FIELD_TYPES)[]).forEach(key => {
+        if (typeof settings[key] === SETTINGS_FIELD_TYPES[key]) {
+          (sanitized as any)[key] = settings[key];
+        }
+      });
+      if (Array.isArray(settings.savedSearches)) {
+        sanitized.savedSearches = settings.savedSearches
+          .filter((item: any) => item && typeof item.id === 'string' && typeof item.name === 'string' && typeof item.query === 'string')
+          .map((item: any): SavedSearch => ({
+            id: item.id,
+            name: item.name,
+            query: item.query,
+            caseSensitive: item.caseSensitive === true,
+            regex: item.regex === true,
+            fuzzy: item.fuzzy !== false,
+            romaji: item.romaji === true
+          }));
+      }
+    }
+    return sanitized as AppSettings;
+  }
+
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
@@ -7,9 +7,10 @@ import { StickyNote } from '../types';
 export class BatchUpdateManager {
   private updateQueue: Map<string, Partial<import('../types').StickyNote>> = new Map();
   private flushTimeout: NodeJS.Timeout | null = null;
-  private readonly FLUSH_DELAY = 100; // 100ms間隔でバッチ処理
-
-  constructor(private flushCallback: (updates: Map<string, Partial<import('../types').StickyNote>>) => Promise<void>) {}
+  constructor(
+    private flushCallback: (updates: Map<string, Partial<import('../types').StickyNote>>) => Promise<void>,
+    private readonly FLUSH_DELAY: number = 100 // 100ms間隔でバッチ処理
+  ) {}
 
   /**
    * 更新をキューに追加
@@ -6,12 +6,24 @@
 import { app } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
+import { StickyNote } from '../types';
+import { AssetStore } from './assetStore';
+
+// 保存直後でまだ付箋から参照されていない画像を削除しないための猶予
+const ASSET_GRACE_PERIOD_MS = 60 * 60 * 1000;
 
 export class DataCleanupManager {
   private userDataPath: string;
   private notesPath: string;
 
-  constructor() {
+  /**
+   * @param assetStore 画像ファイルの保存先（指定時は参照されていない画像も孤立ファイルとして削除する）
+   * @param getReferencedContents 画像を参照しうるすべての内容（付箋・ゴミ箱・履歴）を返す
+   */
+  constructor(
+    private assetStore?: AssetStore,
+    private getReferencedContents?: () => Promise<StickyNote['content'][]>
+  ) {
     this.userDataPath = app.getPath('userData');
     this.notesPath = path.join(this.userDataPath, 'notes');
   }
@@ -278,9 +290,27 @@ export class DataCleanupManager {
       console.error('Failed to remove orphaned files:', error);
     }
     
+    freedSpace += await this.removeUnreferencedAssets();
+    
     return freedSpace;
   }
 
+  /**
+   * どの付箋からも参照されていない画像ファイルの削除
+   */
+  private async removeUnreferencedAssets(): Promise<number> {
+    if (!this.assetStore || !this.getReferencedContents) return 0;
+    
+    try {
+      const referencedFiles = this.assetStore.collectReferencedFiles(await this.getReferencedContents());
+      return this.assetStore.removeUnreferencedAssets(referencedFiles, ASSET_GRACE_PERIOD_MS);
+    } catch (error) {
+      // 参照を確認できない場合は削除しない
+      console.error('Failed to remove unreferenced assets:', error);
+      return 0;
+    }
+  }
+
   /**
    * データ使用量をフォーマット
    */
@@ -1,19 +1,43 @@
 import { app } from 'electron';
 import * as fs from 'fs';
 import * as path from 'path';
-import { StickyNote, AppSettings } from '../types';
+import { StickyNote, AppSettings, FolderSyncResult, StorageBackend, StorageMetrics } from '../types';
+import { extractTags } from '../utils/tagUtils';
+import { normalizeRichContent } from '../utils/richContentUtils';
+import { FolderSync } from './folderSync';
+import { NoteRepository } from './noteRepository';
+import { JsonNoteRepository } from './jsonNoteRepository';
+import { SqliteNoteRepository } from './sqliteNoteRepository';
+import { BatchUpdateManager } from './batchUpdateManager';
+import { AssetStore } from './assetStore';
 
 export class DataStore {
   private dataPath: string;
   private notesFile: string;
+  private notesDbFile: string;
   private settingsFile: string;
+  private trashFile: string;
+  private syncStateFile: string;
   private backupPath: string;
+  private folderSync: FolderSync | null = null;
+  private assetStore: AssetStore;
+  private repository: NoteRepository;
+  // 付箋のキャッシュ（読み込み後はこちらが正となり、変更された付箋のみ保存先へ書き込む）
+  private cache: Map<string, StickyNote> | null = null;
+  private dirtyIds: Set<string> = new Set();
+  private batchUpdateManager: BatchUpdateManager;
+  // 設定した保存形式を開けなかった理由（利用者がJSON形式での起動を確認するまで付箋を書き込まない）
+  private storageOpenError: string | null = null;
+  private metrics = { loadMs: 0, saveCount: 0, totalSaveMs: 0, lastSaveMs: 0, maxSaveMs: 0 };
   private legacyDataPaths: string[];
 
   constructor() {
     this.dataPath = path.join(app.getPath('userData'), 'sticky-notes-data');
     this.notesFile = path.join(this.dataPath, 'notes.json');
+    this.notesDbFile = path.join(this.dataPath, 'notes.db');
     this.settingsFile = path.join(this.dataPath, 'settings.json');
+    this.trashFile = path.join(this.dataPath, 'trash.json');
+    this.syncStateFile = path.join(this.dataPath, 'sync-state.json');
     this.backupPath = path.join(this.dataPath, 'backups');
     
     // レガシーデータのパス（過去のバージョンで使用されていた可能性がある場所）
@@ -42,6 +66,9 @@ export class DataStore {
     
     this.ensureDataDirectory();
     this.migrateFromLegacyLocations();
+    this.assetStore = new AssetStore(path.join(this.dataPath, 'assets'));
+    this.repository = this.openConfiguredRepository();
+    this.batchUpdateManager = new BatchUpdateManager(() => this.flushDirtyNotes());
   }
 
   private ensureDataDirectory() {
@@ -126,59 +153,49 @@ export class DataStore {
     return null;
   }
 
-  async getAllNotes(): Promise<StickyNote[]> {
-    try {
-      if (!fs.existsSync(this.notesFile)) {
-        return [];
-      }
-      
-      const data = fs.readFileSync(this.notesFile, 'utf8');
-      const notes = JSON.parse(data);
+  /**
+   * 付箋のキャッシュを取得（初回のみ保存先から読み込む）
+   */
+  private async getCache(): Promise<Map<string, StickyNote>> {
+    if (!this.cache) {
+      const startTime = performance.now();
+      const notes = await this.repository.getAllNotes();
       
       // 古い形式のデータを新しい形式に移行
-      const migratedNotes = notes.map((note: any) => this.migrateNoteFormat(note));
-      
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`Loaded and migrated ${migratedNotes.length} notes`);
-      }
-      
-      return migratedNotes;
-    } catch (error) {
-      console.error('Critical error loading notes:', error);
-      console.error('Error details:', {
-        notesFile: this.notesFile,
-        fileExists: fs.existsSync(this.notesFile),
-        error: error instanceof Error ? error.message : error
-      });
-      
-      // バックアップファイルからの復旧を試行
-      const backupFile = this.notesFile + '.backup';
-      if (fs.existsSync(backupFile)) {
-        try {
-          console.log('Attempting to restore from backup file...');
-          const backupData = fs.readFileSync(backupFile, 'utf8');
-          const backupNotes = JSON.parse(backupData);
-          console.log(`Restored ${backupNotes.length} notes from backup`);
-          return backupNotes.map((note: any) => this.migrateNoteFormat(note));
-        } catch (backupError) {
-          console.error('Failed to restore from backup:', backupError);
+      const migratedIds: string[] = [];
+      this.cache = new Map(notes.map((note: any): [string, StickyNote] => {
+        const migratedNote = this.externalizeImages(this.migrateBlockOrder(this.migrateNoteFormat(note)));
+        if (migratedNote.content !== note.content) {
+          migratedIds.push(migratedNote.id);
         }
-      }
+        return [migratedNote.id, migratedNote];
+      }));
       
-      // 本番環境でも重要なエラーをログ出力
-      if (process.env.NODE_ENV === 'production') {
-        console.error('PRODUCTION ERROR: Notes file corruption detected. Please check data integrity.');
-      }
+      // 埋め込まれていた画像を画像ファイルに移した付箋・ブロックを整理した付箋を保存し直す
+      migratedIds.forEach(id => this.markDirty(id, {}));
       
-      // 空配列を返す前に警告
-      console.warn('Returning empty notes array due to file corruption. Data may be lost.');
-      return [];
+      this.metrics.loadMs = performance.now() - startTime;
+      console.log(`[PERF] Loaded ${this.cache.size} notes in ${this.metrics.loadMs.toFixed(1)}ms`);
     }
+    return this.cache;
+  }
+
+  /**
+   * すべての付箋を取得
+   * 呼び出し側で変更してもキャッシュに影響しないようコピーを返す
+   */
+  async getAllNotes(): Promise<StickyNote[]> {
+    const cache = await this.getCache();
+    return Array.from(cache.values(), note => ({ ...note }));
   }
 
   private migrateNoteFormat(note: any): StickyNote {
     // 新しい形式のデータかチェック
     if (note.activeX !== undefined && note.activeY !== undefined) {
+      // タグ導入前のデータは本文からタグを補完
+      if (!Array.isArray(note.tags)) {
+        return { ...note, tags: extractTags(note.content || '') } as StickyNote;
+      }
       return note as StickyNote;
     }
 
@@ -206,78 +223,374 @@ export class DataStore {
       isLocked: note.isLocked || false,
       displayId: note.displayId || '1',
       isActive: note.isActive || false,
+      tags: extractTags(note.content || ''),
       createdAt: note.createdAt || Date.now(),
       updatedAt: note.updatedAt || Date.now()
     };
   }
 
+  /**
+   * ブロック形式の内容を整理する（ブロックの順序は変えない）
+   * 連続するテキストブロックを1つにまとめ、重複したIDを振り直して、エディタでの並びと保存内容を一致させる
+   */
+  private migrateBlockOrder(note: StickyNote): StickyNote {
+    if (!note.content || typeof note.content === 'string') {
+      return note;
+    }
+    const content = normalizeRichContent(note.content);
+    return content === note.content ? note : { ...note, content };
+  }
+
   async getNote(id: string): Promise<StickyNote | null> {
-    const notes = await this.getAllNotes();
-    return notes.find(note => note.id === id) || null;
+    const note = (await this.getCache()).get(id);
+    return note ? { ...note } : null;
   }
 
+  /**
+   * すべての付箋を置き換えて保存（未保存の変更もこの保存に含まれる）
+   */
   async saveNotes(notes: StickyNote[]): Promise<void> {
+    notes = notes.map(note => this.externalizeImages(note));
+    this.cache = new Map(notes.map((note): [string, StickyNote] => [note.id, { ...note }]));
+    this.dirtyIds.clear();
+    
     try {
-      await this.saveNotesAtomic(notes);
+      await this.measureSave(() => this.repository.saveAllNotes(notes));
+      
+      // 同期フォルダにも付箋ごとのファイルとして反映
+      if (this.folderSync) {
+        this.folderSync.mirror(notes);
+      }
     } catch (error) {
       console.error('Error saving notes:', error);
     }
   }
 
-  private async saveNotesAtomic(notes: StickyNote[]): Promise<void> {
-    const tempFile = this.notesFile + '.tmp';
-    const backupFile = this.notesFile + '.backup';
-    const data = JSON.stringify(notes, null, 2);
+  /**
+   * 付箋を変更済みとして記録し、少し待ってからまとめて保存する
+   * 入力のたびに保存先へ書き込まないよう、連続した変更は1回の保存にまとめられる
+   */
+  private markDirty(noteId: string, updates: Partial<StickyNote>): void {
+    this.dirtyIds.add(noteId);
+    this.batchUpdateManager.scheduleUpdate(noteId, updates);
+  }
+
+  /**
+   * 変更済みの付箋を保存先（と同期フォルダ）に書き込む
+   */
+  private async flushDirtyNotes(): Promise<void> {
+    const cache = this.cache;
+    if (!cache || this.dirtyIds.size === 0) {
+      return;
+    }
+    
+    const dirtyIds = Array.from(this.dirtyIds);
+    const dirtyNotes = dirtyIds
+      .map(id => cache.get(id))
+      .filter((note): note is StickyNote => note !== undefined);
+    this.dirtyIds.clear();
     
     try {
-      // 既存ファイルが存在する場合、バックアップを作成
-      if (fs.existsSync(this.notesFile)) {
-        fs.copyFileSync(this.notesFile, backupFile);
+      await this.measureSave(() => this.writeChangedNotes(cache, dirtyNotes));
+    } catch (error) {
+      // 次回の保存で再試行する
+      dirtyIds.filter(id => cache.has(id)).forEach(id => this.dirtyIds.add(id));
+      throw error;
+    }
+    
+    if (this.folderSync) {
+      this.folderSync.mirrorNotes(dirtyNotes);
+    }
+  }
+
+  /**
+   * 変更した付箋を保存先に書き込む
+   * notes.jsonは全件を1ファイルに書き直すため、ファイルを読み直さずキャッシュの全件をそのまま保存する
+   */
+  private writeChangedNotes(cache: Map<string, StickyNote>, changedNotes: StickyNote[]): Promise<void> {
+    if (this.repository.backend === 'json') {
+      return this.repository.saveAllNotes(Array.from(cache.values()));
+    }
+    return this.repository.upsertNotes(changedNotes);
+  }
+
+  private async measureSave(save: () => Promise<void>): Promise<void> {
+    this.assertNotesWritable();
+    const startTime = performance.now();
+    await save();
+    const elapsed = performance.now() - startTime;
+    
+    this.metrics.saveCount++;
+    this.metrics.totalSaveMs += elapsed;
+    this.metrics.lastSaveMs = elapsed;
+    this.metrics.maxSaveMs = Math.max(this.metrics.maxSaveMs, elapsed);
+    
+    if (process.env.NODE_ENV === 'development') {
+      console.log(`[PERF] Notes saved in ${elapsed.toFixed(1)}ms`);
+    }
+  }
+
+  async getStorageMetrics(): Promise<StorageMetrics> {
+    const cache = await this.getCache();
+    return {
+      backend: this.repository.backend,
+      noteCount: cache.size,
+      loadMs: this.metrics.loadMs,
+      saveCount: this.metrics.saveCount,
+      lastSaveMs: this.metrics.lastSaveMs,
+      averageSaveMs: this.metrics.saveCount > 0 ? this.metrics.totalSaveMs / this.metrics.saveCount : 0,
+      maxSaveMs: this.metrics.maxSaveMs,
+      pendingCount: this.dirtyIds.size
+    };
+  }
+
+  /**
+   * 終了時の後処理（未保存の変更の書き込み、同期の停止とデータベースのクローズ）
+   */
+  async close(): Promise<void> {
+    await this.batchUpdateManager.forceFlush();
+    this.batchUpdateManager.destroy();
+    this.stopFolderSync();
+    this.repository.close();
+  }
+
+  getStorageBackend(): StorageBackend {
+    return this.repository.backend;
+  }
+
+  /**
+   * 保存形式を切り替え、現在の付箋を新しい保存先へ移行する
+   * 移行元のデータは削除せずに残す（戻した場合は移行元が上書きされる）
+   * @returns 移行した付箋の数
+   */
+  async switchStorageBackend(backend: StorageBackend): Promise<number> {
+    if (backend === this.repository.backend) {
+      return 0;
+    }
+    
+    this.assertNotesWritable();
+    await this.batchUpdateManager.forceFlush();
+    const notes = await this.getAllNotes();
+    const newRepository = this.createRepository(backend);
+    try {
+      await newRepository.saveAllNotes(notes);
+      const migratedCount = (await newRepository.getAllNotes()).length;
+      if (migratedCount !== notes.length) {
+        throw new Error(`移行した付箋の数が一致しません（${migratedCount}/${notes.length}件）`);
       }
-      
-      // 一時ファイルに書き込み
-      fs.writeFileSync(tempFile, data);
-      
-      // 原子的にリネーム（書き込み完了を保証）
-      fs.renameSync(tempFile, this.notesFile);
-      
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`Saved ${notes.length} notes to ${this.notesFile}`);
+    } catch (error) {
+      newRepository.close();
+      throw error;
+    }
+    
+    this.repository.close();
+    this.repository = newRepository;
+    console.log(`Storage backend switched to ${backend} (${notes.length} notes migrated)`);
+    return notes.length;
+  }
+
+  private createRepository(backend: StorageBackend): NoteRepository {
+    return backend === 'sqlite'
+      ? new SqliteNoteRepository(this.notesDbFile)
+      : new JsonNoteRepository(this.notesFile);
+  }
+
+  /**
+   * 起動時の保存先を設定ファイルから決める（getSettingsは非同期のため直接読む）
+   * SQLiteを開けない場合はnotes.jsonを読み込むが、古い内容の可能性があるため
+   * acceptJsonFallbackで確認されるまで書き込みは行わない
+   */
+  private openConfiguredRepository(): NoteRepository {
+    let backend: StorageBackend = 'json';
+    try {
+      if (fs.existsSync(this.settingsFile)) {
+        const rawSettings = JSON.parse(fs.readFileSync(this.settingsFile, 'utf8'));
+        if (rawSettings.storageBackend === 'sqlite') {
+          backend = 'sqlite';
+        }
       }
-      
+      return this.createRepository(backend);
     } catch (error) {
-      if (process.env.NODE_ENV === 'development') {
-        console.error('Error in saveNotesAtomic:', error);
-        console.error('Error details:', {
-          tempFile,
-          notesFile: this.notesFile,
-          dataLength: data.length,
-          error: error instanceof Error ? error.message : error
-        });
+      console.error(`Failed to open ${backend} storage:`, error);
+      this.storageOpenError = error instanceof Error ? error.message : String(error);
+      return new JsonNoteRepository(this.notesFile);
+    }
+  }
+
+  /**
+   * 設定した保存形式を開けなかった場合、その理由を返す
+   */
+  getStorageOpenError(): string | null {
+    return this.storageOpenError;
+  }
+
+  /**
+   * 保存形式を開けなかったときにJSON形式で続けることを確定し、書き込みを再開する
+   * 次回の起動でも同じエラーにならないよう、設定の保存形式もJSONに戻す
+   */
+  async acceptJsonFallback(): Promise<void> {
+    if (this.storageOpenError === null) {
+      return;
+    }
+    this.storageOpenError = null;
+    await this.updateSettings({ storageBackend: 'json' });
+  }
+
+  private assertNotesWritable(): void {
+    if (this.storageOpenError !== null) {
+      throw new Error(`保存形式を開けなかったため付箋を保存できません: ${this.storageOpenError}`);
+    }
+  }
+
+  /**
+   * フォルダ同期を開始
+   * 開始時にフォルダ内の付箋ファイルと現在の付箋を突き合わせ、以降はフォルダの変更を監視する
+   * @param onExternalChange 外部での変更を取り込んだ後に呼ばれる
+   * @returns 開始時の突き合わせで取り込んだ変更
+   */
+  async startFolderSync(folderPath: string, onExternalChange: (result: FolderSyncResult) => void): Promise<FolderSyncResult> {
+    this.stopFolderSync();
+    
+    const folderSync = new FolderSync(folderPath, this.syncStateFile, this.assetStore);
+    this.folderSync = folderSync;
+    
+    const localIds = (await this.getAllNotes()).map(note => note.id);
+    const result = await this.applyFolderChanges(folderSync, Array.from(new Set([...folderSync.listNoteIds(), ...localIds])));
+    
+    folderSync.watch(async (noteIds) => {
+      // 同期先が切り替わった後の通知は無視
+      if (this.folderSync !== folderSync) return;
+      try {
+        onExternalChange(await this.applyFolderChanges(folderSync, noteIds));
+      } catch (error) {
+        console.error('[SYNC] Failed to apply folder changes:', error);
+      }
+    });
+    
+    console.log(`[SYNC] Folder sync started: ${folderPath}`);
+    return result;
+  }
+
+  stopFolderSync(): void {
+    if (this.folderSync) {
+      this.folderSync.stopWatching();
+      this.folderSync = null;
+    }
+  }
+
+  /**
+   * 同期フォルダの付箋ファイルの変更を取り込む
+   * 最後に同期した版（syncedVersion）を基準に、片方だけが変更されていればその変更を採用し、
+   * 両方で内容が変更されている場合は上書きせず外部側の版を競合コピーとして追加する
+   */
+  private async applyFolderChanges(folderSync: FolderSync, noteIds: string[]): Promise<FolderSyncResult> {
+    const cache = await this.getCache();
+    const result: FolderSyncResult = { updatedNotes: [], addedNotes: [], removedIds: [], conflictCopies: [] };
+    const removedNotes: StickyNote[] = [];
+    // 取り込んだ付箋と、ファイルに書き戻すローカル側の付箋（変更のない付箋は保存し直さない）
+    const importedNotes: StickyNote[] = [];
+    const localNotesToWrite: StickyNote[] = [];
+    const removedFileIds: string[] = [];
+    
+    for (const noteId of noteIds) {
+      const localNote = cache.get(noteId) || null;
+      const syncedVersion = folderSync.getSyncedVersion(noteId);
+      // 最後に同期した版から更新されていればローカルで変更あり
+      // （編集中の入力は1文字ごとに保存されupdatedAtが進むため、編集モードで開いているだけの付箋は変更なしとして扱う）
+      const localChanged = !localNote || syncedVersion === undefined || localNote.updatedAt !== syncedVersion;
+      
+      if (!folderSync.hasNoteFile(noteId)) {
+        // 外部で削除された付箋（ローカルに未同期の変更がある場合は残してファイルを書き戻す）
+        if (localNote && localChanged) {
+          localNotesToWrite.push(localNote);
+        } else {
+          if (localNote) {
+            removedNotes.push(localNote);
+            result.removedIds.push(noteId);
+          }
+          removedFileIds.push(noteId);
+        }
+        continue;
       }
       
-      // エラーが発生した場合は一時ファイルを削除
-      if (fs.existsSync(tempFile)) {
-        fs.unlinkSync(tempFile);
+      const fileNote = folderSync.readNote(noteId);
+      if (!fileNote) {
+        // 書き込み途中などで読めない場合は次の変更通知で再試行
+        continue;
       }
+      // 付箋ファイルには画像が埋め込まれているため、ローカルと比較できるよう参照に置き換える
+      const externalNote = this.externalizeImages(this.migrateBlockOrder(this.migrateNoteFormat(fileNote)));
       
-      // バックアップからの復旧を試行
-      if (fs.existsSync(backupFile)) {
-        try {
-          console.log('Attempting to restore from backup after save failure...');
-          fs.copyFileSync(backupFile, this.notesFile);
-          console.log('Successfully restored from backup');
-        } catch (restoreError) {
-          console.error('Failed to restore from backup:', restoreError);
+      if (!localNote) {
+        importedNotes.push(externalNote);
+        result.addedNotes.push(externalNote);
+      } else if (!localChanged) {
+        importedNotes.push(externalNote);
+        result.updatedNotes.push(externalNote);
+      } else if (JSON.stringify(localNote.content) === JSON.stringify(externalNote.content)) {
+        // 内容が同じなら位置や色などは新しい方を採用
+        if (externalNote.updatedAt > localNote.updatedAt && !localNote.isActive) {
+          importedNotes.push(externalNote);
+          result.updatedNotes.push(externalNote);
+        } else {
+          localNotesToWrite.push(localNote);
         }
+      } else {
+        const conflictCopy: StickyNote = {
+          ...externalNote,
+          id: this.generateId(),
+          inactiveX: externalNote.inactiveX + 30,
+          inactiveY: externalNote.inactiveY + 30,
+          updatedAt: Date.now()
+        };
+        importedNotes.push(conflictCopy);
+        result.conflictCopies.push(conflictCopy);
+        localNotesToWrite.push(localNote);
+      }
+    }
+    
+    if (removedNotes.length > 0) {
+      const trashedNotes = await this.getTrashedNotes();
+      const deletedAt = Date.now();
+      removedNotes
+        .filter(note => !this.isContentEmpty(note.content))
+        .forEach(note => trashedNotes.push({ ...note, isActive: false, deletedAt }));
+      await this.saveTrash(trashedNotes);
+    }
+    
+    removedNotes.forEach(note => {
+      cache.delete(note.id);
+      this.dirtyIds.delete(note.id);
+    });
+    importedNotes.forEach(note => cache.set(note.id, { ...note }));
+    
+    try {
+      if (importedNotes.length > 0 || removedNotes.length > 0) {
+        await this.measureSave(async () => {
+          await this.writeChangedNotes(cache, importedNotes);
+          if (this.repository.backend !== 'json') {
+            for (const note of removedNotes) {
+              await this.repository.deleteNote(note.id);
+            }
+          }
+        });
       }
       
-      throw error;
+      // 取り込んだ付箋は同期済みの版として記録し、ローカル側を採用した付箋はファイルに書き戻す
+      folderSync.mirrorNotes([...importedNotes, ...localNotesToWrite]);
+      folderSync.removeNotes(removedFileIds);
+    } catch (error) {
+      console.error('Error saving notes:', error);
     }
+    
+    if (result.updatedNotes.length + result.addedNotes.length + result.removedIds.length + result.conflictCopies.length > 0) {
+      console.log(`[SYNC] Applied folder changes: ${result.updatedNotes.length} updated, ${result.addedNotes.length} added, ` +
+                  `${result.removedIds.length} removed, ${result.conflictCopies.length} conflicts`);
+    }
+    return result;
   }
 
   async createNote(nearNote?: StickyNote): Promise<StickyNote> {
-    const notes = await this.getAllNotes();
     const settings = await this.getSettings();
     
     // 設定からデフォルトサイズを取得
@@ -312,41 +625,47 @@ export class DataStore {
       displayId: nearNote ? nearNote.displayId : '1', // 親付箋のディスプレイを引き継ぐ
       isActive: true,  // 新規ノートは編集モードで開始
       isNewlyCreated: true, // 新規作成フラグ
+      tags: [],
       createdAt: Date.now(),
       updatedAt: Date.now()
     };
 
-    notes.push(newNote);
-    await this.saveNotes(notes);
-    return newNote;
+    (await this.getCache()).set(newNote.id, newNote);
+    this.markDirty(newNote.id, newNote);
+    await this.batchUpdateManager.forceFlush();
+    return { ...newNote };
   }
 
   async updateNote(id: string, updates: Partial<StickyNote>): Promise<void> {
-    const notes = await this.getAllNotes();
-    const index = notes.findIndex(note => note.id === id);
+    const cache = await this.getCache();
+    const currentNote = cache.get(id);
     
-    if (index !== -1) {
-      const currentNote = notes[index];
-      
+    if (currentNote) {
       // 数値フィールドの検証と正規化
       const validatedUpdates = this.validateNoteUpdates(updates);
       
+      // 内容が変更された場合は画像をファイルに移し、タグを再抽出
+      if (validatedUpdates.content !== undefined) {
+        validatedUpdates.content = this.assetStore.externalizeContent(validatedUpdates.content);
+        validatedUpdates.tags = extractTags(validatedUpdates.content);
+      }
+      
       // 更新を適用
       const updatedNote = { 
         ...currentNote, 
         ...validatedUpdates, 
         updatedAt: Date.now() 
       };
-      notes[index] = updatedNote;
       
-      await this.saveNotes(notes);
+      cache.set(id, updatedNote);
+      this.markDirty(id, validatedUpdates);
       
       if (process.env.NODE_ENV === 'development') {
         console.log(`Note ${id} updated successfully`);
       }
     } else {
       if (process.env.NODE_ENV === 'development') {
-        console.warn(`Note with ID ${id} not found in ${notes.length} notes`);
+        console.warn(`Note with ID ${id} not found`);
       }
       // 削除されたノートへの更新試行の場合、エラーを投げる
       throw new Error(`Cannot update note with ID ${id}: note does not exist`);
@@ -378,10 +697,186 @@ export class DataStore {
     return validated;
   }
 
+  /**
+   * 付箋を削除（ゴミ箱へ移動）
+   * 内容が完全に空の付箋はゴミ箱に入れず完全に削除する
+   */
   async deleteNote(id: string): Promise<void> {
+    await this.deleteNotes([id]);
+  }
+
+  /**
+   * 複数の付箋をまとめてゴミ箱へ移動（ゴミ箱と付箋の保存はそれぞれ1回）
+   * 内容が完全に空の付箋はゴミ箱に入れず完全に削除する
+   */
+  async deleteNotes(ids: string[]): Promise<void> {
+    this.assertNotesWritable();
+    const cache = await this.getCache();
+    const deletedNotes = Array.from(new Set(ids))
+      .map(id => cache.get(id))
+      .filter((note): note is StickyNote => note !== undefined);
+    if (deletedNotes.length === 0) {
+      return;
+    }
+    
+    const trashedNotes = deletedNotes.filter(note => !this.isContentEmpty(note.content));
+    if (trashedNotes.length > 0) {
+      const deletedAt = Date.now();
+      await this.saveTrash([
+        ...await this.getTrashedNotes(),
+        ...trashedNotes.map(note => ({ ...note, isActive: false, deletedAt }))
+      ]);
+    }
+    
+    deletedNotes.forEach(note => {
+      cache.delete(note.id);
+      this.dirtyIds.delete(note.id);
+    });
+    
+    try {
+      if (this.repository.backend === 'json') {
+        await this.repository.saveAllNotes(Array.from(cache.values()));
+      } else {
+        for (const note of deletedNotes) {
+          await this.repository.deleteNote(note.id);
+        }
+      }
+      
+      if (this.folderSync) {
+        this.folderSync.removeNotes(deletedNotes.map(note => note.id));
+      }
+    } catch (error) {
+      console.error('Error deleting notes:', error);
+    }
+  }
+
+  /**
+   * すべての付箋をまとめてゴミ箱へ移動（バックアップの置き換え復元用）
+   * @returns ゴミ箱へ移動した（または空のため削除した）付箋のID
+   */
+  async trashAllNotes(): Promise<string[]> {
+    const notes = await this.getAllNotes();
+    const deletedAt = Date.now();
+    
+    const trashedNotes = await this.getTrashedNotes();
+    notes
+      .filter(note => !this.isContentEmpty(note.content))
+      .forEach(note => trashedNotes.push({ ...note, isActive: false, deletedAt }));
+    await this.saveTrash(trashedNotes);
+    
+    await this.saveNotes([]);
+    return notes.map(note => note.id);
+  }
+
+  getAssetStore(): AssetStore {
+    return this.assetStore;
+  }
+
+  /**
+   * 付箋とゴミ箱内の付箋の内容（画像ファイルの参照確認用）
+   */
+  async getAllNoteContents(): Promise<StickyNote['content'][]> {
+    const notes = Array.from((await this.getCache()).values());
+    const trashedNotes = await this.getTrashedNotes();
+    return [...notes, ...trashedNotes].map(note => note.content);
+  }
+
+  private externalizeImages<T extends StickyNote>(note: T): T {
+    const content = this.assetStore.externalizeContent(note.content);
+    return content === note.content ? note : { ...note, content };
+  }
+
+  private isContentEmpty(content: StickyNote['content']): boolean {
+    if (!content) return true;
+    if (typeof content === 'string') {
+      return content.trim().length === 0;
+    }
+    // 表は内容をmetadataに持つため、ブロックがあれば空としない
+    return !content.blocks || content.blocks.every(block =>
+      block.type !== 'table' && (!block.content || !block.content.trim())
+    );
+  }
+
+  /**
+   * ゴミ箱内の付箋を取得
+   */
+  async getTrashedNotes(): Promise<StickyNote[]> {
+    try {
+      if (!fs.existsSync(this.trashFile)) {
+        return [];
+      }
+      const data = fs.readFileSync(this.trashFile, 'utf8');
+      const trashedNotes = JSON.parse(data);
+      return trashedNotes.map((note: any) => this.migrateNoteFormat(note));
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      return [];
+    }
+  }
+
+  private async saveTrash(trashedNotes: StickyNote[]): Promise<void> {
+    const tempFile = this.trashFile + '.tmp';
+    
+    try {
+      // 一時ファイルに書き込み
+      fs.writeFileSync(tempFile, JSON.stringify(trashedNotes.map(note => this.externalizeImages(note)), null, 2));
+      
+      // 原子的にリネーム（書き込み完了を保証）
+      fs.renameSync(tempFile, this.trashFile);
+    } catch (error) {
+      console.error('Error saving trash:', error);
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * ゴミ箱から付箋を復元
+   */
+  async restoreNote(id: string): Promise<StickyNote | null> {
+    const trashedNotes = await this.getTrashedNotes();
+    const trashedNote = trashedNotes.find(note => note.id === id);
+    if (!trashedNote) {
+      return null;
+    }
+    
+    const { deletedAt, ...restoredNote } = trashedNote;
     const notes = await this.getAllNotes();
-    const filteredNotes = notes.filter(note => note.id !== id);
-    await this.saveNotes(filteredNotes);
+    notes.push({ ...restoredNote, isActive: false, updatedAt: Date.now() });
+    
+    await this.saveNotes(notes);
+    await this.saveTrash(trashedNotes.filter(note => note.id !== id));
+    
+    return notes[notes.length - 1];
+  }
+
+  /**
+   * ゴミ箱から付箋を完全に削除
+   */
+  async purgeNote(id: string): Promise<void> {
+    const trashedNotes = await this.getTrashedNotes();
+    await this.saveTrash(trashedNotes.filter(note => note.id !== id));
+  }
+
+  /**
+   * 保持期間を過ぎたゴミ箱内の付箋を完全に削除
+   * @returns 削除した付箋のID
+   */
+  async purgeExpiredTrash(retentionDays: number): Promise<string[]> {
+    const trashedNotes = await this.getTrashedNotes();
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    
+    const expiredIds = trashedNotes
+      .filter(note => (note.deletedAt || 0) < cutoff)
+      .map(note => note.id);
+    
+    if (expiredIds.length > 0) {
+      await this.saveTrash(trashedNotes.filter(note => !expiredIds.includes(note.id)));
+    }
+    
+    return expiredIds;
   }
 
   async updateNotePosition(id: string, x: number, y: number, isActive: boolean): Promise<void> {
@@ -422,7 +917,8 @@ export class DataStore {
           defaultInactiveWidth: 150,  // 非アクティブモードのデフォルト幅（50-300の中間値）
           defaultInactiveHeight: 125,  // 非アクティブモードのデフォルト高さ（50-200の中間値）
           defaultInactiveFontSize: 12,  // 非アクティブモードのデフォルトフォントサイズ（8-20の中間値）
-          newNoteHotkey: undefined  // 新規ノート作成ホットキー
+          newNoteHotkey: undefined,  // 新規ノート作成ホットキー
+          trashRetentionDays: 30  // ゴミ箱の保持期間
         };
         console.log('[DEBUG] Settings file not found, creating default:', defaultSettings);
         await this.saveSettings(defaultSettings);
@@ -446,7 +942,14 @@ export class DataStore {
         pinHotkey: rawSettings.pinHotkey,
         lockHotkey: rawSettings.lockHotkey,
         newNoteHotkey: rawSettings.newNoteHotkey,
-        autoStart: rawSettings.autoStart ?? false
+        captureHotkey: rawSettings.captureHotkey,
+        autoStart: rawSettings.autoStart ?? false,
+        trashRetentionDays: rawSettings.trashRetentionDays ?? 30,
+        moveCheckedToBottom: rawSettings.moveCheckedToBottom ?? false,
+        fetchLinkTitles: rawSettings.fetchLinkTitles ?? false,
+        syncFolderPath: rawSettings.syncFolderPath ?? '',
+        storageBackend: rawSettings.storageBackend ?? 'json',
+        savedSearches: Array.isArray(rawSettings.savedSearches) ? rawSettings.savedSearches : []
       };
       
       console.log('[DEBUG] Settings after field completion:', settings);
@@ -467,7 +970,8 @@ export class DataStore {
         defaultInactiveWidth: 150,  // 50-300の中間値
         defaultInactiveHeight: 125,  // 50-200の中間値
         defaultInactiveFontSize: 12,  // 8-20の中間値
-        newNoteHotkey: undefined  // 新規ノート作成ホットキー
+        newNoteHotkey: undefined,  // 新規ノート作成ホットキー
+        trashRetentionDays: 30
       };
       console.log('[DEBUG] Using fallback settings:', fallbackSettings);
       return fallbackSettings;
@@ -518,8 +1022,7 @@ export class DataStore {
 
   async forceFlushAll(): Promise<void> {
     try {
-      const notes = await this.getAllNotes();
-      await this.saveNotesAtomic(notes);
+      await this.batchUpdateManager.forceFlush();
       if (process.env.NODE_ENV === 'development') {
         console.log('Emergency data flush completed successfully');
       }
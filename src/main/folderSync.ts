@@ -0,0 +1,287 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StickyNote } from '../types';
+import { AssetStore } from './assetStore';
+
+const NOTE_FILE_SUFFIX = '.note.json';
+const WATCH_DEBOUNCE_MS = 500;
+
+interface SyncState {
+  folderPath: string;
+  // 最後に同期した時点の各付箋のupdatedAt（3方向比較のベース）
+  syncedVersions: Record<string, number>;
+}
+
+/**
+ * 同期フォルダ内の付箋ファイル（1付箋 = 1ファイル）の読み書きと監視
+ * 付箋ファイルはSyncthingやGitで同期されることを想定し、ウィンドウの表示状態など端末固有の値は含めない
+ * 画像は他の端末でも表示できるよう、付箋ファイルにデータURLとして埋め込む
+ */
+export class FolderSync {
+  private watcher: fs.FSWatcher | null = null;
+  private watchTimeout: NodeJS.Timeout | null = null;
+  private pendingIds: Set<string> = new Set();
+  // 最後に読み書きしたファイル内容（自分の書き込みによる変更通知を無視するため）
+  private knownContents: Map<string, string> = new Map();
+  private syncedVersions: Map<string, number> = new Map();
+  // 最後に書き込んだ付箋（画像は参照のまま）。画像はハッシュを含む参照で比較し、変更がなければ埋め込み直さない
+  private writtenNotes: Map<string, string> = new Map();
+  // 付箋ごとの埋め込み済みの画像（入力のたびに同じ画像ファイルを読み直さないため）
+  private inlinedImages: Map<string, Map<string, string>> = new Map();
+
+  constructor(private folderPath: string, private stateFile: string, private assetStore: AssetStore) {
+    if (!fs.existsSync(folderPath)) {
+      fs.mkdirSync(folderPath, { recursive: true });
+    }
+    this.loadState();
+  }
+
+  getFolderPath(): string {
+    return this.folderPath;
+  }
+
+  getSyncedVersion(noteId: string): number | undefined {
+    return this.syncedVersions.get(noteId);
+  }
+
+  /**
+   * フォルダ内のすべての付箋ファイルのIDを取得
+   */
+  listNoteIds(): string[] {
+    return fs.readdirSync(this.folderPath)
+      .filter(fileName => fileName.endsWith(NOTE_FILE_SUFFIX))
+      .map(fileName => fileName.slice(0, -NOTE_FILE_SUFFIX.length));
+  }
+
+  hasNoteFile(noteId: string): boolean {
+    return fs.existsSync(this.getNoteFilePath(noteId));
+  }
+
+  /**
+   * 付箋ファイルを読み込む（存在しない・壊れている場合はnull）
+   */
+  readNote(noteId: string): StickyNote | null {
+    const filePath = this.getNoteFilePath(noteId);
+    try {
+      if (!fs.existsSync(filePath)) {
+        return null;
+      }
+      const data = fs.readFileSync(filePath, 'utf8');
+      const note = JSON.parse(data);
+      if (!note || note.id !== noteId || note.content === undefined) {
+        console.warn(`[SYNC] Ignoring invalid note file: ${filePath}`);
+        return null;
+      }
+      this.knownContents.set(noteId, data);
+      this.writtenNotes.delete(noteId);
+      return { ...note, isActive: false };
+    } catch (error) {
+      // 同期ツールが書き込み途中の場合もあるため、次の変更通知で再試行される
+      console.error(`[SYNC] Failed to read note file ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * ファイル内容が最後に読み書きした内容から変わっているか
+   */
+  hasExternalChange(noteId: string): boolean {
+    const filePath = this.getNoteFilePath(noteId);
+    if (!fs.existsSync(filePath)) {
+      return this.knownContents.has(noteId) || this.syncedVersions.has(noteId);
+    }
+    try {
+      return fs.readFileSync(filePath, 'utf8') !== this.knownContents.get(noteId);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * 付箋をフォルダに書き出す
+   * 内容が変わった付箋のみ書き込み、同期済みでローカルから消えた付箋のファイルは削除する
+   */
+  mirror(notes: StickyNote[]): void {
+    const noteIds = new Set(notes.map(note => note.id));
+
+    notes.forEach(note => this.writeNote(note));
+
+    Array.from(this.syncedVersions.keys())
+      .filter(noteId => !noteIds.has(noteId))
+      .forEach(noteId => this.deleteNoteFile(noteId));
+
+    this.saveState();
+  }
+
+  /**
+   * 変更した付箋だけをフォルダに書き出す
+   */
+  mirrorNotes(notes: StickyNote[]): void {
+    if (notes.length === 0) {
+      return;
+    }
+    notes.forEach(note => this.writeNote(note));
+    this.saveState();
+  }
+
+  /**
+   * ローカルで削除された付箋のファイルを削除
+   */
+  removeNotes(noteIds: string[]): void {
+    if (noteIds.length === 0) {
+      return;
+    }
+    noteIds.forEach(noteId => this.deleteNoteFile(noteId));
+    this.saveState();
+  }
+
+  private writeNote(note: StickyNote): void {
+    const syncedNote = this.toSyncedNote(note);
+    const writtenNote = JSON.stringify(syncedNote);
+    if (this.writtenNotes.get(note.id) === writtenNote && fs.existsSync(this.getNoteFilePath(note.id))) {
+      this.syncedVersions.set(note.id, note.updatedAt);
+      return;
+    }
+    
+    const data = JSON.stringify({ ...syncedNote, content: this.inlineImages(note.id, syncedNote.content) }, null, 2);
+    if (this.knownContents.get(note.id) === data && fs.existsSync(this.getNoteFilePath(note.id))) {
+      this.writtenNotes.set(note.id, writtenNote);
+      this.syncedVersions.set(note.id, note.updatedAt);
+      return;
+    }
+    try {
+      this.writeFileAtomic(this.getNoteFilePath(note.id), data);
+      this.knownContents.set(note.id, data);
+      this.writtenNotes.set(note.id, writtenNote);
+      this.syncedVersions.set(note.id, note.updatedAt);
+    } catch (error) {
+      console.error(`[SYNC] Failed to write note file for ${note.id}:`, error);
+    }
+  }
+
+  private deleteNoteFile(noteId: string): void {
+    try {
+      const filePath = this.getNoteFilePath(noteId);
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    } catch (error) {
+      console.error(`[SYNC] Failed to delete note file for ${noteId}:`, error);
+    }
+    this.syncedVersions.delete(noteId);
+    this.knownContents.delete(noteId);
+    this.writtenNotes.delete(noteId);
+    this.inlinedImages.delete(noteId);
+  }
+
+  /**
+   * フォルダの監視を開始
+   * 同期ツールは短時間に複数回書き込むことがあるため、まとめてから通知する
+   */
+  watch(onChange: (noteIds: string[]) => void): void {
+    this.stopWatching();
+    this.watcher = fs.watch(this.folderPath, (_, fileName) => {
+      if (!fileName || !fileName.toString().endsWith(NOTE_FILE_SUFFIX)) {
+        return;
+      }
+      this.pendingIds.add(fileName.toString().slice(0, -NOTE_FILE_SUFFIX.length));
+
+      if (this.watchTimeout) {
+        clearTimeout(this.watchTimeout);
+      }
+      this.watchTimeout = setTimeout(() => {
+        this.watchTimeout = null;
+        const changedIds = Array.from(this.pendingIds).filter(noteId => this.hasExternalChange(noteId));
+        this.pendingIds.clear();
+        if (changedIds.length > 0) {
+          onChange(changedIds);
+        }
+      }, WATCH_DEBOUNCE_MS);
+    });
+
+    this.watcher.on('error', (error) => {
+      console.error('[SYNC] Folder watcher error:', error);
+    });
+  }
+
+  stopWatching(): void {
+    if (this.watchTimeout) {
+      clearTimeout(this.watchTimeout);
+      this.watchTimeout = null;
+    }
+    this.pendingIds.clear();
+    if (this.watcher) {
+      this.watcher.close();
+      this.watcher = null;
+    }
+  }
+
+  private toSyncedNote(note: StickyNote): Omit<StickyNote, 'isActive' | 'isNewlyCreated'> {
+    // 編集中かどうかなど端末固有の状態は同期しない
+    const { isActive, isNewlyCreated, ...syncedNote } = note;
+    return syncedNote;
+  }
+
+  /**
+   * 画像を埋め込む（画像ファイル名は内容のハッシュのため、同じURLの画像は前回のデータURLを使い回す）
+   */
+  private inlineImages(noteId: string, content: StickyNote['content']): StickyNote['content'] {
+    const images = this.inlinedImages.get(noteId) || new Map<string, string>();
+    const inlined = this.assetStore.inlineContent(content, images);
+    
+    // 付箋から外された画像のデータは保持しない
+    const imageUrls = new Set(typeof content === 'string' || !Array.isArray(content?.blocks) ? [] :
+      content.blocks.filter(block => block.type === 'image').map(block => block.content));
+    Array.from(images.keys())
+      .filter(url => !imageUrls.has(url))
+      .forEach(url => images.delete(url));
+    this.inlinedImages.set(noteId, images);
+    return inlined;
+  }
+
+  private getNoteFilePath(noteId: string): string {
+    return path.join(this.folderPath, `${noteId}${NOTE_FILE_SUFFIX}`);
+  }
+
+  private writeFileAtomic(filePath: string, data: string): void {
+    const tempFile = filePath + '.tmp';
+    try {
+      fs.writeFileSync(tempFile, data, 'utf8');
+      fs.renameSync(tempFile, filePath);
+    } catch (error) {
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 同期状態を読み込む（別のフォルダの状態は引き継がない）
+   */
+  private loadState(): void {
+    try {
+      if (!fs.existsSync(this.stateFile)) {
+        return;
+      }
+      const state: SyncState = JSON.parse(fs.readFileSync(this.stateFile, 'utf8'));
+      if (state.folderPath === this.folderPath && state.syncedVersions) {
+        this.syncedVersions = new Map(Object.entries(state.syncedVersions));
+      }
+    } catch (error) {
+      console.error('[SYNC] Failed to load sync state:', error);
+    }
+  }
+
+  private saveState(): void {
+    const state: SyncState = {
+      folderPath: this.folderPath,
+      syncedVersions: Object.fromEntries(this.syncedVersions)
+    };
+    try {
+      this.writeFileAtomic(this.stateFile, JSON.stringify(state, null, 2));
+    } catch (error) {
+      console.error('[SYNC] Failed to save sync state:', error);
+    }
+  }
+}
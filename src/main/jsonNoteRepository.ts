@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import { StickyNote } from '../types';
+import { NoteRepository } from './noteRepository';
+
+/**
+ * notes.jsonに全付箋を1ファイルで保存する実装（従来の保存形式）
+ * 1件の更新でもファイル全体を書き直す（DataStoreはキャッシュの全件をsaveAllNotesで保存する）
+ */
+export class JsonNoteRepository implements NoteRepository {
+  readonly backend = 'json' as const;
+
+  constructor(private notesFile: string) {}
+
+  async getAllNotes(): Promise<StickyNote[]> {
+    try {
+      if (!fs.existsSync(this.notesFile)) {
+        return [];
+      }
+
+      const data = fs.readFileSync(this.notesFile, 'utf8');
+      const notes = JSON.parse(data);
+
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`Loaded ${notes.length} notes`);
+      }
+
+      return notes;
+    } catch (error) {
+      console.error('Critical error loading notes:', error);
+      console.error('Error details:', {
+        notesFile: this.notesFile,
+        fileExists: fs.existsSync(this.notesFile),
+        error: error instanceof Error ? error.message : error
+      });
+
+      // バックアップファイルからの復旧を試行
+      const backupFile = this.notesFile + '.backup';
+      if (fs.existsSync(backupFile)) {
+        try {
+          console.log('Attempting to restore from backup file...');
+          const backupData = fs.readFileSync(backupFile, 'utf8');
+          const backupNotes = JSON.parse(backupData);
+          console.log(`Restored ${backupNotes.length} notes from backup`);
+          return backupNotes;
+        } catch (backupError) {
+          console.error('Failed to restore from backup:', backupError);
+        }
+      }
+
+      // 本番環境でも重要なエラーをログ出力
+      if (process.env.NODE_ENV === 'production') {
+        console.error('PRODUCTION ERROR: Notes file corruption detected. Please check data integrity.');
+      }
+
+      // 空配列を返す前に警告
+      console.warn('Returning empty notes array due to file corruption. Data may be lost.');
+      return [];
+    }
+  }
+
+  async getNote(id: string): Promise<StickyNote | null> {
+    const notes = await this.getAllNotes();
+    return notes.find(note => note.id === id) || null;
+  }
+
+  async saveAllNotes(notes: StickyNote[]): Promise<void> {
+    const tempFile = this.notesFile + '.tmp';
+    const backupFile = this.notesFile + '.backup';
+    const data = JSON.stringify(notes, null, 2);
+
+    try {
+      // 既存ファイルが存在する場合、バックアップを作成
+      if (fs.existsSync(this.notesFile)) {
+        fs.copyFileSync(this.notesFile, backupFile);
+      }
+
+      // 一時ファイルに書き込み
+      fs.writeFileSync(tempFile, data);
+
+      // 原子的にリネーム（書き込み完了を保証）
+      fs.renameSync(tempFile, this.notesFile);
+
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`Saved ${notes.length} notes to ${this.notesFile}`);
+      }
+
+    } catch (error) {
+      if (process.env.NODE_ENV === 'development') {
+        console.error('Error in saveAllNotes:', error);
+        console.error('Error details:', {
+          tempFile,
+          notesFile: this.notesFile,
+          dataLength: data.length,
+          error: error instanceof Error ? error.message : error
+        });
+      }
+
+      // エラーが発生した場合は一時ファイルを削除
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+
+      // バックアップからの復旧を試行
+      if (fs.existsSync(backupFile)) {
+        try {
+          console.log('Attempting to restore from backup after save failure...');
+          fs.copyFileSync(backupFile, this.notesFile);
+          console.log('Successfully restored from backup');
+        } catch (restoreError) {
+          console.error('Failed to restore from backup:', restoreError);
+        }
+      }
+
+      throw error;
+    }
+  }
+
+  async upsertNotes(changedNotes: StickyNote[]): Promise<void> {
+    // Mapは既存のキーの順序を保つため、更新した付箋は元の位置のまま・新規の付箋は末尾になる
+    const notesById = new Map((await this.getAllNotes()).map((note): [string, StickyNote] => [note.id, note]));
+    changedNotes.forEach(note => notesById.set(note.id, note));
+    await this.saveAllNotes(Array.from(notesById.values()));
+  }
+
+  async deleteNote(id: string): Promise<void> {
+    const notes = await this.getAllNotes();
+    await this.saveAllNotes(notes.filter(note => note.id !== id));
+  }
+
+  close(): void {
+    // ファイルは都度開閉しているため何もしない
+  }
+}
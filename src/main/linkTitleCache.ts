@@ -0,0 +1,189 @@
+import { net } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface LinkTitleEntry {
+  title: string | null; // 取得できなかった場合はnull
+  fetchedAt: number;
+}
+
+const TITLE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 取得できたタイトルは1週間
+const FAILURE_TTL_MS = 60 * 60 * 1000; // 取得に失敗したURLは1時間後に再試行
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_BODY_BYTES = 512 * 1024; // <title>は先頭付近にあるため全体は読まない
+const MAX_TITLE_LENGTH = 200;
+const MAX_ENTRIES = 2000;
+const SAVE_DELAY_MS = 2000;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' '
+};
+
+/**
+ * リンク先ページのタイトルを取得し、ローカルにキャッシュする
+ */
+export class LinkTitleCache {
+  private entries: Record<string, LinkTitleEntry> | null = null;
+  private pending: Map<string, Promise<string | null>> = new Map();
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly cacheFile: string) {}
+
+  /**
+   * ページのタイトル（http/https以外・取得できない場合はnull）
+   */
+  async getTitle(url: string): Promise<string | null> {
+    if (!/^https?:\/\//i.test(url)) {
+      return null;
+    }
+
+    const entries = this.load();
+    const entry = entries[url];
+    if (entry && Date.now() - entry.fetchedAt < (entry.title ? TITLE_TTL_MS : FAILURE_TTL_MS)) {
+      return entry.title;
+    }
+
+    // 同じURLの取得が進行中なら結果を共有
+    const existing = this.pending.get(url);
+    if (existing) {
+      return existing;
+    }
+
+    const request = this.fetchTitle(url)
+      .catch(error => {
+        console.warn('[LINK] Failed to fetch link title:', url, error instanceof Error ? error.message : error);
+        return null;
+      })
+      .then(title => {
+        entries[url] = { title, fetchedAt: Date.now() };
+        this.scheduleSave();
+        return title;
+      })
+      .finally(() => this.pending.delete(url));
+    this.pending.set(url, request);
+    return request;
+  }
+
+  /**
+   * 保留中のキャッシュを書き込む（終了時用）
+   */
+  flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      this.save();
+    }
+  }
+
+  private load(): Record<string, LinkTitleEntry> {
+    if (!this.entries) {
+      try {
+        this.entries = fs.existsSync(this.cacheFile)
+          ? JSON.parse(fs.readFileSync(this.cacheFile, 'utf8'))
+          : {};
+      } catch (error) {
+        console.error('[LINK] Failed to load link title cache:', error);
+        this.entries = {};
+      }
+    }
+    return this.entries!;
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private save(): void {
+    if (!this.entries) return;
+    try {
+      // 古いものから削除して件数を抑える
+      const urls = Object.keys(this.entries);
+      if (urls.length > MAX_ENTRIES) {
+        urls
+          .sort((a, b) => this.entries![a].fetchedAt - this.entries![b].fetchedAt)
+          .slice(0, urls.length - MAX_ENTRIES)
+          .forEach(url => delete this.entries![url]);
+      }
+
+      fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+      const tempFile = `${this.cacheFile}.tmp`;
+      fs.writeFileSync(tempFile, JSON.stringify(this.entries), 'utf8');
+      fs.renameSync(tempFile, this.cacheFile);
+    } catch (error) {
+      console.error('[LINK] Failed to save link title cache:', error);
+    }
+  }
+
+  private async fetchTitle(url: string): Promise<string | null> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+    try {
+      const response = await net.fetch(url, {
+        signal: controller.signal,
+        headers: { Accept: 'text/html,application/xhtml+xml' }
+      });
+      const contentType = response.headers.get('content-type') || '';
+      if (!response.ok || !response.body || !/html/i.test(contentType)) {
+        return null;
+      }
+
+      const html = await this.readBody(response.body, this.getCharset(contentType));
+      return this.extractTitle(html);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private async readBody(body: ReadableStream<Uint8Array>, charset: string): Promise<string> {
+    const reader = body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+
+    while (total < MAX_BODY_BYTES) {
+      const { done, value } = await reader.read();
+      if (done || !value) break;
+      chunks.push(value);
+      total += value.length;
+      // タイトルを読み終えたら打ち切る
+      if (/<\/title>/i.test(Buffer.from(value).toString('latin1'))) break;
+    }
+    reader.cancel().catch(() => {});
+
+    const buffer = Buffer.concat(chunks);
+    try {
+      return new TextDecoder(charset).decode(buffer);
+    } catch {
+      return new TextDecoder('utf-8').decode(buffer);
+    }
+  }
+
+  private getCharset(contentType: string): string {
+    const match = contentType.match(/charset=["']?([\w-]+)/i);
+    return match ? match[1].toLowerCase() : 'utf-8';
+  }
+
+  private extractTitle(html: string): string | null {
+    const match = html.match(/<meta[^>]+property=["']og:title["'][^>]+content=["']([^"']*)["']/i) ||
+                  html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    if (!match) return null;
+
+    const title = match[1]
+      .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+        if (code[0] === '#') {
+          const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+          return isNaN(value) || value > 0x10ffff ? entity : String.fromCodePoint(value);
+        }
+        return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+      })
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (!title) return null;
+    return title.length > MAX_TITLE_LENGTH ? title.substring(0, MAX_TITLE_LENGTH - 3) + '...' : title;
+  }
+}
@@ -1,11 +1,23 @@
-import { app, BrowserWindow, screen, ipcMain, Menu, Tray, nativeImage, globalShortcut, dialog, shell } from 'electron';
+import { app, BrowserWindow, screen, ipcMain, Menu, Tray, nativeImage, globalShortcut, dialog, shell, Notification, protocol, net } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
-import { StickyNote, DisplayInfo, AppSettings, SearchQuery } from '../types';
+import { StickyNote, DisplayInfo, AppSettings, SearchQuery, ReminderRecurrence, BackupImportMode, FolderSyncResult, SavedSearch } from '../types';
 import { DataStore } from './dataStore';
 import { WindowStateManager } from './windowStateManager';
 import { SearchService } from './searchService';
+import { NoteHistoryManager } from './noteHistoryManager';
+import { ReminderScheduler } from './reminderScheduler';
+import { BackupManager } from './backupManager';
+import { MarkdownExporter } from './markdownExporter';
+import { DataCleanupManager } from './dataCleanupManager';
+import { ASSET_PROTOCOL } from './assetStore';
+import { ScreenCapture, CaptureRegion } from './screenCapture';
+import { getPlainText } from '../utils/blockTextUtils';
+import { getAllowedLinkKind } from '../utils/linkUtils';
+import { createSavedSearchQuery, validateSavedSearch } from '../utils/savedSearchUtils';
+import { LinkTitleCache } from './linkTitleCache';
+import { fileURLToPath, pathToFileURL } from 'url';
 
 /**
  * デバッグログ制御関数
@@ -66,6 +78,14 @@ function safeSend(webContents: Electron.WebContents, channel: string, ...args: a
   }
 }
 
+/**
+ * IPCで受け取った付箋IDの配列を検証（文字列以外と重複を除く）
+ */
+function toNoteIdList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.filter((id): id is string => typeof id === 'string' && id.length > 0)));
+}
+
 /**
  * アプリケーション定数
  */
@@ -92,10 +112,11 @@ const APP_CONSTANTS = {
   FOCUS_DELAY_MS: 120,
   SHUTDOWN_WAIT_MS: 300,
   QUIT_TIMEOUT_MS: 100,
+  TRASH_PURGE_INTERVAL_MS: 60 * 60 * 1000, // ゴミ箱の期限切れチェック間隔（1時間）
   
   // デフォルトサイズ
   SETTINGS_WINDOW: { width: 450, height: 300 },
-  SEARCH_WINDOW: { width: 600, height: 500 },
+  SEARCH_WINDOW: { width: 760, height: 500 },
   CONSOLE_WINDOW: { width: 800, height: 600 },
   
   // ファイルサイズ制限
@@ -113,15 +134,35 @@ class StickyNotesApp {
   private blurTimeouts: Map<string, NodeJS.Timeout> = new Map();
   private settingsWindow: BrowserWindow | null = null;
   private searchWindow: BrowserWindow | null = null;
+  private activeSavedSearchId: string | null = null; // 表示する付箋を絞り込んでいる保存した検索
   private consoleWindow: BrowserWindow | null = null;
   private registeredHotkeys: Set<string> = new Set();
   private searchService: SearchService;
+  private noteHistoryManager: NoteHistoryManager;
+  private reminderScheduler: ReminderScheduler;
+  private reminderNotifications: Set<Notification> = new Set(); // クリック前にGCされないよう保持
+  private backupManager: BackupManager;
+  private markdownExporter: MarkdownExporter;
+  private dataCleanupManager: DataCleanupManager;
+  private screenCapture: ScreenCapture;
+  private linkTitleCache: LinkTitleCache;
   private isSettingsWindowOpen: boolean = false;
+  private trashPurgeInterval: NodeJS.Timeout | null = null;
 
   constructor() {
     this.dataStore = new DataStore();
     this.windowStateManager = new WindowStateManager();
     this.searchService = new SearchService();
+    this.noteHistoryManager = new NoteHistoryManager();
+    this.reminderScheduler = new ReminderScheduler((noteId) => this.handleReminderDue(noteId));
+    this.backupManager = new BackupManager();
+    this.markdownExporter = new MarkdownExporter();
+    this.screenCapture = new ScreenCapture();
+    this.linkTitleCache = new LinkTitleCache(path.join(app.getPath('userData'), 'sticky-notes-data', 'link-titles.json'));
+    this.dataCleanupManager = new DataCleanupManager(this.dataStore.getAssetStore(), async () => [
+      ...await this.dataStore.getAllNoteContents(),
+      ...await this.noteHistoryManager.getAllRevisionContents()
+    ]);
     this.setupEventHandlers();
   }
 
@@ -140,8 +181,23 @@ class StickyNotesApp {
       this.showAllWindowsOnly();
     });
 
+    // 画像ファイル読み込み用のプロトコル（app.whenReady()前に登録が必要）
+    protocol.registerSchemesAsPrivileged([
+      { scheme: ASSET_PROTOCOL, privileges: { standard: true, secure: true, supportFetchAPI: true } }
+    ]);
+
     app.whenReady().then(async () => {
+      // 設定した保存形式を開けなかった場合は、古い可能性があるJSON形式で続けるか確認する
+      if (!(await this.confirmStorageFallback())) {
+        return;
+      }
+      
+      this.registerAssetProtocol();
       this.createTray();
+      
+      // 同期フォルダでの変更を取り込んでから付箋を表示
+      await this.initializeFolderSync();
+      
       this.createInitialNotes();
       this.setupIpcHandlers();
       
@@ -151,6 +207,13 @@ class StickyNotesApp {
       // 保存済みホットキーを復元
       await this.restoreHotkeys();
       
+      // 保持期間を過ぎたゴミ箱の付箋を削除（起動時と定期実行）
+      await this.purgeExpiredTrash();
+      this.trashPurgeInterval = setInterval(() => this.purgeExpiredTrash(), APP_CONSTANTS.TRASH_PURGE_INTERVAL_MS);
+      
+      // 保存済みのリマインダーを登録（停止中に過ぎたものはすぐに通知）
+      this.reminderScheduler.scheduleAll(await this.dataStore.getAllNotes());
+      
       // screenイベントはapp.whenReady()後に設定
       screen.on('display-added', () => this.handleDisplayChange());
       screen.on('display-removed', () => this.handleDisplayChange());
@@ -887,12 +950,20 @@ class StickyNotesApp {
 
     ipcMain.handle('update-note', async (_, noteId: string, updates: Partial<StickyNote>) => {
       try {
+        // 内容が変更される場合は履歴記録用に更新前の付箋を取得
+        const previousNote = updates.content !== undefined ? await this.dataStore.getNote(noteId) : null;
+        
         await this.dataStore.updateNote(noteId, updates);
         
         // 検索インデックスを更新
         const updatedNote = await this.dataStore.getNote(noteId);
         if (updatedNote) {
           this.searchService.updateNoteInIndex(updatedNote);
+          
+          // 内容の変更を履歴に記録
+          if (updates.content !== undefined) {
+            await this.noteHistoryManager.recordRevision(previousNote, updatedNote);
+          }
         }
         
         return true;
@@ -910,44 +981,10 @@ class StickyNotesApp {
 
     ipcMain.handle('delete-note', async (_, noteId: string) => {
       try {
-        // データストアから削除（最初に実行）
-        await this.dataStore.deleteNote(noteId);
-        
-        // 検索インデックスから削除
-        this.searchService.removeNoteFromIndex(noteId);
-        
-        // ウィンドウを閉じる（データ削除後）
-        const win = this.windows.get(noteId);
-        if (win && !win.isDestroyed()) {
-          win.destroy(); // close()ではなくdestroy()を使用
-          this.windows.delete(noteId);
-        }
+        await this.trashNotes([noteId]);
         
-        // 削除後、残りの付箋数をチェック
-        const remainingNotes = await this.dataStore.getAllNotes();
-        if (remainingNotes.length === 0) {
-          // 左上に新規付箋を作成
-          const display = screen.getPrimaryDisplay();
-          const newNote = await this.dataStore.createNote();
-          
-          // 左上位置に設定（非アクティブ位置のみ）
-          await this.dataStore.updateNote(newNote.id, {
-            inactiveX: display.bounds.x + 50,
-            inactiveY: display.bounds.y + 50,
-            isActive: false
-          });
-          
-          const finalNote = await this.dataStore.getNote(newNote.id);
-          if (finalNote) {
-            // 作成位置のディスプレイIDを設定
-            const noteDisplay = this.findDisplayContainingPoint(finalNote.inactiveX, finalNote.inactiveY);
-            if (noteDisplay.id.toString() !== finalNote.displayId) {
-              await this.dataStore.updateNote(newNote.id, { displayId: noteDisplay.id.toString() });
-            }
-            
-            await this.createNoteWindow(finalNote);
-          }
-        }
+        // 削除後、付箋が残っていなければ新規作成
+        await this.createNoteIfNoneRemain();
         
         return true;
       } catch (error) {
@@ -1172,13 +1209,8 @@ class StickyNotesApp {
         menuTemplate.push(
           {
             label: `URLを開く: ${url.length > 30 ? url.substring(0, 27) + '...' : url}`,
-            click: async () => {
-              try {
-                await shell.openExternal(url);
-              } catch (error) {
-                console.error('Failed to open URL:', error);
-              }
-            }
+            enabled: getAllowedLinkKind(url) !== null,
+            click: () => this.openLink(url)
           },
           { type: 'separator' }
         );
@@ -1186,15 +1218,16 @@ class StickyNotesApp {
       
       // 標準的なテキスト編集オプション
       menuTemplate.push(
+        // 元に戻す・やり直しは付箋ごとの履歴（画像・色・文字サイズの変更を含む）で行う
         {
           label: '元に戻す',
           accelerator: 'Ctrl+Z',
-          role: 'undo'
+          click: () => safeSend(event.sender, 'note-edit-command', 'undo')
         },
         {
           label: 'やり直し',
-          accelerator: 'Ctrl+Y',
-          role: 'redo'
+          accelerator: 'Ctrl+Shift+Z',
+          click: () => safeSend(event.sender, 'note-edit-command', 'redo')
         },
         { type: 'separator' },
         {
@@ -1260,6 +1293,22 @@ class StickyNotesApp {
               console.error('Failed to reset active coordinates:', error);
             }
           }
+        },
+        { type: 'separator' },
+        {
+          label: '元に戻す',
+          accelerator: 'Ctrl+Z',
+          click: () => this.sendNoteEditCommand(noteId, 'undo')
+        },
+        {
+          label: 'やり直し',
+          accelerator: 'Ctrl+Shift+Z',
+          click: () => this.sendNoteEditCommand(noteId, 'redo')
+        },
+        { type: 'separator' },
+        {
+          label: '変更履歴を表示',
+          click: () => this.showNoteHistory(noteId)
         }
       ];
       
@@ -1295,11 +1344,17 @@ class StickyNotesApp {
         pinHotkey: settings.pinHotkey || '',
         lockHotkey: settings.lockHotkey || '',
         newNoteHotkey: settings.newNoteHotkey || '',
+        captureHotkey: settings.captureHotkey || '',
         headerIconSize: settings.headerIconSize || 16,
         defaultInactiveWidth: settings.defaultInactiveWidth || 150,
         defaultInactiveHeight: settings.defaultInactiveHeight || 125,
         defaultInactiveFontSize: settings.defaultInactiveFontSize || 12,
-        autoStart: autoStartStatus
+        autoStart: autoStartStatus,
+        trashRetentionDays: settings.trashRetentionDays || 30,
+        moveCheckedToBottom: settings.moveCheckedToBottom ?? false,
+        fetchLinkTitles: settings.fetchLinkTitles ?? false,
+        syncFolderPath: settings.syncFolderPath || '',
+        storageBackend: this.dataStore.getStorageBackend()
       };
       console.log('[DEBUG] get-settings IPC handler - returning:', result);
       return result;
@@ -1317,10 +1372,32 @@ class StickyNotesApp {
           await this.setAutoStart(settingsData.autoStart);
         }
         
+        // 保存形式が変更された場合は付箋を新しい保存先へ移行（失敗した場合は設定を保存しない）
+        if (settingsData.storageBackend !== undefined && settingsData.storageBackend !== this.dataStore.getStorageBackend()) {
+          try {
+            await this.flushAllPendingData();
+            await this.dataStore.switchStorageBackend(settingsData.storageBackend);
+          } catch (error) {
+            console.error('Failed to switch storage backend:', error);
+            await this.registerHotkeys(await this.dataStore.getSettings());
+            return {
+              success: false,
+              error: `保存形式の切り替えに失敗しました: ${error instanceof Error ? error.message : error}`
+            };
+          }
+        }
+        
+        const previousSyncFolderPath = (await this.dataStore.getSettings()).syncFolderPath || '';
+        
         // 設定を保存
         await this.dataStore.updateSettings(settingsData);
         console.log('[DEBUG] Settings saved successfully');
         
+        // 同期フォルダが変更された場合は同期をやり直す
+        if (settingsData.syncFolderPath !== undefined && settingsData.syncFolderPath !== previousSyncFolderPath) {
+          await this.configureFolderSync(settingsData.syncFolderPath);
+        }
+        
         // 新しいホットキーを登録
         const registrationResult = await this.registerHotkeys(settingsData);
         
@@ -1374,129 +1451,160 @@ class StickyNotesApp {
     });
 
     ipcMain.handle('open-note-by-id', async (_, noteId: string) => {
+      return this.openNoteById(noteId);
+    });
+
+    // 検索結果の一括操作のIPCハンドラー（検索ウィンドウで選択した複数の付箋が対象）
+    ipcMain.handle('delete-notes', async (_, noteIds: string[]) => {
       try {
-        console.log(`[DEBUG] open-note-by-id called for ${noteId}`);
-        
-        const window = this.windows.get(noteId);
-        if (!window) {
-          console.log(`[DEBUG] Window not found for note ${noteId}`);
-          return false;
-        }
+        const ids = toNoteIdList(noteIds);
+        await this.trashNotes(ids);
+        await this.createNoteIfNoneRemain();
+        return { success: true, count: ids.length };
+      } catch (error) {
+        console.error('[ERROR] Failed to delete notes:', error);
+        return { success: false, error: error instanceof Error ? error.message : '不明なエラーが発生しました。' };
+      }
+    });
 
-        // 付箋データを取得
-        const note = await this.dataStore.getNote(noteId);
-        if (!note) {
-          console.log(`[DEBUG] Note data not found for ${noteId}`);
-          return false;
+    ipcMain.handle('set-notes-color', async (_, noteIds: string[], backgroundColor: string) => {
+      if (typeof backgroundColor !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(backgroundColor)) {
+        return { success: false, error: '色の指定が不正です。' };
+      }
+      return this.updateNotesFromSearch(toNoteIdList(noteIds), { backgroundColor });
+    });
+
+    ipcMain.handle('set-notes-pinned', async (_, noteIds: string[], isPinned: boolean) => {
+      return this.updateNotesFromSearch(toNoteIdList(noteIds), { isPinned: Boolean(isPinned) }, win => {
+        win.setAlwaysOnTop(Boolean(isPinned));
+      });
+    });
+
+    ipcMain.handle('export-notes-markdown', async (_, noteIds: string[]) => {
+      try {
+        const notes = await Promise.all(toNoteIdList(noteIds).map(noteId => this.dataStore.getNote(noteId)));
+        return await this.exportNotesAsMarkdown(notes.filter((note): note is StickyNote => note !== null));
+      } catch (error) {
+        console.error('[ERROR] Failed to export selected notes as Markdown:', error);
+        return { success: false, error: error instanceof Error ? error.message : '不明なエラーが発生しました。' };
+      }
+    });
+
+    // 保存した検索関連のIPCハンドラー
+    ipcMain.handle('get-saved-searches', async () => {
+      const settings = await this.dataStore.getSettings();
+      return { savedSearches: settings.savedSearches || [], activeId: this.activeSavedSearchId };
+    });
+
+    ipcMain.handle('save-search', async (_, savedSearch: Omit<SavedSearch, 'id'> & { id?: string }) => {
+      try {
+        if (!savedSearch || typeof savedSearch.name !== 'string' || typeof savedSearch.query !== 'string') {
+          return { success: false, error: '保存する検索の内容が不正です。' };
         }
-        
-        // 現在の状態を確認
-        const wasActive = note.isActive;
-        console.log(`[DEBUG] Note ${noteId} current state: isActive=${wasActive}`);
-        
-        // 複数アクティブ対応：他の付箋を非アクティブ化しない
-        console.log(`[DEBUG] Multi-active mode: skipping deactivation of other notes for ${noteId}`);
-        
-        if (wasActive) {
-          // 既にアクティブな場合は、そのまま表示・フォーカス
-          window.show();
-          window.focus();
-          
-          // 検索ウィンドウを閉じる（既にアクティブでも必要）
-          if (this.searchWindow && !this.searchWindow.isDestroyed()) {
-            this.searchWindow.close();
-          }
-          
-          // 既にアクティブでもテキストエディタへのフォーカス処理を実行
-          window.webContents.send('set-active', true);
-          
-          console.log(`[DEBUG] Note ${noteId} was already active, just showing and focusing`);
-          return true;
+        const validationError = validateSavedSearch(savedSearch);
+        if (validationError) {
+          return { success: false, error: validationError };
         }
-        
-        // 非アクティブからアクティブに切り替える場合
-        
-        // 1. 現在の非アクティブ位置を保存
-        const [currentX, currentY] = window.getPosition();
-        const [currentWidth, currentHeight] = window.getSize();
-        
-        // 2. 非アクティブ座標を更新（現在位置を記録）
-        await this.dataStore.updateNote(noteId, {
-          inactiveX: currentX,
-          inactiveY: currentY,
-          inactiveWidth: currentWidth,
-          inactiveHeight: currentHeight
+
+        const settings = await this.dataStore.getSettings();
+        const savedSearches = settings.savedSearches || [];
+        const entry: SavedSearch = {
+          id: savedSearch.id || Date.now().toString(36) + Math.random().toString(36).substring(2),
+          name: savedSearch.name.trim(),
+          query: savedSearch.query.trim(),
+          caseSensitive: Boolean(savedSearch.caseSensitive),
+          regex: Boolean(savedSearch.regex),
+          fuzzy: savedSearch.fuzzy !== false,
+          romaji: Boolean(savedSearch.romaji)
+        };
+        // 同じIDがあれば上書き、なければ末尾に追加
+        const exists = savedSearches.some(item => item.id === entry.id);
+        await this.dataStore.updateSettings({
+          savedSearches: exists
+            ? savedSearches.map(item => item.id === entry.id ? entry : item)
+            : [...savedSearches, entry]
         });
         
-        // 3. アクティブモードに切り替え
-        await this.dataStore.updateNote(noteId, { isActive: true });
-        
-        // 4. 保存されているアクティブ座標とサイズを使用
-        let targetX = note.activeX;
-        let targetY = note.activeY;
-        let targetWidth = note.activeWidth || 250;  // デフォルト値
-        let targetHeight = note.activeHeight || 200; // デフォルト値
-        
-        // アクティブ座標が無効な場合は現在位置を使用（初回など）
-        if (typeof targetX !== 'number' || typeof targetY !== 'number') {
-          targetX = currentX;
-          targetY = currentY;
-          // この場合のみアクティブ座標を更新
-          await this.dataStore.updateNote(noteId, {
-            activeX: targetX,
-            activeY: targetY,
-            activeWidth: targetWidth,
-            activeHeight: targetHeight
-          });
+        // 設定から読み戻せることを確認（読み戻せないと次の保存で以前の検索が上書きされるため）
+        const storedSettings = await this.dataStore.getSettings();
+        if (!storedSettings.savedSearches?.some(item => item.id === entry.id)) {
+          throw new Error('保存した検索を設定から読み込めませんでした。');
         }
         
-        // 5. ウィンドウをアクティブモードの位置・サイズに設定
-        window.setBounds({
-          x: Math.round(targetX),
-          y: Math.round(targetY),
-          width: Math.round(targetWidth),
-          height: Math.round(targetHeight)
-        });
-        
-        // 6. ウィンドウを表示・フォーカス・リサイズ可能にする
-        window.show();
-        window.setResizable(true);
-        
-        // ピン留め状態に応じて最前面設定
-        const noteForAlwaysOnTop = await this.dataStore.getNote(noteId);
-        const shouldBeAlwaysOnTop = noteForAlwaysOnTop ? noteForAlwaysOnTop.isPinned : false;
-        window.setAlwaysOnTop(shouldBeAlwaysOnTop);
-        console.log(`[DEBUG] open-note-by-id: setAlwaysOnTop(${shouldBeAlwaysOnTop}) for note ${noteId} (pinned: ${shouldBeAlwaysOnTop})`);
-        
-        // 検索ウィンドウを閉じてからフォーカスを設定
-        if (this.searchWindow && !this.searchWindow.isDestroyed()) {
-          this.searchWindow.close();
+        // 絞り込み中の検索が変更された場合は表示し直す
+        if (this.activeSavedSearchId === entry.id) {
+          await this.applySavedSearch(entry.id);
+        } else {
+          await this.updateTrayMenu();
         }
+        return { success: true, savedSearch: entry };
+      } catch (error) {
+        console.error('[ERROR] Failed to save search:', error);
+        return { success: false, error: error instanceof Error ? error.message : '不明なエラーが発生しました。' };
+      }
+    });
+
+    ipcMain.handle('delete-saved-search', async (_, savedSearchId: string) => {
+      try {
+        const settings = await this.dataStore.getSettings();
+        await this.dataStore.updateSettings({
+          savedSearches: (settings.savedSearches || []).filter(item => item.id !== savedSearchId)
+        });
         
-        // WindowStateManagerに状態変更完了を通知（ブラーイベントが即座に発生しないように）
-        this.windowStateManager.completeStateChange(noteId, true);
-        
-        // 少し遅延してからフォーカスを設定（検索選択時のブラーイベント回避）
-        setTimeout(() => {
-          if (!window.isDestroyed()) {
-            window.focus();
-            console.log(`[DEBUG] Note ${noteId} focused after search selection`);
-          }
-        }, APP_CONSTANTS.FOCUS_DELAY_MS); // 120msに延長してブラーイベントを回避
-        
-        // 7. ウィンドウに更新された状態を通知
-        const updatedNote = await this.dataStore.getNote(noteId);
-        if (updatedNote) {
-          safeSend(window.webContents, 'note-data', updatedNote);
-          safeSend(window.webContents, 'set-active', true);
+        if (this.activeSavedSearchId === savedSearchId) {
+          this.showAllWindowsOnly();
+        } else {
+          await this.updateTrayMenu();
         }
-        
-        console.log(`[DEBUG] Note ${noteId} activated: inactive(${currentX},${currentY}) -> active(${targetX},${targetY})`);
-        return true;
+        return { success: true };
       } catch (error) {
-        console.error('Error opening note:', error);
+        console.error('[ERROR] Failed to delete saved search:', error);
+        return { success: false, error: error instanceof Error ? error.message : '不明なエラーが発生しました。' };
+      }
+    });
+
+    ipcMain.handle('apply-saved-search', async (_, savedSearchId: string) => {
+      return this.applySavedSearch(savedSearchId);
+    });
+
+    ipcMain.handle('clear-saved-search-filter', () => {
+      this.showAllWindowsOnly();
+    });
+
+    ipcMain.handle('bring-notes-to-front', (_, noteIds: string[]) => {
+      let count = 0;
+      toNoteIdList(noteIds).forEach(noteId => {
+        const win = this.windows.get(noteId);
+        if (!win || win.isDestroyed()) return;
+        if (win.isMinimized()) win.restore();
+        // 検索ウィンドウのフォーカスは保ったまま前面に出す
+        win.showInactive();
+        win.moveTop();
+        count++;
+      });
+      if (this.searchWindow && !this.searchWindow.isDestroyed()) {
+        this.searchWindow.moveTop();
+      }
+      return { success: true, count };
+    });
+
+    // 付箋間リンク関連のIPCハンドラー
+    ipcMain.handle('get-note-titles', () => {
+      return this.searchService.getNoteTitles();
+    });
+
+    ipcMain.handle('open-note-by-title', async (_, title: string) => {
+      if (typeof title !== 'string') return false;
+      const noteId = this.searchService.findNoteIdByTitle(title);
+      if (!noteId) {
+        console.log('[DEBUG] open-note-by-title: no note found for title:', title);
         return false;
       }
+      return this.openNoteById(noteId);
+    });
+
+    ipcMain.handle('get-backlinks', (_, noteId: string) => {
+      return this.searchService.getBacklinks(noteId);
     });
 
     ipcMain.handle('close-search', () => {
@@ -1727,50 +1835,19 @@ class StickyNotesApp {
 
     // URLをブラウザで開くIPCハンドラー
     ipcMain.handle('open-url-in-browser', async (_, url: string) => {
-      try {
-        console.log('[DEBUG] open-url-in-browser called with URL:', url);
-        
-        // URLバリデーション: https://またはhttp://で始まるURLのみ許可
-        if (!url || typeof url !== 'string') {
-          console.error('[ERROR] Invalid URL provided:', url);
-          return false;
-        }
-        
-        // URLの先頭と末尾の空白を削除
-        const trimmedUrl = url.trim();
-        
-        // プロトコルのチェック（厳密なバリデーション）
-        const urlPattern = /^https?:\/\/.+/i;
-        if (!urlPattern.test(trimmedUrl)) {
-          console.error('[ERROR] URL must start with http:// or https://:', trimmedUrl);
-          return false;
-        }
-        
-        // 追加のセキュリティチェック: 不正なスキーム防止
-        const urlObj = new URL(trimmedUrl);
-        if (urlObj.protocol !== 'http:' && urlObj.protocol !== 'https:') {
-          console.error('[ERROR] Only HTTP and HTTPS protocols are allowed:', urlObj.protocol);
-          return false;
-        }
-        
-        // ホスト名の存在チェック
-        if (!urlObj.hostname) {
-          console.error('[ERROR] URL must have a valid hostname:', trimmedUrl);
-          return false;
-        }
-        
-        // shellモジュールを使用してURLをデフォルトブラウザで開く
-        await shell.openExternal(trimmedUrl);
-        console.log('[DEBUG] Successfully opened URL in browser:', trimmedUrl);
-        
-        return true;
-      } catch (error) {
-        console.error('[ERROR] Failed to open URL in browser:', error);
-        if (error instanceof Error) {
-          console.error('[ERROR] Error details:', error.message);
-        }
+      if (!url || typeof url !== 'string') {
+        console.error('[ERROR] Invalid URL provided:', url);
         return false;
       }
+      return this.openLink(url);
+    });
+
+    // リンク先ページのタイトル（設定で無効の場合はnull）
+    ipcMain.handle('get-link-title', async (_, url: string) => {
+      if (typeof url !== 'string') return null;
+      const settings = await this.dataStore.getSettings();
+      if (!settings.fetchLinkTitles) return null;
+      return this.linkTitleCache.getTitle(url);
     });
 
     // すべての付箋を整列させるIPCハンドラー
@@ -1845,77 +1922,421 @@ class StickyNotesApp {
       }
     });
 
-  }
+    // ゴミ箱関連のIPCハンドラー
+    ipcMain.handle('get-trashed-notes', async () => {
+      try {
+        const trashedNotes = await this.dataStore.getTrashedNotes();
+        // 削除日時の新しい順
+        return trashedNotes.sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+      } catch (error) {
+        console.error('[ERROR] Failed to get trashed notes:', error);
+        return [];
+      }
+    });
 
-  private createTray() {
-    
-    try {
-      // 複数のアイコンパスを試す
-      const possiblePaths = [];
-      
-      if (process.platform === 'win32') {
-        // 開発環境のパス候補
-        possiblePaths.push(
-          path.join(process.cwd(), 'src/assets/icons/win/icon-16.png'),
-          path.join(__dirname, '../../src/assets/icons/win/icon-16.png'),
-          path.join(__dirname, '../assets/icons/win/icon-16.png')
-        );
+    ipcMain.handle('restore-trashed-note', async (_, noteId: string) => {
+      try {
+        console.log(`[DEBUG] restore-trashed-note called for note: ${noteId}`);
         
-        // 本番環境のパス候補（app.asarに含まれる場合）
-        possiblePaths.push(
-          path.join(process.resourcesPath, 'app.asar', 'src/assets/icons/win/icon-16.png'),
-          path.join(process.resourcesPath, 'app', 'src/assets/icons/win/icon-16.png'),
-          path.join(process.resourcesPath, 'src/assets/icons/win/icon-16.png'),
-          path.join(__dirname, '../src/assets/icons/win/icon-16.png')
-        );
+        const restoredNote = await this.dataStore.restoreNote(noteId);
+        if (!restoredNote) {
+          return { success: false, error: 'ゴミ箱に付箋が見つかりませんでした' };
+        }
+        
+        this.searchService.updateNoteInIndex(restoredNote);
+        this.reminderScheduler.schedule(restoredNote);
+        
+        // 元の位置に付箋ウィンドウを再作成
+        const win = await this.createNoteWindow(restoredNote);
+        win.show();
+        
+        return { success: true };
+      } catch (error) {
+        console.error('[ERROR] Failed to restore trashed note:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
       }
+    });
 
-      
-      const fs = require('fs');
-      let trayIconPath = null;
-      
-      // 存在するパスを見つける
-      for (const iconPath of possiblePaths) {
-        if (fs.existsSync(iconPath)) {
-          trayIconPath = iconPath;
-          break;
-        }
+    ipcMain.handle('purge-trashed-note', async (_, noteId: string) => {
+      try {
+        await this.dataStore.purgeNote(noteId);
+        await this.noteHistoryManager.deleteHistory(noteId);
+        return { success: true };
+      } catch (error) {
+        console.error('[ERROR] Failed to purge trashed note:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
       }
+    });
 
-      if (!trayIconPath) {
-        console.error('No tray icon found in any of the paths:', possiblePaths);
-        // フォールバック: nativeImageで空のアイコンを作成
-        const { nativeImage } = require('electron');
-        const emptyIcon = nativeImage.createEmpty();
-        this.tray = new Tray(emptyIcon);
-      } else {
-        this.tray = new Tray(trayIconPath);
+    ipcMain.handle('empty-trash', async () => {
+      try {
+        const trashedNotes = await this.dataStore.getTrashedNotes();
+        for (const note of trashedNotes) {
+          await this.dataStore.purgeNote(note.id);
+          await this.noteHistoryManager.deleteHistory(note.id);
+        }
+        return { success: true };
+      } catch (error) {
+        console.error('[ERROR] Failed to empty trash:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
       }
+    });
 
-      this.tray.setToolTip('Green Sticky Notes');
-      
-      // トレイアイコンがクリックされた時の処理
-      this.tray.on('click', () => {
-        // 単純にすべてのウィンドウを表示（整列はしない）
-        this.windows.forEach(win => {
-          win.show();
-        });
-      });
-      
-      // 右クリック時のコンテキストメニュー
-      this.tray.on('right-click', () => {
-        this.tray?.popUpContextMenu();
-      });
-      
-      this.updateTrayMenu();
-      
-    } catch (error) {
-      console.error('Failed to create tray:', error);
-      if (error instanceof Error) {
-        console.error('Error stack:', error.stack);
+    // Markdownエクスポート・インポート関連のIPCハンドラー
+    ipcMain.handle('select-folder-and-export-notes-markdown', async () => {
+      try {
+        const notes = await this.dataStore.getAllNotes();
+        return await this.exportNotesAsMarkdown(notes);
+      } catch (error) {
+        console.error('[ERROR] Failed to export notes as Markdown:', error);
+        return { success: false, error: error instanceof Error ? error.message : '不明なエラーが発生しました。' };
       }
-    }
-  }
+    });
+
+    ipcMain.handle('import-markdown-notes', async () => {
+      try {
+        const result = await dialog.showOpenDialog({
+          title: 'Markdownファイルのあるフォルダを選択',
+          properties: ['openDirectory'],
+          defaultPath: path.join(os.homedir(), 'Downloads')
+        });
+        
+        if (result.canceled || !result.filePaths || result.filePaths.length === 0) {
+          return { success: false, error: 'ユーザーによってキャンセルされました' };
+        }
+        
+        const markdownNotes = await this.markdownExporter.readNotes(result.filePaths[0]);
+        if (markdownNotes.length === 0) {
+          return { success: false, error: 'フォルダに.mdファイルが見つかりませんでした。' };
+        }
+        
+        // 同じ付箋を二重に取り込まないよう、既存の付箋と同じIDのファイルはスキップ
+        const existingIds = new Set((await this.dataStore.getAllNotes()).map(note => note.id));
+        const display = screen.getPrimaryDisplay();
+        let importedCount = 0;
+        let skippedCount = 0;
+        
+        for (const markdownNote of markdownNotes) {
+          if (markdownNote.sourceId && existingIds.has(markdownNote.sourceId)) {
+            skippedCount++;
+            continue;
+          }
+          
+          const newNote = await this.dataStore.createNote();
+          const offset = (importedCount % 10) * 30;
+          await this.dataStore.updateNote(newNote.id, {
+            content: markdownNote.content,
+            ...(markdownNote.backgroundColor ? { backgroundColor: markdownNote.backgroundColor } : {}),
+            ...(markdownNote.headerColor ? { headerColor: markdownNote.headerColor } : {}),
+            ...(markdownNote.fontSize ? { fontSize: markdownNote.fontSize } : {}),
+            ...(markdownNote.createdAt ? { createdAt: markdownNote.createdAt } : {}),
+            isPinned: markdownNote.isPinned ?? false,
+            inactiveX: display.workArea.x + 50 + offset,
+            inactiveY: display.workArea.y + 50 + offset,
+            displayId: display.id.toString(),
+            isActive: false,
+            isNewlyCreated: false
+          });
+          
+          const importedNote = await this.dataStore.getNote(newNote.id);
+          if (importedNote) {
+            this.searchService.updateNoteInIndex(importedNote);
+            await this.createNoteWindow(importedNote);
+          }
+          importedCount++;
+        }
+        
+        console.log(`[DEBUG] Imported ${importedCount} Markdown notes (${skippedCount} skipped)`);
+        return { success: true, importedCount, skippedCount };
+      } catch (error) {
+        console.error('[ERROR] Failed to import Markdown notes:', error);
+        return { success: false, error: error instanceof Error ? error.message : '不明なエラーが発生しました。' };
+      }
+    });
+
+    // 画面の範囲選択関連のIPCハンドラー
+    ipcMain.handle('get-screen-capture-image', async () => {
+      return this.screenCapture.getScreenshotDataUrl();
+    });
+
+    ipcMain.handle('finish-screen-capture', async (_, region: CaptureRegion | null) => {
+      this.screenCapture.finishSelection(region);
+    });
+
+    // 画像を画像ファイルとして保存し、表示用のURLと参照を返す
+    ipcMain.handle('save-image-asset', async (_, dataUrl: string) => {
+      try {
+        return this.dataStore.getAssetStore().saveDataUrl(dataUrl);
+      } catch (error) {
+        console.error('[ERROR] Failed to save image asset:', error);
+        return null;
+      }
+    });
+
+    ipcMain.handle('get-storage-metrics', async () => {
+      return this.dataStore.getStorageMetrics();
+    });
+
+    // フォルダ同期関連のIPCハンドラー
+    ipcMain.handle('select-sync-folder', async () => {
+      const result = await dialog.showOpenDialog({
+        title: '同期フォルダを選択',
+        properties: ['openDirectory', 'createDirectory']
+      });
+      
+      if (result.canceled || !result.filePaths || result.filePaths.length === 0) {
+        return null;
+      }
+      return result.filePaths[0];
+    });
+
+    // バックアップ関連のIPCハンドラー
+    ipcMain.handle('export-backup', async () => {
+      try {
+        const dateStr = new Date().toISOString().split('T')[0];
+        const result = await dialog.showSaveDialog({
+          title: 'バックアップの保存先を選択',
+          defaultPath: path.join(os.homedir(), 'Downloads', `green-sticky-notes-backup-${dateStr}.json`),
+          filters: [{ name: 'バックアップ (JSON)', extensions: ['json'] }]
+        });
+        
+        if (result.canceled || !result.filePath) {
+          return { success: false, error: 'ユーザーによってキャンセルされました' };
+        }
+        
+        // 保留中の移動・リサイズを反映してから書き出す
+        await this.flushAllPendingData();
+        // 画像はバックアップ単体で復元できるよう埋め込む
+        const assetStore = this.dataStore.getAssetStore();
+        const notes = (await this.dataStore.getAllNotes()).map(note => assetStore.inlineNote(note));
+        const settings = await this.dataStore.getSettings();
+        await this.backupManager.writeBackup(result.filePath, notes, settings, app.getVersion());
+        
+        console.log(`[DEBUG] Backup exported: ${result.filePath} (${notes.length} notes)`);
+        return { success: true, filePath: result.filePath, noteCount: notes.length };
+      } catch (error) {
+        console.error('[ERROR] Failed to export backup:', error);
+        return { success: false, error: error instanceof Error ? error.message : '不明なエラーが発生しました。' };
+      }
+    });
+
+    ipcMain.handle('import-backup', async (_, mode: BackupImportMode) => {
+      try {
+        const result = await dialog.showOpenDialog({
+          title: '復元するバックアップを選択',
+          properties: ['openFile'],
+          defaultPath: path.join(os.homedir(), 'Downloads'),
+          filters: [{ name: 'バックアップ (JSON)', extensions: ['json'] }]
+        });
+        
+        if (result.canceled || !result.filePaths || result.filePaths.length === 0) {
+          return { success: false, error: 'ユーザーによってキャンセルされました' };
+        }
+        
+        // 検証に失敗した場合は現在のデータに一切触れない
+        const backup = await this.backupManager.readBackup(result.filePaths[0]);
+        await this.flushAllPendingData();
+        
+        let existingNotes = await this.dataStore.getAllNotes();
+        
+        if (mode === 'replace') {
+          // 現在の付箋はゴミ箱へ移動（置き換え後もゴミ箱から戻せる）
+          const trashedIds = await this.dataStore.trashAllNotes();
+          trashedIds.forEach(noteId => {
+            this.searchService.removeNoteFromIndex(noteId);
+            this.reminderScheduler.cancel(noteId);
+            const win = this.windows.get(noteId);
+            if (win && !win.isDestroyed()) {
+              win.destroy();
+            }
+            this.windows.delete(noteId);
+          });
+          existingNotes = [];
+        }
+        
+        // 現在の付箋・ゴミ箱内の付箋とIDが重複する場合は振り直す
+        const reservedIds = new Set([
+          ...existingNotes.map(note => note.id),
+          ...(await this.dataStore.getTrashedNotes()).map(note => note.id)
+        ]);
+        const { notes: importedNotes, remappedCount } = this.backupManager.remapConflictingIds(backup.notes, reservedIds);
+        
+        await this.dataStore.saveNotes([...existingNotes, ...importedNotes]);
+        
+        if (mode === 'replace') {
+          // 設定も復元（自動起動・同期フォルダ・保存形式はこのPC固有の設定のため除外）
+          const { autoStart, syncFolderPath, storageBackend, ...backupSettings } = backup.settings;
+          this.unregisterAllHotkeys();
+          await this.dataStore.updateSettings(backupSettings);
+          await this.registerHotkeys(await this.dataStore.getSettings());
+          this.notifySettingsChange();
+          
+          // 保存した検索も置き換わるため、絞り込みを解除してトレイメニューを作り直す
+          this.activeSavedSearchId = null;
+          await this.updateTrayMenu();
+        }
+        
+        const allNotes = await this.dataStore.getAllNotes();
+        this.searchService.rebuildIndex(allNotes);
+        this.reminderScheduler.scheduleAll(allNotes);
+        
+        for (const note of importedNotes) {
+          const importedNote = allNotes.find(n => n.id === note.id);
+          if (importedNote) {
+            await this.createNoteWindow(importedNote);
+          }
+        }
+        if (allNotes.length === 0) {
+          await this.createInitialNotes();
+        }
+        
+        console.log(`[DEBUG] Backup imported (${mode}): ${importedNotes.length} notes, ${remappedCount} remapped`);
+        return { success: true, importedCount: importedNotes.length, remappedCount };
+      } catch (error) {
+        console.error('[ERROR] Failed to import backup:', error);
+        return { success: false, error: error instanceof Error ? error.message : '不明なエラーが発生しました。' };
+      }
+    });
+
+    // リマインダー関連のIPCハンドラー
+    ipcMain.handle('set-note-reminder', async (_, noteId: string, reminderAt: number | null, recurrence: ReminderRecurrence | null) => {
+      try {
+        // IPCではundefinedが送れないため、解除はnullで受け取る
+        await this.dataStore.updateNote(noteId, {
+          reminderAt: reminderAt ?? undefined,
+          reminderRecurrence: reminderAt ? recurrence ?? undefined : undefined
+        });
+        
+        const updatedNote = await this.dataStore.getNote(noteId);
+        if (updatedNote) {
+          this.reminderScheduler.schedule(updatedNote);
+        }
+        
+        return { success: true };
+      } catch (error) {
+        console.error('[ERROR] Failed to set note reminder:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+
+    // 変更履歴関連のIPCハンドラー
+    ipcMain.handle('get-note-history', async (_, noteId: string) => {
+      try {
+        return await this.noteHistoryManager.getHistory(noteId);
+      } catch (error) {
+        console.error(`[ERROR] Failed to get history for note ${noteId}:`, error);
+        return [];
+      }
+    });
+
+    ipcMain.handle('restore-note-revision', async (_, noteId: string, revisionId: string) => {
+      try {
+        console.log(`[DEBUG] restore-note-revision called for note: ${noteId}, revision: ${revisionId}`);
+        
+        const revision = await this.noteHistoryManager.getRevision(noteId, revisionId);
+        if (!revision) {
+          return { success: false, error: '指定された履歴が見つかりません' };
+        }
+
+        const currentNote = await this.dataStore.getNote(noteId);
+        if (!currentNote) {
+          return { success: false, error: '付箋が見つかりませんでした' };
+        }
+
+        // 復元前の内容を独立したリビジョンとして残す（復元自体を取り消せるように）
+        await this.noteHistoryManager.recordRevision(null, currentNote, true);
+        
+        await this.dataStore.updateNote(noteId, { content: revision.content });
+        
+        const restoredNote = await this.dataStore.getNote(noteId);
+        if (restoredNote) {
+          this.searchService.updateNoteInIndex(restoredNote);
+          await this.noteHistoryManager.recordRevision(currentNote, restoredNote, true);
+          
+          // ウィンドウに復元後のノートデータを送信
+          const window = this.windows.get(noteId);
+          if (window && !window.isDestroyed()) {
+            safeSend(window.webContents, 'note-data', restoredNote);
+          }
+        }
+        
+        console.log(`[DEBUG] Revision ${revisionId} restored for note: ${noteId}`);
+        return { success: true };
+      } catch (error) {
+        console.error('[ERROR] Failed to restore note revision:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+
+  }
+
+  private createTray() {
+    
+    try {
+      // 複数のアイコンパスを試す
+      const possiblePaths = [];
+      
+      if (process.platform === 'win32') {
+        // 開発環境のパス候補
+        possiblePaths.push(
+          path.join(process.cwd(), 'src/assets/icons/win/icon-16.png'),
+          path.join(__dirname, '../../src/assets/icons/win/icon-16.png'),
+          path.join(__dirname, '../assets/icons/win/icon-16.png')
+        );
+        
+        // 本番環境のパス候補（app.asarに含まれる場合）
+        possiblePaths.push(
+          path.join(process.resourcesPath, 'app.asar', 'src/assets/icons/win/icon-16.png'),
+          path.join(process.resourcesPath, 'app', 'src/assets/icons/win/icon-16.png'),
+          path.join(process.resourcesPath, 'src/assets/icons/win/icon-16.png'),
+          path.join(__dirname, '../src/assets/icons/win/icon-16.png')
+        );
+      }
+
+      
+      const fs = require('fs');
+      let trayIconPath = null;
+      
+      // 存在するパスを見つける
+      for (const iconPath of possiblePaths) {
+        if (fs.existsSync(iconPath)) {
+          trayIconPath = iconPath;
+          break;
+        }
+      }
+
+      if (!trayIconPath) {
+        console.error('No tray icon found in any of the paths:', possiblePaths);
+        // フォールバック: nativeImageで空のアイコンを作成
+        const { nativeImage } = require('electron');
+        const emptyIcon = nativeImage.createEmpty();
+        this.tray = new Tray(emptyIcon);
+      } else {
+        this.tray = new Tray(trayIconPath);
+      }
+
+      this.tray.setToolTip('Green Sticky Notes');
+      
+      // トレイアイコンがクリックされた時の処理
+      this.tray.on('click', () => {
+        // 単純にすべてのウィンドウを表示（整列はしない）
+        this.showAllWindowsOnly();
+      });
+      
+      // 右クリック時のコンテキストメニュー
+      this.tray.on('right-click', () => {
+        this.tray?.popUpContextMenu();
+      });
+      
+      this.updateTrayMenu();
+      
+    } catch (error) {
+      console.error('Failed to create tray:', error);
+      if (error instanceof Error) {
+        console.error('Error stack:', error.stack);
+      }
+    }
+  }
 
   private async updateTrayMenu() {
     if (!this.tray) return;
@@ -1937,7 +2358,15 @@ class StickyNotesApp {
         label: '検索',
         click: () => this.toggleSearch()
       },
+      {
+        label: '保存した検索',
+        submenu: this.buildSavedSearchMenu(settings.savedSearches || [])
+      },
       { type: 'separator' },
+      {
+        label: 'ゴミ箱',
+        click: () => this.openSettings('trash')
+      },
       {
         label: '設定',
         click: () => this.openSettings()
@@ -1955,6 +2384,73 @@ class StickyNotesApp {
     this.tray.setContextMenu(contextMenu);
   }
 
+  /**
+   * トレイメニューの「保存した検索」のサブメニュー
+   */
+  private buildSavedSearchMenu(savedSearches: SavedSearch[]): Electron.MenuItemConstructorOptions[] {
+    if (savedSearches.length === 0) {
+      return [{ label: '（検索ウィンドウで検索を保存できます）', enabled: false }];
+    }
+    return [
+      ...savedSearches.map((savedSearch): Electron.MenuItemConstructorOptions => ({
+        label: savedSearch.name,
+        type: 'checkbox',
+        checked: savedSearch.id === this.activeSavedSearchId,
+        click: () => this.applySavedSearch(savedSearch.id)
+      })),
+      { type: 'separator' },
+      {
+        label: 'すべての付箋を表示',
+        enabled: this.activeSavedSearchId !== null,
+        click: () => this.showAllWindowsOnly()
+      }
+    ];
+  }
+
+  /**
+   * 保存した検索に一致する付箋だけを表示し、それ以外を隠す
+   */
+  private async applySavedSearch(savedSearchId: string): Promise<{ success: boolean; count?: number; error?: string }> {
+    try {
+      const settings = await this.dataStore.getSettings();
+      const savedSearch = (settings.savedSearches || []).find(item => item.id === savedSearchId);
+      if (!savedSearch) {
+        return { success: false, error: '保存した検索が見つかりません。' };
+      }
+      
+      const notes = await this.dataStore.getAllNotes();
+      const results = this.searchService.search(createSavedSearchQuery(savedSearch, notes.length), notes);
+      const matchedIds = new Set(results.map(result => result.note.id));
+      
+      this.windows.forEach((win, noteId) => {
+        if (win.isDestroyed()) return;
+        if (matchedIds.has(noteId)) {
+          // 検索ウィンドウから選択した場合にフォーカスを奪わないようにする
+          win.showInactive();
+        } else {
+          win.hide();
+        }
+      });
+      
+      this.activeSavedSearchId = savedSearch.id;
+      await this.updateTrayMenu();
+      console.log(`[DEBUG] Applied saved search "${savedSearch.name}": ${matchedIds.size} notes shown`);
+      return { success: true, count: matchedIds.size };
+    } catch (error) {
+      console.error('[ERROR] Failed to apply saved search:', error);
+      return { success: false, error: error instanceof Error ? error.message : '不明なエラーが発生しました。' };
+    }
+  }
+
+  /**
+   * 保存した検索による絞り込みを解除（トレイメニューのチェックを外す）
+   */
+  private clearSavedSearchFilter() {
+    if (this.activeSavedSearchId === null) return;
+    this.activeSavedSearchId = null;
+    this.updateTrayMenu();
+  }
+
   private async createNewNoteFromTray() {
     try {
       // デフォルト設定で新規付箋を作成（引き継ぎ元なし）
@@ -1979,11 +2475,62 @@ class StickyNotesApp {
     }
   }
 
+  /**
+   * 画面の範囲を選択し、切り取った画像を含む付箋を範囲の近くに作成
+   */
+  private async createNoteFromScreenCapture() {
+    try {
+      const capture = await this.screenCapture.captureRegion();
+      if (!capture) return;
+      
+      const newNote = await this.dataStore.createNote();
+      
+      // 切り取った範囲の右側（入らない場合は左側）に配置し、作業領域内に収める
+      const workArea = capture.display.workArea;
+      const noteWidth = APP_CONSTANTS.DEFAULT_EDIT_WIDTH;
+      const noteHeight = APP_CONSTANTS.DEFAULT_EDIT_HEIGHT;
+      let x = capture.bounds.x + capture.bounds.width + 10;
+      if (x + noteWidth > workArea.x + workArea.width) {
+        x = capture.bounds.x - noteWidth - 10;
+      }
+      x = Math.min(Math.max(x, workArea.x), workArea.x + workArea.width - noteWidth);
+      const y = Math.min(Math.max(capture.bounds.y, workArea.y), workArea.y + workArea.height - noteHeight);
+      
+      // 表示サイズは付箋の幅に収まるよう縮小
+      const imageWidth = Math.min(capture.bounds.width, noteWidth - 40);
+      const imageHeight = Math.round(imageWidth * capture.bounds.height / capture.bounds.width);
+      
+      await this.dataStore.updateNote(newNote.id, {
+        content: {
+          blocks: [{
+            id: `image-${Date.now()}`,
+            type: 'image',
+            content: capture.dataUrl,
+            metadata: { width: imageWidth, height: imageHeight, alt: 'スクリーンショット' }
+          }]
+        },
+        inactiveX: x,
+        inactiveY: y,
+        displayId: capture.display.id.toString()
+      });
+      
+      const finalNote = await this.dataStore.getNote(newNote.id);
+      if (finalNote) {
+        const newWindow = await this.createNoteWindow(finalNote);
+        newWindow.show();
+        newWindow.focus();
+      }
+    } catch (error) {
+      console.error('Failed to create note from screen capture:', error);
+    }
+  }
+
   private showAllWindowsOnly() {
     // 単純にすべてのウィンドウを表示（整列はしない）
     this.windows.forEach(win => {
       win.show();
     });
+    this.clearSavedSearchFilter();
   }
 
   private async showAllWindows() {
@@ -1994,6 +2541,7 @@ class StickyNotesApp {
       console.log(`[DEBUG] showAllWindows: Showing window for note ${noteId}`);
       win.show();
     });
+    this.clearSavedSearchFilter();
 
     // その後、整列処理を実行
     await this.arrangeAllNotesInGrid();
@@ -2003,6 +2551,7 @@ class StickyNotesApp {
     this.windows.forEach(win => {
       win.hide();
     });
+    this.clearSavedSearchFilter();
   }
 
   private async arrangeAllNotesInGrid() {
@@ -2146,6 +2695,16 @@ class StickyNotesApp {
       
       console.log('[QUIT] Unregistering hotkeys...');
       this.unregisterAllHotkeys();
+      
+      if (this.trashPurgeInterval) {
+        clearInterval(this.trashPurgeInterval);
+        this.trashPurgeInterval = null;
+      }
+      
+      this.reminderScheduler.cancelAll();
+      this.linkTitleCache.flush();
+      await this.noteHistoryManager.flush();
+      await this.dataStore.close();
     } catch (error) {
       console.log('[QUIT] Error during cleanup:', error);
     }
@@ -2211,7 +2770,8 @@ class StickyNotesApp {
         settings.showAllHotkey?.trim(),
         settings.hideAllHotkey?.trim(),
         settings.searchHotkey?.trim(),
-        settings.newNoteHotkey?.trim()
+        settings.newNoteHotkey?.trim(),
+        settings.captureHotkey?.trim()
       ].filter(Boolean);
       
       const uniqueHotkeys = new Set(hotkeys);
@@ -2343,14 +2903,40 @@ class StickyNotesApp {
               console.log(`New note hotkey registered successfully: ${hotkey}`);
             }
           } else {
-            console.error(`Failed to register new note hotkey: ${hotkey}`);
-            registrationErrors.push(`新規付箋ホットキー "${hotkey}" の登録に失敗しました`);
+            console.error(`Failed to register new note hotkey: ${hotkey}`);
+            registrationErrors.push(`新規付箋ホットキー "${hotkey}" の登録に失敗しました`);
+          }
+        }
+      } else {
+        if (process.env.NODE_ENV === 'development') {
+          console.log(`[DEBUG] No new note hotkey configured (value: "${settings.newNoteHotkey}")`);
+        }
+      }
+
+      // 画面の範囲を切り取って付箋にするホットキー
+      if (settings.captureHotkey && settings.captureHotkey.trim()) {
+        const hotkey = settings.captureHotkey.trim();
+        
+        // 既に登録されているかチェック
+        if (globalShortcut.isRegistered(hotkey)) {
+          if (process.env.NODE_ENV === 'development') {
+            console.warn(`Capture hotkey already registered by another application: ${hotkey}`);
+          }
+          registrationErrors.push(`画面切り取りホットキー "${hotkey}" は他のアプリケーションによって使用されています。別のキーを選択してください。`);
+        } else {
+          const success = globalShortcut.register(hotkey, () => {
+            if (!this.isSettingsWindowOpen) {
+              this.createNoteFromScreenCapture();
+            }
+          });
+          
+          if (success) {
+            this.registeredHotkeys.add(hotkey);
+          } else {
+            console.error(`Failed to register capture hotkey: ${hotkey}`);
+            registrationErrors.push(`画面切り取りホットキー "${hotkey}" の登録に失敗しました`);
           }
         }
-      } else {
-        if (process.env.NODE_ENV === 'development') {
-          console.log(`[DEBUG] No new note hotkey configured (value: "${settings.newNoteHotkey}")`);
-        }
       }
 
 
@@ -2393,6 +2979,450 @@ class StickyNotesApp {
     }
   }
 
+  /**
+   * 設定した保存形式（SQLite）を開けなかった場合に、JSON形式で起動するか確認する
+   * JSON形式のデータは切り替え前の古い内容の可能性があるため、確認なしには書き込まない
+   * @returns 起動を続ける場合はtrue
+   */
+  private async confirmStorageFallback(): Promise<boolean> {
+    const storageError = this.dataStore.getStorageOpenError();
+    if (!storageError) {
+      return true;
+    }
+    
+    const result = await dialog.showMessageBox({
+      type: 'error',
+      title: '保存先を開けませんでした',
+      message: 'SQLite形式の付箋データ（notes.db）を開けませんでした',
+      detail: `${storageError}\n\n` +
+        'JSON形式（notes.json）で起動できますが、SQLite形式に切り替えた後の変更は含まれていない可能性があります。' +
+        'JSON形式で起動すると保存形式の設定もJSONに戻ります（notes.dbは削除されません）。',
+      buttons: ['終了', 'JSON形式で起動'],
+      defaultId: 0,
+      cancelId: 0,
+      noLink: true
+    });
+    
+    if (result.response !== 1) {
+      this.isQuitting = true;
+      app.quit();
+      return false;
+    }
+    
+    await this.dataStore.acceptJsonFallback();
+    return true;
+  }
+
+  /**
+   * 起動時のフォルダ同期開始
+   * 付箋ウィンドウ作成前に呼ぶため、取り込んだ変更はウィンドウに反映する必要がない
+   */
+  private async initializeFolderSync() {
+    try {
+      const settings = await this.dataStore.getSettings();
+      if (settings.syncFolderPath) {
+        await this.dataStore.startFolderSync(settings.syncFolderPath, (result) => this.handleFolderSyncChanges(result));
+      }
+    } catch (error) {
+      console.error('Failed to start folder sync:', error);
+    }
+  }
+
+  /**
+   * 設定画面から同期フォルダが変更された場合の同期の開始・停止
+   */
+  private async configureFolderSync(folderPath: string) {
+    if (!folderPath) {
+      this.dataStore.stopFolderSync();
+      console.log('[SYNC] Folder sync stopped');
+      return;
+    }
+    
+    try {
+      const result = await this.dataStore.startFolderSync(folderPath, (changes) => this.handleFolderSyncChanges(changes));
+      await this.handleFolderSyncChanges(result);
+    } catch (error) {
+      console.error('Failed to start folder sync:', error);
+    }
+  }
+
+  /**
+   * 同期フォルダから取り込んだ変更を付箋ウィンドウ・検索・リマインダーに反映
+   */
+  private async handleFolderSyncChanges(result: FolderSyncResult) {
+    for (const noteId of result.removedIds) {
+      this.searchService.removeNoteFromIndex(noteId);
+      this.reminderScheduler.cancel(noteId);
+      const win = this.windows.get(noteId);
+      if (win && !win.isDestroyed()) {
+        win.destroy();
+      }
+      this.windows.delete(noteId);
+    }
+    
+    // 位置やサイズも変わりうるため、更新された付箋はウィンドウを作り直す
+    for (const note of result.updatedNotes) {
+      const win = this.windows.get(note.id);
+      if (win && !win.isDestroyed()) {
+        win.destroy();
+      }
+      this.windows.delete(note.id);
+    }
+    
+    for (const note of [...result.updatedNotes, ...result.addedNotes, ...result.conflictCopies]) {
+      this.searchService.updateNoteInIndex(note);
+      this.reminderScheduler.schedule(note);
+      await this.createNoteWindow(note);
+    }
+    
+    if (result.conflictCopies.length > 0 && Notification.isSupported()) {
+      new Notification({
+        title: '同期の競合',
+        body: `${result.conflictCopies.length}件の付箋が別の場所でも編集されていたため、競合コピーを作成しました`
+      }).show();
+    }
+  }
+
+  /**
+   * 保持期間を過ぎたゴミ箱内の付箋を完全に削除
+   */
+  private async purgeExpiredTrash() {
+    try {
+      const settings = await this.dataStore.getSettings();
+      const purgedIds = await this.dataStore.purgeExpiredTrash(settings.trashRetentionDays || 30);
+      for (const noteId of purgedIds) {
+        await this.noteHistoryManager.deleteHistory(noteId);
+      }
+      if (purgedIds.length > 0) {
+        console.log(`[TRASH] Purged ${purgedIds.length} expired notes from trash`);
+      }
+      
+      // 削除された付箋からのみ参照されていた画像ファイルも削除
+      const cleanupResult = await this.dataCleanupManager.performSafeCleanup({ removeOrphaned: true });
+      if (cleanupResult.freedSpace > 0) {
+        console.log(`[TRASH] Removed orphaned files (${this.dataCleanupManager.formatBytes(cleanupResult.freedSpace)})`);
+      }
+    } catch (error) {
+      console.error('Failed to purge expired trash:', error);
+    }
+  }
+
+  /**
+   * 画像ファイル（sticky-asset://image/<ハッシュ>.<拡張子>）をレンダラーで読み込めるようにする
+   */
+  private registerAssetProtocol() {
+    protocol.handle(ASSET_PROTOCOL, (request) => {
+      const filePath = this.dataStore.getAssetStore().resolveAssetUrl(request.url);
+      if (!filePath || !fs.existsSync(filePath)) {
+        return new Response('Not Found', { status: 404 });
+      }
+      return net.fetch(pathToFileURL(filePath).toString());
+    });
+  }
+
+  /**
+   * リマインダーの通知時刻になった付箋を通知
+   * 繰り返し設定がある場合は次回の時刻を設定し、ない場合はリマインダーを解除する
+   */
+  private async handleReminderDue(noteId: string): Promise<void> {
+    try {
+      const note = await this.dataStore.getNote(noteId);
+      if (!note || !note.reminderAt) return;
+
+      // スケジュール後に時刻が変更されていた場合は登録し直す
+      if (note.reminderAt > Date.now()) {
+        this.reminderScheduler.schedule(note);
+        return;
+      }
+
+      if (Notification.isSupported()) {
+        const content = getPlainText(note.content, ' ');
+        const preview = content.replace(/\s+/g, ' ').trim();
+
+        const notification = new Notification({
+          title: 'リマインダー',
+          body: preview.length > APP_CONSTANTS.MAX_CONTENT_PREVIEW
+            ? preview.substring(0, APP_CONSTANTS.MAX_CONTENT_PREVIEW - 3) + '...'
+            : preview || '（内容なし）'
+        });
+        notification.on('click', () => {
+          this.reminderNotifications.delete(notification);
+          this.openNoteById(noteId);
+        });
+        notification.on('close', () => {
+          this.reminderNotifications.delete(notification);
+        });
+        this.reminderNotifications.add(notification);
+        notification.show();
+      }
+
+      const reminderUpdates: Partial<StickyNote> = note.reminderRecurrence
+        ? { reminderAt: ReminderScheduler.getNextOccurrence(note.reminderAt, note.reminderRecurrence) }
+        : { reminderAt: undefined, reminderRecurrence: undefined };
+      await this.dataStore.updateNote(noteId, reminderUpdates);
+
+      const updatedNote = await this.dataStore.getNote(noteId);
+      if (updatedNote) {
+        this.reminderScheduler.schedule(updatedNote);
+
+        const win = this.windows.get(noteId);
+        if (win && !win.isDestroyed()) {
+          safeSend(win.webContents, 'reminder-changed', {
+            reminderAt: updatedNote.reminderAt ?? null,
+            reminderRecurrence: updatedNote.reminderRecurrence ?? null
+          });
+        }
+      }
+    } catch (error) {
+      console.error(`Failed to handle reminder for note ${noteId}:`, error);
+    }
+  }
+
+  /**
+   * 付箋をまとめてゴミ箱へ移動し、検索インデックス・リマインダー・ウィンドウを片付ける
+   */
+  private async trashNotes(noteIds: string[]): Promise<void> {
+    // データストアから削除（最初に実行、まとめてゴミ箱へ移動される）
+    await this.dataStore.deleteNotes(noteIds);
+    
+    noteIds.forEach(noteId => {
+      // 検索インデックスから削除
+      this.searchService.removeNoteFromIndex(noteId);
+      
+      // ゴミ箱内の付箋には通知しない
+      this.reminderScheduler.cancel(noteId);
+      
+      // ウィンドウを閉じる（データ削除後）
+      const win = this.windows.get(noteId);
+      if (win && !win.isDestroyed()) {
+        win.destroy(); // close()ではなくdestroy()を使用
+        this.windows.delete(noteId);
+      }
+    });
+  }
+
+  /**
+   * 付箋が1枚も残っていない場合、左上に新規付箋を作成
+   */
+  private async createNoteIfNoneRemain(): Promise<void> {
+    const remainingNotes = await this.dataStore.getAllNotes();
+    if (remainingNotes.length > 0) return;
+
+    const display = screen.getPrimaryDisplay();
+    const newNote = await this.dataStore.createNote();
+    
+    // 左上位置に設定（非アクティブ位置のみ）
+    await this.dataStore.updateNote(newNote.id, {
+      inactiveX: display.bounds.x + 50,
+      inactiveY: display.bounds.y + 50,
+      isActive: false
+    });
+    
+    const finalNote = await this.dataStore.getNote(newNote.id);
+    if (finalNote) {
+      // 作成位置のディスプレイIDを設定
+      const noteDisplay = this.findDisplayContainingPoint(finalNote.inactiveX, finalNote.inactiveY);
+      if (noteDisplay.id.toString() !== finalNote.displayId) {
+        await this.dataStore.updateNote(newNote.id, { displayId: noteDisplay.id.toString() });
+      }
+      
+      await this.createNoteWindow(finalNote);
+    }
+  }
+
+  /**
+   * エクスポート先フォルダを選択し、付箋をMarkdownファイルとして書き出す
+   */
+  private async exportNotesAsMarkdown(notes: StickyNote[]): Promise<{ success: boolean; path?: string; exportedCount?: number; error?: string }> {
+    const result = await dialog.showOpenDialog({
+      title: 'エクスポート先フォルダを選択',
+      properties: ['openDirectory'],
+      defaultPath: path.join(os.homedir(), 'Downloads')
+    });
+    
+    if (result.canceled || !result.filePaths || result.filePaths.length === 0) {
+      return { success: false, error: 'ユーザーによってキャンセルされました' };
+    }
+    
+    if (notes.length === 0) {
+      return { success: false, error: 'エクスポートする付箋がありません。' };
+    }
+    
+    // 選択されたフォルダ内に日付フォルダを作成（.txt出力と同じ構成）
+    const dateStr = new Date().toISOString().split('T')[0];
+    const exportFolderPath = path.join(result.filePaths[0], `${dateStr}-markdown`);
+    if (!fs.existsSync(exportFolderPath)) {
+      fs.mkdirSync(exportFolderPath, { recursive: true });
+    }
+    
+    const assetStore = this.dataStore.getAssetStore();
+    const exportedCount = await this.markdownExporter.exportNotes(notes.map(note => assetStore.inlineNote(note)), exportFolderPath);
+    console.log(`[DEBUG] Exported ${exportedCount} notes as Markdown to ${exportFolderPath}`);
+    return { success: true, path: exportFolderPath, exportedCount };
+  }
+
+  /**
+   * 検索ウィンドウからの一括変更を保存し、開いている付箋ウィンドウに反映する
+   */
+  private async updateNotesFromSearch(
+    noteIds: string[],
+    updates: Partial<StickyNote>,
+    applyToWindow?: (win: BrowserWindow) => void
+  ): Promise<{ success: boolean; count?: number; error?: string }> {
+    try {
+      let count = 0;
+      for (const noteId of noteIds) {
+        const note = await this.dataStore.getNote(noteId);
+        if (!note) continue;
+
+        await this.dataStore.updateNote(noteId, updates);
+        const updatedNote = await this.dataStore.getNote(noteId);
+        if (!updatedNote) continue;
+
+        this.searchService.updateNoteInIndex(updatedNote);
+        const win = this.windows.get(noteId);
+        if (win && !win.isDestroyed()) {
+          applyToWindow?.(win);
+          safeSend(win.webContents, 'note-data', updatedNote);
+        }
+        count++;
+      }
+      return { success: true, count };
+    } catch (error) {
+      console.error('[ERROR] Failed to update notes from search:', error);
+      return { success: false, error: error instanceof Error ? error.message : '不明なエラーが発生しました。' };
+    }
+  }
+
+  /**
+   * 付箋を前面に表示して編集モードにする（検索結果やリマインダー通知から呼ばれる）
+   */
+  private async openNoteById(noteId: string): Promise<boolean> {
+    try {
+      console.log(`[DEBUG] open-note-by-id called for ${noteId}`);
+      
+      const window = this.windows.get(noteId);
+      if (!window) {
+        console.log(`[DEBUG] Window not found for note ${noteId}`);
+        return false;
+      }
+
+      // 付箋データを取得
+      const note = await this.dataStore.getNote(noteId);
+      if (!note) {
+        console.log(`[DEBUG] Note data not found for ${noteId}`);
+        return false;
+      }
+      
+      // 現在の状態を確認
+      const wasActive = note.isActive;
+      console.log(`[DEBUG] Note ${noteId} current state: isActive=${wasActive}`);
+      
+      // 複数アクティブ対応：他の付箋を非アクティブ化しない
+      console.log(`[DEBUG] Multi-active mode: skipping deactivation of other notes for ${noteId}`);
+      
+      if (wasActive) {
+        // 既にアクティブな場合は、そのまま表示・フォーカス
+        window.show();
+        window.focus();
+        
+        // 検索ウィンドウを閉じる（既にアクティブでも必要）
+        if (this.searchWindow && !this.searchWindow.isDestroyed()) {
+          this.searchWindow.close();
+        }
+        
+        // 既にアクティブでもテキストエディタへのフォーカス処理を実行
+        window.webContents.send('set-active', true);
+        
+        console.log(`[DEBUG] Note ${noteId} was already active, just showing and focusing`);
+        return true;
+      }
+      
+      // 非アクティブからアクティブに切り替える場合
+      
+      // 1. 現在の非アクティブ位置を保存
+      const [currentX, currentY] = window.getPosition();
+      const [currentWidth, currentHeight] = window.getSize();
+      
+      // 2. 非アクティブ座標を更新（現在位置を記録）
+      await this.dataStore.updateNote(noteId, {
+        inactiveX: currentX,
+        inactiveY: currentY,
+        inactiveWidth: currentWidth,
+        inactiveHeight: currentHeight
+      });
+      
+      // 3. アクティブモードに切り替え
+      await this.dataStore.updateNote(noteId, { isActive: true });
+      
+      // 4. 保存されているアクティブ座標とサイズを使用
+      let targetX = note.activeX;
+      let targetY = note.activeY;
+      let targetWidth = note.activeWidth || 250;  // デフォルト値
+      let targetHeight = note.activeHeight || 200; // デフォルト値
+      
+      // アクティブ座標が無効な場合は現在位置を使用（初回など）
+      if (typeof targetX !== 'number' || typeof targetY !== 'number') {
+        targetX = currentX;
+        targetY = currentY;
+        // この場合のみアクティブ座標を更新
+        await this.dataStore.updateNote(noteId, {
+          activeX: targetX,
+          activeY: targetY,
+          activeWidth: targetWidth,
+          activeHeight: targetHeight
+        });
+      }
+      
+      // 5. ウィンドウをアクティブモードの位置・サイズに設定
+      window.setBounds({
+        x: Math.round(targetX),
+        y: Math.round(targetY),
+        width: Math.round(targetWidth),
+        height: Math.round(targetHeight)
+      });
+      
+      // 6. ウィンドウを表示・フォーカス・リサイズ可能にする
+      window.show();
+      window.setResizable(true);
+      
+      // ピン留め状態に応じて最前面設定
+      const noteForAlwaysOnTop = await this.dataStore.getNote(noteId);
+      const shouldBeAlwaysOnTop = noteForAlwaysOnTop ? noteForAlwaysOnTop.isPinned : false;
+      window.setAlwaysOnTop(shouldBeAlwaysOnTop);
+      console.log(`[DEBUG] open-note-by-id: setAlwaysOnTop(${shouldBeAlwaysOnTop}) for note ${noteId} (pinned: ${shouldBeAlwaysOnTop})`);
+      
+      // 検索ウィンドウを閉じてからフォーカスを設定
+      if (this.searchWindow && !this.searchWindow.isDestroyed()) {
+        this.searchWindow.close();
+      }
+      
+      // WindowStateManagerに状態変更完了を通知（ブラーイベントが即座に発生しないように）
+      this.windowStateManager.completeStateChange(noteId, true);
+      
+      // 少し遅延してからフォーカスを設定（検索選択時のブラーイベント回避）
+      setTimeout(() => {
+        if (!window.isDestroyed()) {
+          window.focus();
+          console.log(`[DEBUG] Note ${noteId} focused after search selection`);
+        }
+      }, APP_CONSTANTS.FOCUS_DELAY_MS); // 120msに延長してブラーイベントを回避
+      
+      // 7. ウィンドウに更新された状態を通知
+      const updatedNote = await this.dataStore.getNote(noteId);
+      if (updatedNote) {
+        safeSend(window.webContents, 'note-data', updatedNote);
+        safeSend(window.webContents, 'set-active', true);
+      }
+      
+      console.log(`[DEBUG] Note ${noteId} activated: inactive(${currentX},${currentY}) -> active(${targetX},${targetY})`);
+      return true;
+    } catch (error) {
+      console.error('Error opening note:', error);
+      return false;
+    }
+  }
+
   /**
    * 非アクティブな付箋のコンテキストメニューを表示
    */
@@ -2427,6 +3457,22 @@ class StickyNotesApp {
             console.error('Failed to reset active coordinates:', error);
           }
         }
+      },
+      { type: 'separator' },
+      {
+        label: '元に戻す',
+        accelerator: 'Ctrl+Z',
+        click: () => this.sendNoteEditCommand(noteId, 'undo')
+      },
+      {
+        label: 'やり直し',
+        accelerator: 'Ctrl+Shift+Z',
+        click: () => this.sendNoteEditCommand(noteId, 'redo')
+      },
+      { type: 'separator' },
+      {
+        label: '変更履歴を表示',
+        click: () => this.showNoteHistory(noteId)
       }
     ];
 
@@ -2451,6 +3497,67 @@ class StickyNotesApp {
     menu.popup();
   }
 
+  /**
+   * リンクを開く（http/https・mailtoは既定のアプリ、fileはローカルのファイルを関連付けで開く）
+   * 許可されていないスキームや実行ファイルへのリンクは開かない
+   */
+  private async openLink(url: string): Promise<boolean> {
+    const trimmedUrl = url.trim();
+    const kind = getAllowedLinkKind(trimmedUrl);
+    if (!kind) {
+      console.error('[ERROR] Link is not allowed:', trimmedUrl);
+      return false;
+    }
+
+    try {
+      if (kind === 'file') {
+        const filePath = fileURLToPath(trimmedUrl);
+        // 共有フォルダ（UNCパス）には接続しない
+        if (filePath.startsWith('\\\\') || filePath.startsWith('//')) {
+          console.error('[ERROR] Network file links are not allowed:', filePath);
+          return false;
+        }
+        if (!fs.existsSync(filePath)) {
+          console.error('[ERROR] Linked file does not exist:', filePath);
+          return false;
+        }
+        const errorMessage = await shell.openPath(filePath);
+        if (errorMessage) {
+          console.error('[ERROR] Failed to open linked file:', errorMessage);
+          return false;
+        }
+        return true;
+      }
+
+      await shell.openExternal(trimmedUrl);
+      return true;
+    } catch (error) {
+      console.error('[ERROR] Failed to open link:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 付箋ウィンドウに元に戻す・やり直しを指示
+   */
+  private sendNoteEditCommand(noteId: string, command: 'undo' | 'redo'): void {
+    const win = this.windows.get(noteId);
+    if (win && !win.isDestroyed()) {
+      safeSend(win.webContents, 'note-edit-command', command);
+    }
+  }
+
+  /**
+   * 付箋ウィンドウに変更履歴パネルの表示を指示
+   */
+  private showNoteHistory(noteId: string): void {
+    const win = this.windows.get(noteId);
+    if (win && !win.isDestroyed()) {
+      win.show();
+      safeSend(win.webContents, 'show-note-history');
+    }
+  }
+
   /**
    * ノートのアクティブ座標をリセット
    */
@@ -2846,7 +3953,11 @@ class StickyNotesApp {
     }
   }
 
-  private openSettings() {
+  /**
+   * 設定ウィンドウを開く
+   * @param section 開いた直後に表示するセクション（例: 'trash'）
+   */
+  private openSettings(section?: string) {
     
     // 既に設定ウィンドウが開いている場合は前面に表示
     if (this.settingsWindow && !this.settingsWindow.isDestroyed()) {
@@ -2888,12 +3999,13 @@ class StickyNotesApp {
     });
 
     // 設定ウィンドウの内容を読み込み
+    const settingsQuery: Record<string, string> = section ? { settings: 'true', section } : { settings: 'true' };
     if (process.env.NODE_ENV === 'development') {
       this.settingsWindow.loadFile(path.join(__dirname, 'index.html'), {
-        query: { settings: 'true' }
+        query: settingsQuery
       });
     } else {
-      this.settingsWindow.loadFile(path.join(__dirname, 'index.html'), { query: { settings: 'true' } });
+      this.settingsWindow.loadFile(path.join(__dirname, 'index.html'), { query: settingsQuery });
     }
 
     this.settingsWindow.once('ready-to-show', () => {
@@ -3049,6 +4161,11 @@ class StickyNotesApp {
       
       // オブジェクトの場合
       if (typeof content === 'object' && content !== null) {
+        // 付箋のブロック形式（画像以外のブロックのテキストを改行で連結）
+        if (Array.isArray(content.blocks)) {
+          return getPlainText(content);
+        }
+
         // HTMLコンテンツの場合、HTMLタグを除去
         if (typeof content.html === 'string') {
           return content.html.replace(/<[^>]*>/g, '');
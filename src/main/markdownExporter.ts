@@ -0,0 +1,282 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { StickyNote, RichContent, ContentBlock } from '../types';
+import { getTableRows } from '../utils/blockTextUtils';
+
+// Markdownファイルから読み込んだ付箋（DataStore.createNote後に適用する内容）
+export interface MarkdownNoteData {
+  sourceId?: string; // front-matterのid（エクスポート元の付箋ID）
+  content: string | RichContent;
+  backgroundColor?: string;
+  headerColor?: string;
+  fontSize?: number;
+  isPinned?: boolean;
+  createdAt?: number;
+}
+
+type FrontMatterValue = string | number | boolean | string[];
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+const IMAGE_LINE_PATTERN = /^!\[[^\]]*\]\(<?([^)>]+)>?\)\s*$/;
+const DATA_URL_PATTERN = /^data:image\/([a-zA-Z0-9.+-]+);base64,(.*)$/;
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.svg': 'image/svg+xml'
+};
+
+/**
+ * 付箋とMarkdownファイル（YAML front-matter付き）の相互変換
+ * 画像ブロックは同じフォルダに別ファイルとして書き出し、相対パスで参照する
+ */
+export class MarkdownExporter {
+  /**
+   * 付箋を1件ずつ.mdファイルとして書き出す
+   * @returns 書き出した付箋の数
+   */
+  async exportNotes(notes: StickyNote[], folderPath: string): Promise<number> {
+    let exportedCount = 0;
+
+    for (const note of notes) {
+      try {
+        const createdStr = new Date(note.createdAt).toISOString().replace(/[:.]/g, '-').slice(0, 19);
+        const baseName = `付箋_${createdStr}_${note.id}`;
+        const body = this.contentToMarkdown(note.content, baseName, folderPath);
+
+        fs.writeFileSync(path.join(folderPath, `${baseName}.md`), this.buildFrontMatter(note) + body, 'utf8');
+        exportedCount++;
+      } catch (error) {
+        console.error(`[ERROR] Error exporting note ${note.id} to Markdown:`, error);
+        // 個別のファイルでエラーが発生しても続行
+      }
+    }
+
+    return exportedCount;
+  }
+
+  /**
+   * フォルダ内の.mdファイルを読み込む（サブフォルダは対象外）
+   */
+  async readNotes(folderPath: string): Promise<MarkdownNoteData[]> {
+    const fileNames = fs.readdirSync(folderPath)
+      .filter(fileName => path.extname(fileName).toLowerCase() === '.md')
+      .sort();
+
+    const notes: MarkdownNoteData[] = [];
+    for (const fileName of fileNames) {
+      try {
+        const text = fs.readFileSync(path.join(folderPath, fileName), 'utf8');
+        notes.push(this.parseMarkdownNote(text, folderPath));
+      } catch (error) {
+        console.error(`[ERROR] Error reading Markdown file ${fileName}:`, error);
+      }
+    }
+
+    return notes;
+  }
+
+  private buildFrontMatter(note: StickyNote): string {
+    // 文字列はJSON形式（YAMLのダブルクォート文字列として有効）で書き出す
+    const lines = [
+      '---',
+      `id: ${JSON.stringify(note.id)}`,
+      `backgroundColor: ${JSON.stringify(note.backgroundColor)}`,
+      ...(note.headerColor ? [`headerColor: ${JSON.stringify(note.headerColor)}`] : []),
+      `fontSize: ${note.fontSize}`,
+      `createdAt: ${JSON.stringify(new Date(note.createdAt).toISOString())}`,
+      `tags: [${(note.tags || []).map(tag => JSON.stringify(tag)).join(', ')}]`,
+      `pinned: ${note.isPinned ? 'true' : 'false'}`,
+      '---',
+      ''
+    ];
+    return lines.join('\n');
+  }
+
+  private contentToMarkdown(content: string | RichContent, baseName: string, folderPath: string): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    let imageIndex = 0;
+    return (content.blocks || []).map(block => {
+      if (block.type === 'code') {
+        return this.codeToMarkdown(block.content, block.metadata?.language || '');
+      }
+      if (block.type === 'table') {
+        return this.tableToMarkdown(getTableRows(block));
+      }
+      if (block.type !== 'image') {
+        return block.content;
+      }
+
+      const match = block.content.match(DATA_URL_PATTERN);
+      if (!match) {
+        // データURL以外（外部URLなど）はそのまま参照する
+        return `![画像](${block.content})`;
+      }
+
+      imageIndex++;
+      const extension = match[1] === 'jpeg' ? 'jpg' : match[1].replace('svg+xml', 'svg');
+      const imageFileName = `${baseName}_${imageIndex}.${extension}`;
+      fs.writeFileSync(path.join(folderPath, imageFileName), Buffer.from(match[2], 'base64'));
+      return `![画像](<${imageFileName}>)`;
+    }).join('\n');
+  }
+
+  private codeToMarkdown(code: string, language: string): string {
+    // コード内の```と衝突しないよう、より長いフェンスを使う
+    const longestFence = Math.max(2, ...(code.match(/`{3,}/g) || []).map(fence => fence.length));
+    const fence = '`'.repeat(longestFence + 1);
+    return `${fence}${language.trim()}\n${code}\n${fence}`;
+  }
+
+  private tableToMarkdown(rows: string[][]): string {
+    if (rows.length === 0) return '';
+    const columnCount = Math.max(...rows.map(row => row.length));
+    const formatRow = (row: string[]) =>
+      '| ' + Array.from({ length: columnCount }, (_, index) =>
+        (row[index] ?? '').replace(/\|/g, '\\|').replace(/\n/g, ' ')
+      ).join(' | ') + ' |';
+
+    return [
+      formatRow(rows[0]),
+      '|' + ' --- |'.repeat(columnCount),
+      ...rows.slice(1).map(formatRow)
+    ].join('\n');
+  }
+
+  private parseMarkdownNote(text: string, folderPath: string): MarkdownNoteData {
+    const frontMatterMatch = text.match(FRONT_MATTER_PATTERN);
+    const meta = frontMatterMatch ? this.parseFrontMatter(frontMatterMatch[1]) : {};
+    const body = frontMatterMatch ? text.substring(frontMatterMatch[0].length) : text;
+
+    const createdAt = typeof meta.createdAt === 'string' ? new Date(meta.createdAt).getTime() : NaN;
+
+    return {
+      sourceId: typeof meta.id === 'string' ? meta.id : undefined,
+      content: this.markdownToContent(body.replace(/\r\n/g, '\n'), folderPath),
+      backgroundColor: typeof meta.backgroundColor === 'string' ? meta.backgroundColor : undefined,
+      headerColor: typeof meta.headerColor === 'string' ? meta.headerColor : undefined,
+      fontSize: typeof meta.fontSize === 'number' ? meta.fontSize : undefined,
+      isPinned: typeof meta.pinned === 'boolean' ? meta.pinned : undefined,
+      createdAt: isNaN(createdAt) ? undefined : createdAt
+    };
+  }
+
+  /**
+   * 画像行を画像ブロックに変換（画像がなければプレーンテキストのまま）
+   * タグは本文中の#タグから再抽出されるため、front-matterのtagsは参照用
+   */
+  private markdownToContent(body: string, folderPath: string): string | RichContent {
+    const blocks: ContentBlock[] = [];
+    let textLines: string[] = [];
+
+    const flushText = () => {
+      if (textLines.length > 0) {
+        blocks.push({ id: this.generateBlockId(), type: 'text', content: textLines.join('\n') });
+        textLines = [];
+      }
+    };
+
+    body.split('\n').forEach(line => {
+      const imageMatch = line.match(IMAGE_LINE_PATTERN);
+      const imageSrc = imageMatch ? this.resolveImage(imageMatch[1], folderPath) : null;
+      if (imageSrc) {
+        flushText();
+        blocks.push({ id: this.generateBlockId(), type: 'image', content: imageSrc });
+      } else {
+        textLines.push(line);
+      }
+    });
+    flushText();
+
+    if (!blocks.some(block => block.type === 'image')) {
+      return body;
+    }
+    return { blocks };
+  }
+
+  /**
+   * 画像の参照先をデータURLに変換
+   * 読み込めない相対パスはnull（テキストとして残す）
+   */
+  private resolveImage(src: string, folderPath: string): string | null {
+    if (/^(https?:|data:image\/)/i.test(src)) {
+      return src;
+    }
+
+    const imagePath = path.resolve(folderPath, decodeURI(src));
+    const mimeType = IMAGE_MIME_TYPES[path.extname(imagePath).toLowerCase()];
+    if (!mimeType || !fs.existsSync(imagePath)) {
+      return null;
+    }
+    return `data:${mimeType};base64,${fs.readFileSync(imagePath).toString('base64')}`;
+  }
+
+  /**
+   * 書き出したfront-matterを読むための最小限のYAMLパーサー
+   * key: value（文字列・数値・真偽値・[a, b]形式の配列）と「- 項目」形式の配列に対応
+   */
+  private parseFrontMatter(yaml: string): Record<string, FrontMatterValue> {
+    const result: Record<string, FrontMatterValue> = {};
+    let currentListKey: string | null = null;
+
+    yaml.split(/\r?\n/).forEach(line => {
+      const listItemMatch = line.match(/^\s+-\s+(.*)$/);
+      if (listItemMatch && currentListKey) {
+        (result[currentListKey] as string[]).push(String(this.parseScalar(listItemMatch[1])));
+        return;
+      }
+
+      const keyValueMatch = line.match(/^([A-Za-z_][\w-]*):\s*(.*)$/);
+      if (!keyValueMatch) return;
+
+      const [, key, rawValue] = keyValueMatch;
+      const value = rawValue.trim();
+      currentListKey = null;
+
+      if (!value) {
+        result[key] = [];
+        currentListKey = key;
+      } else if (value.startsWith('[') && value.endsWith(']')) {
+        const inner = value.slice(1, -1).trim();
+        result[key] = inner
+          ? (inner.match(/"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,]+/g) || []).map(item => String(this.parseScalar(item.trim())))
+          : [];
+      } else {
+        result[key] = this.parseScalar(value);
+      }
+    });
+
+    return result;
+  }
+
+  private parseScalar(value: string): string | number | boolean {
+    if (value.startsWith('"') && value.endsWith('"')) {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value.slice(1, -1);
+      }
+    }
+    if (value.startsWith("'") && value.endsWith("'")) {
+      return value.slice(1, -1).replace(/''/g, "'");
+    }
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+    if (/^-?\d+(\.\d+)?$/.test(value)) {
+      return Number(value);
+    }
+    return value;
+  }
+
+  private generateBlockId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
@@ -0,0 +1,211 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { StickyNote, NoteRevision } from '../types';
+import { BatchUpdateManager } from './batchUpdateManager';
+
+/**
+ * 付箋ごとの変更履歴（リビジョン）管理
+ * 入力中の連続した更新は1つのリビジョンにまとめ、メモリ上で更新してから少し待ってまとめて保存する
+ */
+export class NoteHistoryManager {
+  private historyPath: string;
+  // 未保存のリビジョン（付箋ID → 全リビジョン）。保存されるまではファイルよりこちらが新しい
+  private pendingRevisions: Map<string, NoteRevision[]> = new Map();
+  private batchUpdateManager: BatchUpdateManager;
+  private readonly SAVE_DELAY_MS = 1000; // 入力が止まってから履歴ファイルに書き込むまでの時間
+  private readonly COALESCE_IDLE_MS = 30 * 1000; // 最後の更新から30秒以内なら同じリビジョンにまとめる
+  private readonly COALESCE_MAX_SPAN_MS = 5 * 60 * 1000; // 1つのリビジョンにまとめるのは最大5分間
+  private readonly MAX_REVISIONS = 100; // 付箋ごとに保持する最大リビジョン数
+
+  constructor() {
+    this.historyPath = path.join(app.getPath('userData'), 'sticky-notes-data', 'history');
+    this.ensureHistoryDirectory();
+    this.batchUpdateManager = new BatchUpdateManager(updates => this.savePendingRevisions(Array.from(updates.keys())), this.SAVE_DELAY_MS);
+  }
+
+  private ensureHistoryDirectory() {
+    if (!fs.existsSync(this.historyPath)) {
+      fs.mkdirSync(this.historyPath, { recursive: true });
+    }
+  }
+
+  private getHistoryFile(noteId: string): string {
+    return path.join(this.historyPath, `${noteId}.json`);
+  }
+
+  private loadRevisions(noteId: string): NoteRevision[] {
+    const pending = this.pendingRevisions.get(noteId);
+    if (pending) {
+      return pending.slice();
+    }
+
+    const historyFile = this.getHistoryFile(noteId);
+    try {
+      if (!fs.existsSync(historyFile)) {
+        return [];
+      }
+      const data = fs.readFileSync(historyFile, 'utf8');
+      const revisions = JSON.parse(data);
+      return Array.isArray(revisions) ? revisions : [];
+    } catch (error) {
+      console.error(`Error loading history for note ${noteId}:`, error);
+      return [];
+    }
+  }
+
+  private saveRevisionsAtomic(noteId: string, revisions: NoteRevision[]): void {
+    const historyFile = this.getHistoryFile(noteId);
+    const tempFile = historyFile + '.tmp';
+
+    try {
+      // 一時ファイルに書き込み
+      fs.writeFileSync(tempFile, JSON.stringify(revisions, null, 2));
+
+      // 原子的にリネーム（書き込み完了を保証）
+      fs.renameSync(tempFile, historyFile);
+    } catch (error) {
+      // エラーが発生した場合は一時ファイルを削除
+      if (fs.existsSync(tempFile)) {
+        fs.unlinkSync(tempFile);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 未保存のリビジョンを履歴ファイルに書き込む
+   */
+  private async savePendingRevisions(noteIds: string[]): Promise<void> {
+    noteIds.forEach(noteId => {
+      const revisions = this.pendingRevisions.get(noteId);
+      if (!revisions) return;
+      try {
+        this.saveRevisionsAtomic(noteId, revisions);
+        this.pendingRevisions.delete(noteId);
+      } catch (error) {
+        console.error(`Error saving history for note ${noteId}:`, error);
+      }
+    });
+  }
+
+  /**
+   * 未保存のリビジョンをすぐに書き込む（終了時用）
+   */
+  async flush(): Promise<void> {
+    await this.batchUpdateManager.forceFlush();
+  }
+
+  private isSameContent(a: StickyNote['content'], b: StickyNote['content']): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  /**
+   * 付箋の履歴を新しい順に取得
+   */
+  async getHistory(noteId: string): Promise<NoteRevision[]> {
+    return this.loadRevisions(noteId).reverse();
+  }
+
+  /**
+   * 指定したリビジョンを取得
+   */
+  async getRevision(noteId: string, revisionId: string): Promise<NoteRevision | null> {
+    return this.loadRevisions(noteId).find(revision => revision.id === revisionId) || null;
+  }
+
+  /**
+   * 内容の変更をリビジョンとして記録
+   * @param previousNote 更新前の付箋（履歴が空の場合の基点として使用）
+   * @param updatedNote 更新後の付箋
+   * @param forceNewRevision trueの場合は直前のリビジョンにまとめず新規作成する
+   */
+  async recordRevision(previousNote: StickyNote | null, updatedNote: StickyNote, forceNewRevision: boolean = false): Promise<void> {
+    try {
+      const revisions = this.loadRevisions(updatedNote.id);
+      const now = Date.now();
+
+      // 履歴導入前の内容を失わないよう、最初の記録時は更新前の内容を基点として保存
+      if (revisions.length === 0 && previousNote && previousNote.content &&
+          !this.isSameContent(previousNote.content, updatedNote.content)) {
+        revisions.push({
+          id: this.generateId(),
+          noteId: updatedNote.id,
+          content: previousNote.content,
+          createdAt: previousNote.updatedAt,
+          updatedAt: previousNote.updatedAt
+        });
+      }
+
+      const lastRevision = revisions[revisions.length - 1];
+
+      // 自動保存などで同じ内容が送られてきた場合は何もしない
+      if (lastRevision && this.isSameContent(lastRevision.content, updatedNote.content)) {
+        return;
+      }
+
+      const canCoalesce = !forceNewRevision && lastRevision &&
+        now - lastRevision.updatedAt < this.COALESCE_IDLE_MS &&
+        now - lastRevision.createdAt < this.COALESCE_MAX_SPAN_MS;
+
+      if (canCoalesce) {
+        // 入力中の連続した更新は直前のリビジョンにまとめる
+        lastRevision.content = updatedNote.content;
+        lastRevision.updatedAt = now;
+      } else {
+        revisions.push({
+          id: this.generateId(),
+          noteId: updatedNote.id,
+          content: updatedNote.content,
+          createdAt: now,
+          updatedAt: now
+        });
+      }
+
+      // 古いリビジョンを削除し、入力が止まってからまとめて保存する
+      const trimmedRevisions = revisions.slice(-this.MAX_REVISIONS);
+      this.pendingRevisions.set(updatedNote.id, trimmedRevisions);
+      this.batchUpdateManager.scheduleUpdate(updatedNote.id, {});
+
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`[HISTORY] Recorded revision for note ${updatedNote.id} (coalesced: ${!!canCoalesce}, total: ${trimmedRevisions.length})`);
+      }
+    } catch (error) {
+      console.error(`Error recording revision for note ${updatedNote.id}:`, error);
+    }
+  }
+
+  /**
+   * 付箋の履歴をすべて削除
+   */
+  async deleteHistory(noteId: string): Promise<void> {
+    this.pendingRevisions.delete(noteId);
+    try {
+      const historyFile = this.getHistoryFile(noteId);
+      if (fs.existsSync(historyFile)) {
+        fs.unlinkSync(historyFile);
+      }
+    } catch (error) {
+      console.error(`Error deleting history for note ${noteId}:`, error);
+    }
+  }
+
+  /**
+   * すべての付箋の全リビジョンの内容を取得（画像ファイルの参照確認用）
+   */
+  async getAllRevisionContents(): Promise<StickyNote['content'][]> {
+    const noteIds = new Set([
+      ...fs.readdirSync(this.historyPath)
+        .filter(fileName => fileName.endsWith('.json'))
+        .map(fileName => fileName.slice(0, -'.json'.length)),
+      ...this.pendingRevisions.keys()
+    ]);
+    return Array.from(noteIds)
+      .flatMap(noteId => this.loadRevisions(noteId))
+      .map(revision => revision.content);
+  }
+
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
@@ -0,0 +1,30 @@
+import { StickyNote, StorageBackend } from '../types';
+
+/**
+ * 付箋データの保存先（DataStoreから利用する）
+ * 返す付箋は保存されている形式のままで、古い形式からの変換はDataStore側で行う
+ */
+export interface NoteRepository {
+  readonly backend: StorageBackend;
+
+  /**
+   * すべての付箋を保存順（作成順）で取得
+   */
+  getAllNotes(): Promise<StickyNote[]>;
+
+  getNote(id: string): Promise<StickyNote | null>;
+
+  /**
+   * すべての付箋を置き換えて保存（並び順も引数の順にする）
+   */
+  saveAllNotes(notes: StickyNote[]): Promise<void>;
+
+  /**
+   * 付箋をまとめて追加または更新（新規の場合は末尾に追加）
+   */
+  upsertNotes(notes: StickyNote[]): Promise<void>;
+
+  deleteNote(id: string): Promise<void>;
+
+  close(): void;
+}
@@ -1,5 +1,5 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import { StickyNote, SearchQuery } from '../types';
+import { StickyNote, SearchQuery, ReminderRecurrence, BackupImportMode, SavedSearch } from '../types';
 
 /**
  * IPC通信用のオブジェクトサニタイズ機能
@@ -76,6 +76,18 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('emergency-save-request', () => callback());
   },
   
+  onShowNoteHistory: (callback: () => void) => {
+    ipcRenderer.on('show-note-history', () => callback());
+  },
+  
+  onNoteEditCommand: (callback: (command: 'undo' | 'redo') => void) => {
+    ipcRenderer.on('note-edit-command', (_, command) => callback(command));
+  },
+  
+  onReminderChanged: (callback: (reminder: { reminderAt: number | null; reminderRecurrence: ReminderRecurrence | null }) => void) => {
+    ipcRenderer.on('reminder-changed', (_, reminder) => callback(reminder));
+  },
+  
   sendSettingsPreview: (settings: any) => safeIpcInvoke('send-settings-preview', settings),
   
   
@@ -93,7 +105,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
   saveSettings: (settings: any) => safeIpcInvoke('save-settings', settings),
   exportNotesToTxt: () => safeIpcInvoke('export-notes-to-txt'),
   selectFolderAndExportNotes: () => safeIpcInvoke('select-folder-and-export-notes'),
+  selectFolderAndExportNotesMarkdown: () => safeIpcInvoke('select-folder-and-export-notes-markdown'),
+  importMarkdownNotes: () => safeIpcInvoke('import-markdown-notes'),
   openUrlInBrowser: (url: string) => safeIpcInvoke('open-url-in-browser', url),
+  getLinkTitle: (url: string) => safeIpcInvoke('get-link-title', url),
   arrangeAllNotes: () => safeIpcInvoke('arrange-all-notes'),
   reloadNote: (noteId: string) => safeIpcInvoke('reload-note', noteId),
   
@@ -102,6 +117,57 @@ contextBridge.exposeInMainWorld('electronAPI', {
   openNoteById: (noteId: string) => safeIpcInvoke('open-note-by-id', noteId),
   closeSearch: () => safeIpcInvoke('close-search'),
   
+  // 検索結果の一括操作のメソッド
+  deleteNotes: (noteIds: string[]) => safeIpcInvoke('delete-notes', noteIds),
+  setNotesColor: (noteIds: string[], backgroundColor: string) => 
+    safeIpcInvoke('set-notes-color', noteIds, backgroundColor),
+  setNotesPinned: (noteIds: string[], isPinned: boolean) => 
+    safeIpcInvoke('set-notes-pinned', noteIds, isPinned),
+  exportNotesMarkdown: (noteIds: string[]) => safeIpcInvoke('export-notes-markdown', noteIds),
+  bringNotesToFront: (noteIds: string[]) => safeIpcInvoke('bring-notes-to-front', noteIds),
+  
+  // 保存した検索関連のメソッド
+  getSavedSearches: () => safeIpcInvoke('get-saved-searches'),
+  saveSearch: (savedSearch: Omit<SavedSearch, 'id'> & { id?: string }) => safeIpcInvoke('save-search', savedSearch),
+  deleteSavedSearch: (savedSearchId: string) => safeIpcInvoke('delete-saved-search', savedSearchId),
+  applySavedSearch: (savedSearchId: string) => safeIpcInvoke('apply-saved-search', savedSearchId),
+  clearSavedSearchFilter: () => safeIpcInvoke('clear-saved-search-filter'),
+  
+  // 付箋間リンク関連のメソッド
+  getNoteTitles: () => safeIpcInvoke('get-note-titles'),
+  openNoteByTitle: (title: string) => safeIpcInvoke('open-note-by-title', title),
+  getBacklinks: (noteId: string) => safeIpcInvoke('get-backlinks', noteId),
+  
+  // ゴミ箱関連のメソッド
+  getTrashedNotes: () => safeIpcInvoke('get-trashed-notes'),
+  restoreTrashedNote: (noteId: string) => safeIpcInvoke('restore-trashed-note', noteId),
+  purgeTrashedNote: (noteId: string) => safeIpcInvoke('purge-trashed-note', noteId),
+  emptyTrash: () => safeIpcInvoke('empty-trash'),
+  
+  // リマインダー関連のメソッド
+  setNoteReminder: (noteId: string, reminderAt: number | null, recurrence: ReminderRecurrence | null) => 
+    safeIpcInvoke('set-note-reminder', noteId, reminderAt, recurrence),
+  
+  getStorageMetrics: () => safeIpcInvoke('get-storage-metrics'),
+  saveImageAsset: (dataUrl: string) => safeIpcInvoke('save-image-asset', dataUrl),
+  
+  // 画面の範囲選択関連のメソッド
+  getScreenCaptureImage: () => safeIpcInvoke('get-screen-capture-image'),
+  finishScreenCapture: (region: { x: number; y: number; width: number; height: number } | null) =>
+    safeIpcInvoke('finish-screen-capture', region),
+  
+  // フォルダ同期関連のメソッド
+  selectSyncFolder: () => safeIpcInvoke('select-sync-folder'),
+  
+  // バックアップ関連のメソッド
+  exportBackup: () => safeIpcInvoke('export-backup'),
+  importBackup: (mode: BackupImportMode) => safeIpcInvoke('import-backup', mode),
+  
+  // 変更履歴関連のメソッド
+  getNoteHistory: (noteId: string) => safeIpcInvoke('get-note-history', noteId),
+  restoreNoteRevision: (noteId: string, revisionId: string) => 
+    safeIpcInvoke('restore-note-revision', noteId, revisionId),
+  
   // コンソール関連のメソッド
   openConsole: () => safeIpcInvoke('open-console'),
 });
@@ -0,0 +1,99 @@
+import { StickyNote, ReminderRecurrence } from '../types';
+
+/**
+ * 付箋のリマインダー管理
+ * 通知時刻はStickyNote.reminderAtとして保存されるため、再起動後もscheduleAllで復元できる
+ * 起動していない間に過ぎたリマインダーは起動直後に通知する
+ */
+export class ReminderScheduler {
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  // setTimeoutの上限（約24.8日）を超えないよう、遠い予定は途中で再スケジュールする
+  private readonly MAX_TIMER_DELAY_MS = 24 * 60 * 60 * 1000;
+
+  constructor(private onReminderDue: (noteId: string) => void) {}
+
+  /**
+   * すべての付箋のリマインダーを登録（起動時用）
+   */
+  scheduleAll(notes: StickyNote[]): void {
+    this.cancelAll();
+    notes.forEach(note => this.schedule(note));
+
+    if (process.env.NODE_ENV === 'development') {
+      console.log(`[REMINDER] Scheduled ${this.timers.size} reminders`);
+    }
+  }
+
+  /**
+   * 付箋のリマインダーを登録（既存の登録は置き換える）
+   */
+  schedule(note: StickyNote): void {
+    this.cancel(note.id);
+    if (!note.reminderAt) return;
+
+    const delay = Math.max(0, note.reminderAt - Date.now());
+    const timer = setTimeout(() => {
+      this.timers.delete(note.id);
+      if (delay > this.MAX_TIMER_DELAY_MS) {
+        this.schedule(note);
+      } else {
+        this.onReminderDue(note.id);
+      }
+    }, Math.min(delay, this.MAX_TIMER_DELAY_MS));
+
+    this.timers.set(note.id, timer);
+  }
+
+  cancel(noteId: string): void {
+    const timer = this.timers.get(noteId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(noteId);
+    }
+  }
+
+  cancelAll(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * 繰り返しリマインダーの次回通知時刻を計算
+   * @param reminderAt 前回の通知時刻
+   * @param now この時刻より後の最初の通知時刻を返す
+   */
+  static getNextOccurrence(reminderAt: number, recurrence: ReminderRecurrence, now: number = Date.now()): number {
+    const base = new Date(reminderAt);
+    const next = new Date(reminderAt);
+    let monthOffset = 0;
+
+    while (next.getTime() <= now) {
+      switch (recurrence) {
+        case 'daily':
+          next.setDate(next.getDate() + 1);
+          break;
+        case 'weekdays':
+          // 土日を飛ばす
+          do {
+            next.setDate(next.getDate() + 1);
+          } while (next.getDay() === 0 || next.getDay() === 6);
+          break;
+        case 'weekly':
+          next.setDate(next.getDate() + 7);
+          break;
+        case 'monthly': {
+          // 月末日を考慮（1/31 → 2/28 → 3/31）
+          monthOffset++;
+          const target = new Date(base.getFullYear(), base.getMonth() + monthOffset, 1,
+            base.getHours(), base.getMinutes(), base.getSeconds());
+          const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+          target.setDate(Math.min(base.getDate(), lastDay));
+          next.setTime(target.getTime());
+          break;
+        }
+      }
+    }
+
+    return next.getTime();
+  }
+}
@@ -0,0 +1,151 @@
+import { BrowserWindow, desktopCapturer, screen, Display, NativeImage } from 'electron';
+import * as path from 'path';
+
+// 選択範囲（ディスプレイ左上を原点とするDIP座標）
+export interface CaptureRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CapturedImage {
+  dataUrl: string;
+  bounds: CaptureRegion; // 画面全体での位置（DIP座標）
+  display: Display;
+}
+
+const MIN_REGION_SIZE = 4;
+
+/**
+ * 画面の範囲を選択して切り取る
+ * マウスカーソルのあるディスプレイを撮影し、その画像を全面に表示したウィンドウで範囲を選択させる
+ */
+export class ScreenCapture {
+  private overlayWindow: BrowserWindow | null = null;
+  private screenshot: NativeImage | null = null;
+  private resolveSelection: ((region: CaptureRegion | null) => void) | null = null;
+
+  /**
+   * 範囲を選択させて切り取った画像を返す（キャンセル時はnull）
+   */
+  async captureRegion(): Promise<CapturedImage | null> {
+    // 選択中に再度呼ばれた場合は選択中のウィンドウを前面に出すのみ
+    if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
+      this.overlayWindow.focus();
+      return null;
+    }
+
+    const display = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+    const screenshot = await this.captureDisplay(display);
+    if (!screenshot) {
+      console.error('[CAPTURE] Failed to capture display:', display.id);
+      return null;
+    }
+
+    this.screenshot = screenshot;
+    const region = await this.selectRegion(display);
+    this.screenshot = null;
+
+    if (!region || region.width < MIN_REGION_SIZE || region.height < MIN_REGION_SIZE) {
+      return null;
+    }
+
+    // 撮影画像は物理ピクセルのため、DIP座標の選択範囲を拡大して切り取る
+    const scale = screenshot.getSize().width / display.bounds.width;
+    const cropped = screenshot.crop({
+      x: Math.round(region.x * scale),
+      y: Math.round(region.y * scale),
+      width: Math.round(region.width * scale),
+      height: Math.round(region.height * scale)
+    });
+
+    return {
+      dataUrl: cropped.toDataURL(),
+      bounds: {
+        x: display.bounds.x + region.x,
+        y: display.bounds.y + region.y,
+        width: region.width,
+        height: region.height
+      },
+      display
+    };
+  }
+
+  /**
+   * 範囲選択ウィンドウに表示する撮影画像
+   */
+  getScreenshotDataUrl(): string | null {
+    return this.screenshot ? this.screenshot.toDataURL() : null;
+  }
+
+  /**
+   * 範囲選択ウィンドウからの選択結果（nullはキャンセル）
+   */
+  finishSelection(region: CaptureRegion | null): void {
+    const resolve = this.resolveSelection;
+    this.resolveSelection = null;
+    resolve?.(region);
+
+    if (this.overlayWindow && !this.overlayWindow.isDestroyed()) {
+      this.overlayWindow.close();
+    }
+  }
+
+  private async captureDisplay(display: Display): Promise<NativeImage | null> {
+    const sources = await desktopCapturer.getSources({
+      types: ['screen'],
+      thumbnailSize: {
+        width: Math.round(display.size.width * display.scaleFactor),
+        height: Math.round(display.size.height * display.scaleFactor)
+      }
+    });
+
+    // display_idが取得できない環境（一部のLinux）ではディスプレイが1つの場合のみ使用する
+    const source = sources.find(item => item.display_id === display.id.toString()) ||
+                   (sources.length === 1 ? sources[0] : undefined);
+    return source && !source.thumbnail.isEmpty() ? source.thumbnail : null;
+  }
+
+  private selectRegion(display: Display): Promise<CaptureRegion | null> {
+    return new Promise(resolve => {
+      this.resolveSelection = resolve;
+
+      const win = new BrowserWindow({
+        x: display.bounds.x,
+        y: display.bounds.y,
+        width: display.bounds.width,
+        height: display.bounds.height,
+        frame: false,
+        resizable: false,
+        movable: false,
+        skipTaskbar: true,
+        fullscreenable: false,
+        enableLargerThanScreen: true,
+        show: false,
+        webPreferences: {
+          nodeIntegration: false,
+          contextIsolation: true,
+          preload: path.join(__dirname, 'preload.js'),
+          devTools: false,
+        },
+      });
+      this.overlayWindow = win;
+
+      win.setMenu(null);
+      win.setAlwaysOnTop(true, 'screen-saver');
+      win.loadFile(path.join(__dirname, 'index.html'), { query: { capture: 'true' } });
+
+      win.once('ready-to-show', () => {
+        win.show();
+        win.focus();
+      });
+
+      // 選択せずに閉じられた場合はキャンセル扱い
+      win.on('closed', () => {
+        this.overlayWindow = null;
+        this.finishSelection(null);
+      });
+    });
+  }
+}
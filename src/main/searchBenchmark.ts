@@ -0,0 +1,180 @@
+import { StickyNote, SearchQuery } from '../types';
+import { SearchService } from './searchService';
+
+/**
+ * 検索のベンチマーク（npm run benchmark:search）
+ * 合成した付箋で索引の作成・更新と検索の時間を計測し、目標時間を超えた検索があれば終了コード1で終了する
+ */
+
+const NOTE_COUNT = 10000;
+const WARMUP_RUNS = 10;
+const MEASURED_RUNS = 100;
+const TARGET_MS = 10;
+
+const JAPANESE_WORDS = [
+  '会議', '議事録', '買い物', '牛乳', '予定', '締め切り', '資料', '確認', '連絡', '電話',
+  'プロジェクト', 'デザイン', 'レビュー', 'テスト', 'リリース', '東京', '大阪', '打ち合わせ', '請求書', '見積もり',
+  'こんにちは', 'ありがとう', 'よろしく', '明日', '来週', '今月', '天気', '散歩', '読書', '映画'
+];
+const ENGLISH_WORDS = [
+  'meeting', 'notes', 'project', 'design', 'review', 'release', 'budget', 'invoice', 'schedule', 'deadline',
+  'grocery', 'milk', 'coffee', 'email', 'call', 'report', 'draft', 'update', 'server', 'deploy',
+  'bug', 'feature', 'refactor', 'search', 'index', 'travel', 'hotel', 'ticket', 'book', 'movie'
+];
+// 頻出語以外の単語（実際の付箋に近い語彙の数にするため、音節・漢字を組み合わせて作る）
+const ENGLISH_SYLLABLES = ['ka', 'lo', 'mi', 'ter', 'son', 'ra', 'vel', 'in', 'dor', 'pe', 'gra', 'mon', 'ti', 'sa', 'ble', 'cor'];
+const KATAKANA_SYLLABLES = ['ア', 'カ', 'サ', 'タ', 'ナ', 'マ', 'ラ', 'ト', 'ル', 'ス', 'ク', 'リ', 'ン', 'ー'];
+const KANJI = ['山', '川', '田', '中', '本', '日', '月', '電', '車', '駅', '道', '店', '市', '場', '新', '学', '校', '社', '員', '部'];
+const COMMON_WORD_RATIO = 0.3;
+
+const TAGS = ['work', 'home', 'idea', 'todo', 'urgent'];
+const COLORS = ['#CCFFE6', '#FFF9C4', '#FFCDD2', '#BBDEFB', '#E1BEE7'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 毎回同じ付箋を作るための乱数（mulberry32）
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const createNotes = (count: number, now: number): StickyNote[] => {
+  const random = createRandom(42);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  const joinRandom = (items: string[], min: number, max: number) => {
+    return Array.from({ length: min + Math.floor(random() * (max - min + 1)) }, () => pick(items)).join('');
+  };
+  const rareWords = [
+    ...Array.from({ length: 3000 }, () => joinRandom(ENGLISH_SYLLABLES, 2, 4)),
+    ...Array.from({ length: 1500 }, () => joinRandom(KATAKANA_SYLLABLES, 3, 5)),
+    ...Array.from({ length: 1500 }, () => joinRandom(KANJI, 2, 3))
+  ];
+
+  return Array.from({ length: count }, (_, index) => {
+    const lines = Array.from({ length: 2 + Math.floor(random() * 6) }, () => {
+      const words = Array.from({ length: 3 + Math.floor(random() * 8) }, () => {
+        if (random() >= COMMON_WORD_RATIO) return pick(rareWords);
+        return random() < 0.5 ? pick(JAPANESE_WORDS) : pick(ENGLISH_WORDS);
+      });
+      // 日本語の単語どうしは区切らずに続ける
+      return words.reduce((line, word, i) => {
+        const joined = i > 0 && /^[^a-z]/.test(word) && /[^a-z]$/.test(line);
+        return line + (i === 0 || joined ? '' : ' ') + word;
+      }, '');
+    });
+    const tags = random() < 0.3 ? [pick(TAGS)] : [];
+    const content = [...lines, ...tags.map(tag => `#${tag}`)].join('\n');
+    const createdAt = now - Math.floor(random() * 365 * DAY_MS);
+
+    return {
+      id: `note-${index}`,
+      content,
+      activeX: 0,
+      activeY: 0,
+      activeWidth: 300,
+      activeHeight: 200,
+      inactiveX: 0,
+      inactiveY: 0,
+      inactiveWidth: 150,
+      inactiveHeight: 100,
+      backgroundColor: pick(COLORS),
+      fontSize: 14,
+      isPinned: random() < 0.1,
+      isLocked: false,
+      displayId: 'primary',
+      isActive: false,
+      tags,
+      createdAt,
+      updatedAt: createdAt + Math.floor(random() * (now - createdAt))
+    };
+  });
+};
+
+// 検索画面と同じ形の検索条件
+const createQuery = (text: string, options: Partial<SearchQuery> = {}): SearchQuery => ({
+  text,
+  keywords: text.split(/\s+/).filter(k => k.length > 0),
+  ...options
+});
+
+const QUERIES: Array<{ label: string; query: SearchQuery }> = [
+  { label: '英単語', query: createQuery('meeting') },
+  { label: '英単語の一部', query: createQuery('sched') },
+  { label: '複数の単語（AND）', query: createQuery('project review') },
+  { label: '漢字', query: createQuery('議事録') },
+  { label: 'カタカナ', query: createQuery('レビュー') },
+  { label: '1文字', query: createQuery('会') },
+  { label: 'フレーズ', query: createQuery('"meeting notes"') },
+  { label: '除外', query: createQuery('design -bug') },
+  { label: 'OR', query: createQuery('invoice OR 請求書') },
+  { label: 'タグ', query: createQuery('tag:work deploy') },
+  { label: 'ピン留め', query: createQuery('pinned:true coffee') },
+  { label: '更新日時', query: createQuery('updated:<30d 予定') },
+  { label: 'あいまい検索', query: createQuery('meetnig') },
+  { label: 'あいまい（かな）', query: createQuery('プロジュクト') },
+  { label: 'ローマ字', query: createQuery('arigatou', { romaji: true }) },
+  { label: '一致なし', query: createQuery('xylophone') }
+];
+
+const percentile = (sorted: number[], ratio: number): number => {
+  return sorted[Math.min(sorted.length - 1, Math.ceil(sorted.length * ratio) - 1)];
+};
+
+const measure = (callback: () => void): number => {
+  const start = process.hrtime.bigint();
+  callback();
+  return Number(process.hrtime.bigint() - start) / 1e6;
+};
+
+const runBenchmark = async (): Promise<void> => {
+  const now = Date.now();
+  const notes = createNotes(NOTE_COUNT, now);
+  const service = new SearchService();
+
+  const buildMs = measure(() => {
+    // initializeは同期的に索引を作成する
+    void service.initialize(notes);
+  });
+  const stats = service.getIndexStats();
+  console.log(`付箋 ${stats.totalNotes} 件、索引 ${stats.indexSize} 語: 作成 ${buildMs.toFixed(1)}ms`);
+
+  const updateTimes = notes.slice(0, 100).map(note => measure(() => {
+    service.updateNoteInIndex({ ...note, content: `${note.content}\n追記 appended`, updatedAt: now });
+  })).sort((a, b) => a - b);
+  console.log(`更新 1件あたり: 中央値 ${percentile(updateTimes, 0.5).toFixed(3)}ms`);
+
+  let failed = false;
+  QUERIES.forEach(({ label, query }) => {
+    let resultCount = 0;
+    for (let i = 0; i < WARMUP_RUNS; i++) {
+      service.search(query, notes);
+    }
+    const times = Array.from({ length: MEASURED_RUNS }, () => measure(() => {
+      resultCount = service.search(query, notes).length;
+    })).sort((a, b) => a - b);
+
+    const p95 = percentile(times, 0.95);
+    const status = p95 <= TARGET_MS ? 'OK' : 'NG';
+    if (p95 > TARGET_MS) failed = true;
+    console.log(
+      `[${status}] ${label.padEnd(12)} ${JSON.stringify(query.text).padEnd(28)} ` +
+      `中央値 ${percentile(times, 0.5).toFixed(2)}ms  p95 ${p95.toFixed(2)}ms  (${resultCount}件)`
+    );
+  });
+
+  if (failed) {
+    console.error(`目標時間（p95 ${TARGET_MS}ms）を超えた検索があります`);
+    process.exitCode = 1;
+  }
+};
+
+runBenchmark().catch(error => {
+  console.error('Benchmark failed:', error);
+  process.exitCode = 1;
+});
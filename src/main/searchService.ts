@@ -1,7 +1,62 @@
-import { StickyNote, SearchIndex, SearchQuery, SearchResult, SearchHighlight } from '../types';
+import { StickyNote, SearchIndex, SearchQuery, SearchResult, SearchHighlight, NoteLinkInfo } from '../types';
+import { normalizeTag } from '../utils/tagUtils';
+import { getPlainText } from '../utils/blockTextUtils';
+import { extractWikiLinkTitles, getNoteTitle, normalizeNoteTitle } from '../utils/wikiLinkUtils';
+import { findLinks } from '../utils/linkUtils';
+import { matchesDateFilter, parseSearchQuery, SearchFieldFilter, SearchHasTarget, SearchTerm } from '../utils/searchQueryUtils';
+import {
+  findFuzzyMatches,
+  getFuzzyTolerance,
+  getRunTokens,
+  getSearchRuns,
+  normalizeSearchKeyword,
+  normalizeSearchText,
+  romajiToHiragana,
+  SearchRun,
+  toSourceRange
+} from '../utils/searchTextUtils';
+
+// 正規表現で1つの付箋からハイライトする最大数
+const MAX_REGEX_MATCHES = 1000;
+
+// あいまい検索で一致した場合の出現回数の重み（完全一致より下に並べる）
+const FUZZY_RELEVANCE_WEIGHT = 0.5;
+
+// BM25のパラメータ（出現回数の飽和の度合いと、文書の長さによる補正の強さ）
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// 付箋IDの集合の共通部分（currentがnullの場合は絞り込み前としてnextをそのまま使う）
+const intersectIds = (current: Set<string> | null, next: Set<string>): Set<string> => {
+  return current ? new Set(Array.from(next).filter(id => current.has(id))) : next;
+};
+
+// 1回の検索の条件と、検索語ごとの一致結果（絞り込みと関連度の計算で同じ検索をしないため）
+interface SearchContext {
+  caseSensitive: boolean;
+  fuzzy: boolean;
+  romaji: boolean;
+  now: number;
+  notes: StickyNote[];
+  termMatches: Map<SearchTerm, TermMatches>;
+}
+
+interface TermMatch {
+  count: number; // 一致した回数
+  fuzzy: boolean;
+}
+
+interface TermMatches {
+  notes: Map<string, TermMatch>;
+  locate: (note: StickyNote) => SearchHighlight[]; // 元のテキストでの一致位置
+}
 
 export class SearchService {
   private searchIndex: Map<string, SearchIndex> = new Map();
+  // 転置索引（単語・n-gram → 付箋ID → 出現回数）。英数字などの単語と漢字・かなのn-gramで分ける
+  private wordPostings: Map<string, Map<string, number>> = new Map();
+  private gramPostings: Map<string, Map<string, number>> = new Map();
+  private totalTokenCount = 0;
   private initialized = false;
 
   constructor() {
@@ -18,22 +73,71 @@ export class SearchService {
 
   private buildSearchIndex(notes: StickyNote[]): void {
     this.searchIndex.clear();
+    this.wordPostings.clear();
+    this.gramPostings.clear();
+    this.totalTokenCount = 0;
     
     notes.forEach(note => {
-      const index = this.createSearchIndex(note);
-      this.searchIndex.set(note.id, index);
+      this.addToIndex(this.createSearchIndex(note));
     });
   }
 
+  private addToIndex(index: SearchIndex): void {
+    this.searchIndex.set(index.noteId, index);
+
+    let tokenCount = 0;
+    getSearchRuns(index.searchText).forEach(run => {
+      const postings = run.cjk ? this.gramPostings : this.wordPostings;
+      getRunTokens(run).forEach(token => {
+        let notePostings = postings.get(token);
+        if (!notePostings) {
+          notePostings = new Map();
+          postings.set(token, notePostings);
+        }
+        notePostings.set(index.noteId, (notePostings.get(index.noteId) || 0) + 1);
+        tokenCount++;
+      });
+    });
+
+    index.tokenCount = tokenCount;
+    this.totalTokenCount += tokenCount;
+  }
+
+  private deleteFromIndex(noteId: string): void {
+    const index = this.searchIndex.get(noteId);
+    if (!index) return;
+
+    getSearchRuns(index.searchText).forEach(run => {
+      const postings = run.cjk ? this.gramPostings : this.wordPostings;
+      getRunTokens(run).forEach(token => {
+        const notePostings = postings.get(token);
+        if (!notePostings) return;
+        notePostings.delete(noteId);
+        if (notePostings.size === 0) {
+          postings.delete(token);
+        }
+      });
+    });
+
+    this.totalTokenCount -= index.tokenCount;
+    this.searchIndex.delete(noteId);
+  }
+
   private createSearchIndex(note: StickyNote): SearchIndex {
     const content = this.extractTextContent(note.content);
-    const searchText = this.normalizeForSearch(content);
+    const normalized = normalizeSearchText(content);
     const previewText = this.createPreviewText(content);
 
     return {
       noteId: note.id,
-      searchText,
+      searchText: normalized.text,
+      sourceStarts: normalized.starts,
+      sourceEnds: normalized.ends,
       previewText,
+      tags: (note.tags || []).map(tag => normalizeTag(tag)),
+      title: getNoteTitle(note.content),
+      linkTitles: extractWikiLinkTitles(note.content),
+      tokenCount: 0, // 転置索引に追加する際に設定
       updatedAt: note.updatedAt,
       createdAt: note.createdAt
     };
@@ -44,22 +148,17 @@ export class SearchService {
       return content;
     }
     
-    // RichContent形式の場合
+    // RichContent形式の場合（コードブロックと表のセルも検索対象）
     if (content && content.blocks && Array.isArray(content.blocks)) {
-      return content.blocks
-        .filter((block: any) => block.type === 'text')
-        .map((block: any) => block.content || '')
-        .join(' ');
+      return getPlainText(content, ' ');
     }
     
     return '';
   }
 
+  // 全角・半角、ひらがな・カタカナ、大文字・小文字の違いを無視するための正規化
   private normalizeForSearch(text: string): string {
-    return text
-      .toLowerCase()
-      .replace(/\s+/g, ' ')
-      .trim();
+    return normalizeSearchKeyword(text);
   }
 
   private createPreviewText(content: string, maxLength: number = 100): string {
@@ -73,129 +172,496 @@ export class SearchService {
   updateNoteInIndex(note: StickyNote): void {
     if (!this.initialized) return;
     
-    const index = this.createSearchIndex(note);
-    this.searchIndex.set(note.id, index);
+    this.deleteFromIndex(note.id);
+    this.addToIndex(this.createSearchIndex(note));
   }
 
   removeNoteFromIndex(noteId: string): void {
-    this.searchIndex.delete(noteId);
+    this.deleteFromIndex(noteId);
   }
 
   search(query: SearchQuery, notes: StickyNote[]): SearchResult[] {
-    console.log('[DEBUG] SearchService.search called with query:', JSON.stringify(query));
-    console.log('[DEBUG] SearchService.search notes count:', notes.length);
-    console.log('[DEBUG] SearchService initialized:', this.initialized);
+    if (process.env.NODE_ENV === 'development') {
+      console.log('[DEBUG] SearchService.search called with query:', JSON.stringify(query));
+    }
     
     if (!this.initialized) {
       console.log('[DEBUG] SearchService not initialized, returning empty array');
       return [];
     }
 
-    const queryText = query.text.trim();
-    console.log('[DEBUG] Query text trimmed:', JSON.stringify(queryText));
-    
-    // キーワードが空の場合、すべての付箋を返す
-    if (!queryText) {
-      console.log('[DEBUG] Empty query detected, returning all notes');
-      const allResults = notes.map(note => {
-        const searchIndex = this.searchIndex.get(note.id);
-        const previewText = searchIndex ? searchIndex.previewText : this.createPreviewText(
-          typeof note.content === 'string' ? note.content : this.extractTextContent(note.content)
-        );
-        
-        return {
-          note,
-          relevance: 1, // すべて同じ関連度
-          highlights: [], // キーワードが空なのでハイライトなし
-          matchCount: 0 // マッチなし
-        };
-      }).sort((a, b) => new Date(b.note.updatedAt).getTime() - new Date(a.note.updatedAt).getTime()); // 更新日時でソート
-      
-      console.log('[DEBUG] All notes result count:', allResults.length);
-      return allResults;
+    const caseSensitive = query.caseSensitive || false;
+    const parsed = parseSearchQuery(query.text, { regex: query.regex, caseSensitive });
+    if (parsed.errors.length > 0) {
+      console.log('[DEBUG] Invalid search query:', parsed.errors);
+      return [];
     }
 
-    // キーワードがある場合の検索処理（既存ロジック）
-    const normalizedQuery = this.normalizeForSearch(queryText);
-    const keywords = query.keywords.length > 0 ? 
-      query.keywords.map(k => this.normalizeForSearch(k)) : 
-      [normalizedQuery];
+    const context: SearchContext = {
+      caseSensitive,
+      fuzzy: query.fuzzy ?? true,
+      romaji: query.romaji ?? false,
+      now: Date.now(),
+      notes,
+      termMatches: new Map()
+    };
+
+    // すべてのグループ（AND）でいずれかの条件（OR）を満たす付箋に絞り込み
+    // 除外指定だけのグループは最後に回し、ほかのグループで絞り込んだ候補から一致する付箋を取り除く
+    const isExclusion = (group: SearchTerm[]) => group.length === 1 && group[0].negated;
+    const groups = [...parsed.groups.filter(group => !isExclusion(group)), ...parsed.groups.filter(isExclusion)];
+    const matchedIds = groups.reduce<Set<string> | null>((ids, group) => {
+      if (ids?.size === 0) return ids;
+      if (isExclusion(group)) {
+        return this.excludeMatchingNoteIds(ids || new Set(notes.map(note => note.id)), group[0], context);
+      }
+      const groupIds = group.length === 1
+        ? this.getMatchingNoteIds(group[0], context)
+        : group.reduce((unionIds, term) => {
+          this.getMatchingNoteIds(term, context).forEach(noteId => unionIds.add(noteId));
+          return unionIds;
+        }, new Set<string>());
+      return intersectIds(ids, groupIds);
+    }, null);
+    const targetNotes = matchedIds
+      ? notes.filter(note => matchedIds.has(note.id))
+      : notes;
+
+    // ハイライト・関連度の対象となる本文の検索語（除外指定とフィールド指定は除く）
+    const textTerms = parsed.groups.flat().filter(term => term.type !== 'filter' && !term.negated);
+    
+    // 検索語がない場合（空のクエリ・絞り込みのみ）、該当するすべての付箋を返す
+    if (textTerms.length === 0) {
+      return targetNotes.map(note => ({
+        note,
+        relevance: 1, // すべて同じ関連度
+        highlights: [], // 検索語がないのでハイライトなし
+        matchCount: 0 // マッチなし
+      })).sort((a, b) => new Date(b.note.updatedAt).getTime() - new Date(a.note.updatedAt).getTime()); // 更新日時でソート
+    }
 
-    const results: SearchResult[] = [];
     const maxResults = query.maxResults || 50;
+    const results = targetNotes.map(note => this.scoreNote(note, textTerms, context));
 
-    // 各ノートに対して検索を実行
-    notes.forEach(note => {
-      const searchIndex = this.searchIndex.get(note.id);
-      if (!searchIndex) return;
+    // 関連度スコアを0-1に正規化して降順にソート
+    const maxScore = results.reduce((max, result) => Math.max(max, result.relevance), 0);
+    if (maxScore > 0) {
+      results.forEach(result => {
+        result.relevance = result.relevance / maxScore;
+      });
+    }
 
-      const searchResult = this.searchInNote(note, searchIndex, keywords, query.caseSensitive || false);
-      if (searchResult) {
-        results.push(searchResult);
+    // 最大結果数に制限し、表示する付箋だけハイライトを求める
+    return this.selectTopResults(results, maxResults).map(result => ({
+      ...result,
+      highlights: this.mergeOverlappingHighlights(
+        textTerms.flatMap(term => this.getTermMatches(term, context).locate(result.note))
+      )
+    }));
+  }
+
+  /**
+   * 関連度の高い順に最大limit件（一致した付箋が多い場合もすべてを並べ替えない）
+   */
+  private selectTopResults(results: SearchResult[], limit: number): SearchResult[] {
+    const top: SearchResult[] = [];
+    results.forEach(result => {
+      if (top.length >= limit && result.relevance <= top[top.length - 1].relevance) return;
+
+      // 同じ関連度の場合は先に見つかった付箋を前にする
+      let low = 0;
+      let high = top.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (top[middle].relevance >= result.relevance) {
+          low = middle + 1;
+        } else {
+          high = middle;
+        }
       }
+      top.splice(low, 0, result);
+      if (top.length > limit) top.pop();
     });
+    return top;
+  }
 
-    // 関連度スコアでソート（降順）
-    results.sort((a, b) => b.relevance - a.relevance);
+  /**
+   * 検索語・絞り込み条件を満たす付箋のID（除外指定の場合は満たさない付箋のID）
+   * 除外指定はORの条件の一部として使われる場合だけここで求める（それ以外はexcludeMatchingNoteIds）
+   */
+  private getMatchingNoteIds(term: SearchTerm, context: SearchContext): Set<string> {
+    const matchedIds = term.type === 'filter'
+      ? new Set(context.notes.filter(note => this.matchesFilter(note, term.filter, context.now)).map(note => note.id))
+      : new Set(this.getTermMatches(term, context).notes.keys());
+    if (!term.negated) return matchedIds;
+
+    return new Set(context.notes.filter(note => !matchedIds.has(note.id)).map(note => note.id));
+  }
 
-    // 最大結果数に制限
-    return results.slice(0, maxResults);
+  /**
+   * 候補の付箋から、除外指定の検索語・絞り込み条件に一致する付箋を取り除く
+   * 除外しない付箋をすべての付箋から集めず、絞り込み条件は候補の付箋だけを確認する
+   */
+  private excludeMatchingNoteIds(candidateIds: Set<string>, term: SearchTerm, context: SearchContext): Set<string> {
+    if (term.type === 'filter') {
+      return new Set(context.notes
+        .filter(note => candidateIds.has(note.id) && !this.matchesFilter(note, term.filter, context.now))
+        .map(note => note.id));
+    }
+    const excludedNotes = this.getTermMatches(term, context).notes;
+    return new Set(Array.from(candidateIds).filter(noteId => !excludedNotes.has(noteId)));
   }
 
-  private searchInNote(
-    note: StickyNote, 
-    searchIndex: SearchIndex, 
-    keywords: string[], 
-    caseSensitive: boolean
-  ): SearchResult | null {
-    const searchText = caseSensitive ? 
-      this.extractTextContent(note.content) : 
-      searchIndex.searchText;
-    
-    const highlights: SearchHighlight[] = [];
-    let totalMatches = 0;
-    let relevanceScore = 0;
+  /**
+   * 本文の検索語に一致する付箋と一致した回数（検索ごとに1回だけ計算）
+   */
+  private getTermMatches(term: SearchTerm, context: SearchContext): TermMatches {
+    let matches = context.termMatches.get(term);
+    if (!matches) {
+      matches = term.type === 'regex'
+        ? this.findRegexTermMatches(term.pattern, context)
+        : term.type === 'text'
+          ? this.findTextTermMatches(term.value, context)
+          : { notes: new Map(), locate: () => [] };
+      context.termMatches.set(term, matches);
+    }
+    return matches;
+  }
 
-    // 各キーワードについて検索
+  private findRegexTermMatches(pattern: RegExp, context: SearchContext): TermMatches {
+    // 正規表現は索引を使えないため、すべての付箋の元のテキストに対して検索する
+    const notes = new Map<string, TermMatch>();
+    const highlightsById = new Map<string, SearchHighlight[]>();
+    context.notes.forEach(note => {
+      const highlights = this.findRegexMatches(this.extractTextContent(note.content), pattern);
+      if (highlights.length > 0) {
+        notes.set(note.id, { count: highlights.length, fuzzy: false });
+        highlightsById.set(note.id, highlights);
+      }
+    });
+    return { notes, locate: note => highlightsById.get(note.id) || [] };
+  }
+
+  /**
+   * 本文の検索語に一致する付箋
+   * 転置索引で候補を絞り込んでから、候補の付箋だけを部分一致で確認する
+   * どの付箋にも一致しない場合、あいまい検索が有効なら編集距離の近い部分を探す
+   * ローマ字の検索語はひらがなに変換した語でも探す
+   */
+  private findTextTermMatches(value: string, context: SearchContext): TermMatches {
+    const keywords = [this.normalizeForSearch(value)];
+    const kana = context.romaji && !context.caseSensitive ? romajiToHiragana(value) : null;
+    if (kana) keywords.push(kana);
+
+    // 大文字・小文字を区別する場合は元のテキストで確認する
+    const notesById = context.caseSensitive ? new Map(context.notes.map(note => [note.id, note])) : null;
+
+    const notes = new Map<string, TermMatch>();
     keywords.forEach(keyword => {
-      const targetKeyword = caseSensitive ? keyword : keyword.toLowerCase();
-      const targetText = caseSensitive ? searchText : searchText.toLowerCase();
-      
-      const matches = this.findMatches(targetText, targetKeyword);
-      totalMatches += matches.length;
-      
-      // ハイライト位置を計算（大文字小文字を考慮して元のテキストでの位置を計算）
-      if (!caseSensitive && matches.length > 0) {
-        const originalText = this.extractTextContent(note.content);
-        matches.forEach(match => {
-          const actualHighlight = this.findActualHighlightPosition(originalText, keyword, match.start);
-          if (actualHighlight) {
-            highlights.push(actualHighlight);
-          }
-        });
+      this.forEachCandidate(this.findCandidateIds(keyword), context, (noteId, searchIndex) => {
+        const note = notesById?.get(noteId);
+        const count = notesById
+          ? (note ? this.countMatches(this.extractTextContent(note.content), value) : 0)
+          : this.countMatches(searchIndex.searchText, keyword);
+        if (count > 0) {
+          notes.set(noteId, { count: (notes.get(noteId)?.count || 0) + count, fuzzy: false });
+        }
+      });
+    });
+
+    if (notes.size > 0 || !context.fuzzy || context.caseSensitive) {
+      return {
+        notes,
+        locate: note => {
+          const searchIndex = this.searchIndex.get(note.id);
+          if (!searchIndex) return [];
+          return context.caseSensitive
+            ? this.findMatches(this.extractTextContent(note.content), value)
+            : keywords.flatMap(keyword => this.toSourceHighlights(searchIndex, this.findMatches(searchIndex.searchText, keyword)));
+        }
+      };
+    }
+
+    // あいまい検索では、付箋ごとに似たつづりの一致範囲を求める
+    const locators: Array<(searchIndex: SearchIndex) => SearchHighlight[]> = [];
+    keywords.forEach(keyword => {
+      const tolerance = getFuzzyTolerance(keyword);
+      if (tolerance === 0) return;
+
+      const runs = getSearchRuns(keyword);
+      let candidateIds: Set<string> | null;
+      let findRanges: (text: string) => SearchHighlight[];
+      if (runs.length === 1 && !runs[0].cjk && runs[0].text === keyword) {
+        // 1つの単語は、索引の単語から似たつづりを探し、そのつづりの部分一致として扱う
+        const variants = this.findFuzzyVariants(keyword, tolerance);
+        candidateIds = variants.noteIds;
+        findRanges = text => this.mergeOverlappingHighlights(
+          Array.from(variants.texts).flatMap(variant => this.findMatches(text, variant))
+        );
       } else {
-        highlights.push(...matches);
+        const candidates = this.findFuzzyCandidates(runs, tolerance);
+        candidateIds = candidates.noteIds;
+        findRanges = text => this.findFuzzyMatchesNear(text, keyword, tolerance, candidates.anchors);
+      }
+
+      const locate = (searchIndex: SearchIndex) => this.toSourceHighlights(searchIndex, findRanges(searchIndex.searchText));
+      locators.push(locate);
+      this.forEachCandidate(candidateIds, context, (noteId, searchIndex) => {
+        if (notes.has(noteId)) return;
+        const count = findRanges(searchIndex.searchText).length;
+        if (count > 0) {
+          notes.set(noteId, { count, fuzzy: true });
+        }
+      });
+    });
+
+    return {
+      notes,
+      locate: note => {
+        const searchIndex = this.searchIndex.get(note.id);
+        return searchIndex ? locators.flatMap(locate => locate(searchIndex)) : [];
       }
+    };
+  }
 
-      // 関連度スコアの計算
-      relevanceScore += this.calculateKeywordRelevance(matches, keyword, searchText);
+  // 候補の付箋を順に処理（候補がnullの場合は索引を使えないためすべての付箋）
+  private forEachCandidate(
+    candidateIds: Set<string> | null,
+    context: SearchContext,
+    callback: (noteId: string, searchIndex: SearchIndex) => void
+  ): void {
+    const noteIds = candidateIds || context.notes.map(note => note.id);
+    noteIds.forEach(noteId => {
+      const searchIndex = this.searchIndex.get(noteId);
+      if (searchIndex) {
+        callback(noteId, searchIndex);
+      }
     });
+  }
 
-    if (totalMatches === 0) {
-      return null;
+  private toSourceHighlights(searchIndex: SearchIndex, ranges: SearchHighlight[]): SearchHighlight[] {
+    const normalized = { text: searchIndex.searchText, starts: searchIndex.sourceStarts, ends: searchIndex.sourceEnds };
+    return ranges
+      .map(range => toSourceRange(normalized, range.start, range.end))
+      .filter((range): range is SearchHighlight => range !== null);
+  }
+
+  /**
+   * 検索語を含む可能性のある付箋（検索語に単語・漢字かなが含まれない場合はnull）
+   * 英数字などの単語は付箋内の単語の一部でもよいため、その単語を含む索引の単語から探す
+   */
+  private findCandidateIds(keyword: string): Set<string> | null {
+    const runs = getSearchRuns(keyword);
+    if (runs.length === 0) return null;
+
+    return runs.reduce<Set<string> | null>((candidates, run) => {
+      return candidates?.size === 0 ? candidates : intersectIds(candidates, this.findRunCandidateIds(run));
+    }, null);
+  }
+
+  private findRunCandidateIds(run: SearchRun): Set<string> {
+    const tokens = getRunTokens(run);
+    if (run.cjk && tokens[0] !== run.text) {
+      // 2文字以上の漢字・かなは、すべてのn-gramを含む付箋
+      const candidates = tokens.reduce<Set<string> | null>((ids, token) => {
+        return ids?.size === 0 ? ids : intersectIds(ids, new Set(this.gramPostings.get(token)?.keys() || []));
+      }, null);
+      return candidates || new Set();
     }
 
-    // 最終的な関連度スコア（0-1の範囲に正規化）
-    const finalRelevance = Math.min(relevanceScore / keywords.length, 1);
+    // 1文字の漢字・かなと英数字などの単語は、それを含む索引の単語・n-gramのいずれかを含む付箋
+    return this.collectPostings(run.cjk ? this.gramPostings : this.wordPostings, token => token.includes(run.text));
+  }
+
+  /**
+   * 索引の単語のうち検索語と編集距離の近い部分（つづり）と、その単語を含む付箋
+   */
+  private findFuzzyVariants(keyword: string, tolerance: number): { texts: Set<string>; noteIds: Set<string> } {
+    const texts = new Set<string>();
+    const keywordChars = new Set(keyword);
+    const noteIds = this.collectPostings(this.wordPostings, token => {
+      if (token.length < keyword.length - tolerance) return false;
+      // 検索語の文字を(検索語の長さ - 許容する編集距離)個以上含まない単語は調べない
+      let sharedChars = 0;
+      for (const char of token) {
+        if (keywordChars.has(char)) sharedChars++;
+      }
+      if (sharedChars < keyword.length - tolerance) return false;
+
+      const fuzzyMatches = findFuzzyMatches(token, keyword, tolerance);
+      fuzzyMatches.forEach(match => texts.add(token.substring(match.start, match.end)));
+      return fuzzyMatches.length > 0;
+    });
+    return { texts, noteIds };
+  }
+
+  /**
+   * 複数の単語・漢字かなを含む検索語のあいまい検索の候補
+   * 単語は似たつづりの単語を含む付箋、漢字・かなは一定数以上のn-gramが共通する付箋
+   * anchorsは一致する部分に含まれるはずの文字列（似たつづりと共通するn-gram）
+   */
+  private findFuzzyCandidates(runs: SearchRun[], tolerance: number): { noteIds: Set<string> | null; anchors: string[] } {
+    if (runs.length === 0) return { noteIds: null, anchors: [] };
+
+    const noteIds = new Set<string>();
+    const anchors: string[] = [];
+    runs.forEach(run => {
+      if (!run.cjk) {
+        const variants = this.findFuzzyVariants(run.text, Math.min(tolerance, getFuzzyTolerance(run.text)));
+        variants.noteIds.forEach(id => noteIds.add(id));
+        anchors.push(...Array.from(variants.texts));
+        return;
+      }
+
+      // 編集1回で変わるn-gramは最大2つ
+      const grams = Array.from(new Set(getRunTokens(run)));
+      const threshold = Math.max(1, grams.length - 2 * tolerance);
+      const sharedCounts = new Map<string, number>();
+      grams.forEach(gram => {
+        this.gramPostings.get(gram)?.forEach((_, noteId) => {
+          sharedCounts.set(noteId, (sharedCounts.get(noteId) || 0) + 1);
+        });
+      });
+      sharedCounts.forEach((count, noteId) => {
+        if (count >= threshold) noteIds.add(noteId);
+      });
+      // 一致する部分はthreshold個以上のn-gramを含むため、(n-gramの数 - threshold + 1)個を調べれば足りる
+      const postingCount = (gram: string) => this.gramPostings.get(gram)?.size || 0;
+      anchors.push(...grams.sort((a, b) => postingCount(a) - postingCount(b)).slice(0, grams.length - threshold + 1));
+    });
+    return { noteIds, anchors };
+  }
+
+  /**
+   * anchorsの出現位置の周辺だけで編集距離の近い部分を探す（付箋全体を調べると時間がかかるため）
+   */
+  private findFuzzyMatchesNear(text: string, keyword: string, tolerance: number, anchors: string[]): SearchHighlight[] {
+    // 一致する部分は(検索語の長さ + 許容する編集距離)文字以内なので、anchorの前後はその残りの文字数まで
+    const windows: SearchHighlight[] = [];
+    anchors.forEach(anchor => {
+      const reach = Math.max(0, keyword.length + tolerance - anchor.length);
+      let index = text.indexOf(anchor);
+      while (index !== -1) {
+        windows.push({ start: Math.max(0, index - reach), end: Math.min(text.length, index + anchor.length + reach) });
+        index = text.indexOf(anchor, index + 1);
+      }
+    });
+
+    return this.mergeOverlappingHighlights(windows).flatMap(window => {
+      return findFuzzyMatches(text, keyword, tolerance, window.start, window.end)
+        .map(match => ({ start: match.start, end: match.end }));
+    });
+  }
+
+  private collectPostings(postings: Map<string, Map<string, number>>, predicate: (token: string) => boolean): Set<string> {
+    const noteIds = new Set<string>();
+    postings.forEach((notePostings, token) => {
+      if (predicate(token)) {
+        notePostings.forEach((_, noteId) => noteIds.add(noteId));
+      }
+    });
+    return noteIds;
+  }
+
+  /**
+   * 付箋の関連度（BM25）と一致した回数（ハイライトは表示する付箋だけ後で求める）
+   * 検索語ごとに、一致した回数と一致した付箋の数（少ないほど重要な語）から計算し、長い付箋ほど低めにする
+   */
+  private scoreNote(note: StickyNote, terms: SearchTerm[], context: SearchContext): SearchResult {
+    const searchIndex = this.searchIndex.get(note.id);
+    const documentLength = Math.max(searchIndex?.tokenCount || 0, 1);
+    const averageLength = Math.max(this.totalTokenCount / Math.max(this.searchIndex.size, 1), 1);
+    const totalNotes = context.notes.length;
+
+    let totalMatches = 0;
+    let score = 0;
+
+    // ORの一方にしか一致しない付箋もあるため、一致しない語は0点
+    terms.forEach(term => {
+      const termMatches = this.getTermMatches(term, context);
+      const match = termMatches.notes.get(note.id);
+      if (!match) return;
+
+      totalMatches += match.count;
+
+      const frequency = match.count * (match.fuzzy ? FUZZY_RELEVANCE_WEIGHT : 1);
+      const documentFrequency = termMatches.notes.size;
+      const idf = Math.log(1 + (totalNotes - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      score += idf * (frequency * (BM25_K1 + 1)) /
+        (frequency + BM25_K1 * (1 - BM25_B + BM25_B * documentLength / averageLength));
+    });
 
     return {
       note,
-      relevance: finalRelevance,
-      highlights: this.mergeOverlappingHighlights(highlights),
+      relevance: score, // 呼び出し元で0-1に正規化する
+      highlights: [],
       matchCount: totalMatches
     };
   }
 
+  private matchesFilter(note: StickyNote, filter: SearchFieldFilter, now: number): boolean {
+    switch (filter.field) {
+      case 'tag': {
+        const searchIndex = this.searchIndex.get(note.id);
+        const noteTags = searchIndex ? searchIndex.tags : (note.tags || []).map(tag => normalizeTag(tag));
+        return noteTags.includes(filter.value);
+      }
+      case 'color':
+        return [note.backgroundColor, note.headerColor]
+          .some(color => !!color && color.replace(/^#/, '').toLowerCase().startsWith(filter.value));
+      case 'pinned':
+        return note.isPinned === filter.value;
+      case 'locked':
+        return note.isLocked === filter.value;
+      case 'has':
+        return this.hasContent(note, filter.value);
+      case 'created':
+        return matchesDateFilter(filter, note.createdAt, now);
+      case 'updated':
+        return matchesDateFilter(filter, note.updatedAt, now);
+    }
+  }
+
+  private hasContent(note: StickyNote, target: SearchHasTarget): boolean {
+    const blocks = typeof note.content === 'string' ? [] : note.content?.blocks || [];
+    switch (target) {
+      case 'image':
+      case 'code':
+      case 'table':
+        return blocks.some(block => block.type === target);
+      case 'link':
+        return findLinks(this.extractTextContent(note.content)).length > 0;
+      case 'reminder':
+        return note.reminderAt !== undefined;
+    }
+  }
+
+  private findRegexMatches(text: string, pattern: RegExp): SearchHighlight[] {
+    const matches: SearchHighlight[] = [];
+    pattern.lastIndex = 0;
+
+    for (const match of text.matchAll(pattern)) {
+      if (matches.length >= MAX_REGEX_MATCHES) break;
+      const start = match.index ?? 0;
+      // 空文字に一致した位置はハイライトしない
+      if (match[0].length > 0) {
+        matches.push({ start, end: start + match[0].length });
+      }
+    }
+
+    return matches;
+  }
+
+  private countMatches(text: string, keyword: string): number {
+    let count = 0;
+    let index = text.indexOf(keyword);
+    while (index !== -1) {
+      count++;
+      index = text.indexOf(keyword, index + 1);
+    }
+    return count;
+  }
+
   private findMatches(text: string, keyword: string): SearchHighlight[] {
     const matches: SearchHighlight[] = [];
     let startIndex = 0;
@@ -215,55 +681,6 @@ export class SearchService {
     return matches;
   }
 
-  private findActualHighlightPosition(originalText: string, keyword: string, approximateStart: number): SearchHighlight | null {
-    // 大文字小文字を無視して実際の位置を見つける
-    const lowerOriginal = originalText.toLowerCase();
-    const lowerKeyword = keyword.toLowerCase();
-    
-    // 近似位置の前後を検索
-    const searchStart = Math.max(0, approximateStart - 10);
-    const searchEnd = Math.min(lowerOriginal.length, approximateStart + keyword.length + 10);
-    const searchArea = lowerOriginal.substring(searchStart, searchEnd);
-    
-    const relativeIndex = searchArea.indexOf(lowerKeyword);
-    if (relativeIndex === -1) {
-      // フォールバック：最初に見つかる位置を使用
-      const globalIndex = lowerOriginal.indexOf(lowerKeyword);
-      if (globalIndex !== -1) {
-        return {
-          start: globalIndex,
-          end: globalIndex + keyword.length
-        };
-      }
-      return null;
-    }
-
-    const actualStart = searchStart + relativeIndex;
-    return {
-      start: actualStart,
-      end: actualStart + keyword.length
-    };
-  }
-
-  private calculateKeywordRelevance(matches: SearchHighlight[], keyword: string, text: string): number {
-    if (matches.length === 0) return 0;
-
-    const keywordLength = keyword.length;
-    const textLength = text.length;
-    
-    // 基本スコア（マッチ数に基づく）
-    let score = matches.length * 0.1;
-    
-    // キーワードの長さに基づくボーナス（長いキーワードほど高スコア）
-    score += (keywordLength / 10) * 0.3;
-    
-    // テキストの長さに対する相対的な重要度
-    const density = (matches.length * keywordLength) / textLength;
-    score += density * 0.6;
-    
-    return Math.min(score, 1.0);
-  }
-
   private mergeOverlappingHighlights(highlights: SearchHighlight[]): SearchHighlight[] {
     if (highlights.length === 0) return [];
 
@@ -286,6 +703,46 @@ export class SearchService {
     return merged;
   }
 
+  /**
+   * 付箋間リンクの補完候補（タイトルのある付箋を更新日時の新しい順で）
+   */
+  getNoteTitles(): NoteLinkInfo[] {
+    return Array.from(this.searchIndex.values())
+      .filter(index => index.title.length > 0)
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(index => ({ noteId: index.noteId, title: index.title }));
+  }
+
+  /**
+   * タイトルから付箋を探す（同じタイトルが複数ある場合は最も新しく更新された付箋）
+   */
+  findNoteIdByTitle(title: string): string | null {
+    const normalizedTitle = normalizeNoteTitle(title);
+    if (!normalizedTitle) return null;
+
+    let found: SearchIndex | null = null;
+    this.searchIndex.forEach(index => {
+      if (normalizeNoteTitle(index.title) === normalizedTitle && (!found || index.updatedAt > found.updatedAt)) {
+        found = index;
+      }
+    });
+    return found ? (found as SearchIndex).noteId : null;
+  }
+
+  /**
+   * 指定した付箋を「[[タイトル]]」で参照している付箋（バックリンク）
+   */
+  getBacklinks(noteId: string): NoteLinkInfo[] {
+    const target = this.searchIndex.get(noteId);
+    const normalizedTitle = target ? normalizeNoteTitle(target.title) : '';
+    if (!normalizedTitle) return [];
+
+    return Array.from(this.searchIndex.values())
+      .filter(index => index.noteId !== noteId && index.linkTitles.includes(normalizedTitle))
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(index => ({ noteId: index.noteId, title: index.title }));
+  }
+
   rebuildIndex(notes: StickyNote[]): void {
     this.buildSearchIndex(notes);
     if (process.env.NODE_ENV === 'development') {
@@ -296,7 +753,7 @@ export class SearchService {
   getIndexStats(): { totalNotes: number; indexSize: number } {
     return {
       totalNotes: this.searchIndex.size,
-      indexSize: this.searchIndex.size // シンプルな実装では同じ
+      indexSize: this.wordPostings.size + this.gramPostings.size // 転置索引の単語・n-gramの数
     };
   }
 
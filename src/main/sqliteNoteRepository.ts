@@ -0,0 +1,96 @@
+import { StickyNote } from '../types';
+import { NoteRepository } from './noteRepository';
+
+// node:sqlite（Electronに同梱のNode.js 22以降で利用可能）のうち使用する部分の型
+// @types/nodeのバージョンが対応していないため最小限を定義する
+interface SqliteStatement {
+  run(...params: (string | number | null)[]): unknown;
+  get(...params: (string | number | null)[]): Record<string, unknown> | undefined;
+  all(...params: (string | number | null)[]): Record<string, unknown>[];
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+/**
+ * SQLiteに付箋を1行ずつ保存する実装
+ * 1件の更新は該当行の書き換えのみで済むため、付箋が多い場合でも入力ごとの保存が軽い
+ */
+export class SqliteNoteRepository implements NoteRepository {
+  readonly backend = 'sqlite' as const;
+  private db: SqliteDatabase;
+
+  constructor(dbFile: string) {
+    // JSON形式を使う場合は読み込まないよう、必要になった時点でrequireする
+    const { DatabaseSync } = require('node:sqlite') as { DatabaseSync: new (path: string) => SqliteDatabase };
+    this.db = new DatabaseSync(dbFile);
+    this.db.exec('PRAGMA journal_mode = WAL');
+    // 並び順（作成順）はrowidで保持する
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS notes (
+        id TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  async getAllNotes(): Promise<StickyNote[]> {
+    const rows = this.db.prepare('SELECT data FROM notes ORDER BY rowid').all();
+    const notes: StickyNote[] = [];
+    rows.forEach(row => {
+      try {
+        notes.push(JSON.parse(row.data as string));
+      } catch (error) {
+        console.error('Failed to parse note row:', error);
+      }
+    });
+    return notes;
+  }
+
+  async getNote(id: string): Promise<StickyNote | null> {
+    const row = this.db.prepare('SELECT data FROM notes WHERE id = ?').get(id);
+    return row ? JSON.parse(row.data as string) : null;
+  }
+
+  async saveAllNotes(notes: StickyNote[]): Promise<void> {
+    this.transaction(() => {
+      this.db.exec('DELETE FROM notes');
+      const insert = this.db.prepare('INSERT INTO notes (id, data, updated_at) VALUES (?, ?, ?)');
+      notes.forEach(note => insert.run(note.id, JSON.stringify(note), note.updatedAt));
+    });
+  }
+
+  async upsertNotes(notes: StickyNote[]): Promise<void> {
+    // ON CONFLICTで更新する場合はrowidが変わらないため並び順も維持される
+    const upsert = this.db.prepare(`
+      INSERT INTO notes (id, data, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `);
+    this.transaction(() => {
+      notes.forEach(note => upsert.run(note.id, JSON.stringify(note), note.updatedAt));
+    });
+  }
+
+  async deleteNote(id: string): Promise<void> {
+    this.db.prepare('DELETE FROM notes WHERE id = ?').run(id);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private transaction(callback: () => void): void {
+    this.db.exec('BEGIN');
+    try {
+      callback();
+      this.db.exec('COMMIT');
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import React, { useId } from 'react';
+import { ImageAnnotation, ImageEdits } from '../../types';
+
+interface AnnotatedImageProps {
+  src: string;
+  edits: ImageEdits;
+  alt?: string;
+  style?: React.CSSProperties;
+}
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+export const getCropRect = (edits: ImageEdits): Rect =>
+  edits.crop || { x: 0, y: 0, width: edits.naturalWidth, height: edits.naturalHeight };
+
+// 切り抜き・回転後の画像サイズ
+export const getEditedImageSize = (edits: ImageEdits): { width: number; height: number } => {
+  const crop = getCropRect(edits);
+  return edits.rotation % 180 === 0
+    ? { width: crop.width, height: crop.height }
+    : { width: crop.height, height: crop.width };
+};
+
+// 矢印の先端（線の太さに合わせた三角形）
+const getArrowHeadPoints = (annotation: Extract<ImageAnnotation, { type: 'arrow' }>): string => {
+  const angle = Math.atan2(annotation.y2 - annotation.y1, annotation.x2 - annotation.x1);
+  const length = annotation.strokeWidth * 4;
+  const spread = Math.PI / 7;
+  const points = [
+    [annotation.x2, annotation.y2],
+    [annotation.x2 - length * Math.cos(angle - spread), annotation.y2 - length * Math.sin(angle - spread)],
+    [annotation.x2 - length * Math.cos(angle + spread), annotation.y2 - length * Math.sin(angle + spread)]
+  ];
+  return points.map(point => point.join(',')).join(' ');
+};
+
+export const renderAnnotation = (annotation: ImageAnnotation, key: React.Key): React.ReactNode => {
+  switch (annotation.type) {
+    case 'arrow':
+      return (
+        <g key={key}>
+          <line
+            x1={annotation.x1} y1={annotation.y1} x2={annotation.x2} y2={annotation.y2}
+            stroke={annotation.color} strokeWidth={annotation.strokeWidth} strokeLinecap="round"
+          />
+          <polygon points={getArrowHeadPoints(annotation)} fill={annotation.color} />
+        </g>
+      );
+    case 'rect':
+      return (
+        <rect
+          key={key}
+          x={annotation.x} y={annotation.y} width={annotation.width} height={annotation.height}
+          fill="none" stroke={annotation.color} strokeWidth={annotation.strokeWidth}
+        />
+      );
+    case 'freehand':
+      return (
+        <polyline
+          key={key}
+          points={annotation.points.map(point => `${point.x},${point.y}`).join(' ')}
+          fill="none" stroke={annotation.color} strokeWidth={annotation.strokeWidth}
+          strokeLinecap="round" strokeLinejoin="round"
+        />
+      );
+    case 'text':
+      return (
+        <text
+          key={key}
+          x={annotation.x} y={annotation.y}
+          fill={annotation.color} fontSize={annotation.fontSize} fontWeight="bold"
+          stroke="white" strokeWidth={annotation.fontSize / 12} paintOrder="stroke"
+        >
+          {annotation.text}
+        </text>
+      );
+  }
+};
+
+/**
+ * 編集（注釈・切り抜き・回転）を適用して画像を表示する
+ * 元画像はそのまま読み込み、編集内容はSVGで重ねて描画する
+ */
+export const AnnotatedImage: React.FC<AnnotatedImageProps> = ({ src, edits, alt, style }) => {
+  // useIdの値には「:」が含まれ、url(#...)で参照できないため取り除く
+  const clipId = `image-crop-${useId().replace(/:/g, '')}`;
+  const crop = getCropRect(edits);
+  const size = getEditedImageSize(edits);
+
+  return (
+    <svg viewBox={`0 0 ${size.width} ${size.height}`} style={style} role="img" aria-label={alt}>
+      <defs>
+        <clipPath id={clipId}>
+          <rect x={crop.x} y={crop.y} width={crop.width} height={crop.height} />
+        </clipPath>
+      </defs>
+      <g transform={`translate(${size.width / 2} ${size.height / 2}) rotate(${edits.rotation}) translate(${-(crop.x + crop.width / 2)} ${-(crop.y + crop.height / 2)})`}>
+        <g clipPath={`url(#${clipId})`}>
+          <image href={src} width={edits.naturalWidth} height={edits.naturalHeight} />
+          {edits.annotations.map((annotation, index) => renderAnnotation(annotation, index))}
+        </g>
+      </g>
+    </svg>
+  );
+};
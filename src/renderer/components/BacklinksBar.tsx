@@ -0,0 +1,56 @@
+import React, { useState, useEffect } from 'react';
+import { StickyNote, NoteLinkInfo } from '../../types';
+
+interface BacklinksBarProps {
+  note: StickyNote;
+}
+
+/**
+ * この付箋を「[[タイトル]]」で参照している付箋の一覧（編集モードの付箋の下部に表示）
+ * 他の付箋の変更はウィンドウがフォーカスを得たときに取り直す
+ */
+export const BacklinksBar: React.FC<BacklinksBarProps> = ({ note }) => {
+  const [backlinks, setBacklinks] = useState<NoteLinkInfo[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadBacklinks = () => {
+      window.electronAPI.getBacklinks(note.id)
+        .then(result => {
+          if (!cancelled) setBacklinks(result);
+        })
+        .catch(error => console.error('Failed to get backlinks:', error));
+    };
+
+    loadBacklinks();
+    window.addEventListener('focus', loadBacklinks);
+    return () => {
+      cancelled = true;
+      window.removeEventListener('focus', loadBacklinks);
+    };
+  }, [note.id, note.updatedAt]);
+
+  if (backlinks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="backlinks-bar" title="この付箋を参照している付箋">
+      <span className="backlinks-label">← 参照元:</span>
+      {backlinks.map(backlink => (
+        <span
+          key={backlink.noteId}
+          className="backlink-chip"
+          title={backlink.title}
+          onClick={(e) => {
+            e.stopPropagation();
+            window.electronAPI.openNoteById(backlink.noteId)
+              .catch(error => console.error('Failed to open backlink:', error));
+          }}
+        >
+          {backlink.title}
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { CODE_LANGUAGES, highlightCode } from '../../utils/syntaxHighlight';
+
+interface CodeBlockEditorProps {
+  code: string;
+  language: string;
+  isActive: boolean;
+  onChange?: (code: string, language: string) => void;
+  onRemove?: () => void;
+  onBlur?: () => void;
+}
+
+const INDENT = '  ';
+
+/**
+ * コードブロック（等幅表示・簡易的な色分け・コピーボタン付き）
+ * 編集時は色分けしたコードの上に透明なtextareaを重ねて入力させる
+ */
+export const CodeBlockEditor: React.FC<CodeBlockEditorProps> = ({ code, language, isActive, onChange, onRemove, onBlur }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  // Tabでインデントを挿入（フォーカスを移動させない）
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab' || !onChange) return;
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    onChange(code.substring(0, selectionStart) + INDENT + code.substring(selectionEnd), language);
+    setTimeout(() => textarea.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length), 0);
+  };
+
+  // 末尾の改行も高さに反映されるよう空白を足す
+  const highlighted = (
+    <>
+      {highlightCode(code, language).map((token, index) => (
+        <span key={index} className={`code-token-${token.type}`}>{token.text}</span>
+      ))}
+      {code.endsWith('\n') || !code ? ' ' : ''}
+    </>
+  );
+
+  return (
+    <div className="code-block" onClick={(e) => isActive && e.stopPropagation()}>
+      <div className="code-block-header">
+        {isActive && onChange ? (
+          <input
+            className="code-block-language"
+            value={language}
+            list="code-block-languages"
+            placeholder="言語"
+            onChange={(e) => onChange(code, e.target.value)}
+            onBlur={onBlur}
+          />
+        ) : (
+          <span className="code-block-language-label">{language}</span>
+        )}
+        <datalist id="code-block-languages">
+          {CODE_LANGUAGES.map(name => <option key={name} value={name} />)}
+        </datalist>
+        <button className="code-block-button" onClick={handleCopy} title="コードをコピー">
+          {copied ? 'コピーしました' : 'コピー'}
+        </button>
+        {isActive && onRemove && (
+          <button className="code-block-button" onClick={onRemove} title="コードブロックを削除">×</button>
+        )}
+      </div>
+      <div className="code-block-body">
+        <pre className="code-block-highlight" aria-hidden={isActive}>{highlighted}</pre>
+        {isActive && onChange && (
+          <textarea
+            className="code-block-input"
+            value={code}
+            spellCheck={false}
+            onChange={(e) => onChange(e.target.value, language)}
+            onKeyDown={handleKeyDown}
+            onBlur={onBlur}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
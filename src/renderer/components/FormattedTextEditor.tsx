@@ -0,0 +1,540 @@
+import React, { forwardRef, useRef, useState, useEffect, useLayoutEffect, useImperativeHandle, useCallback } from 'react';
+import { TextMark, TextMarkType } from '../../types';
+import { getWikiLinkQuery, normalizeNoteTitle } from '../../utils/wikiLinkUtils';
+import {
+  adjustMarksForTextChange,
+  FormattedText,
+  getMarkSegments,
+  isMarkActive,
+  normalizeMarks,
+  removeMarkRange,
+  toggleMark
+} from '../../utils/textMarkUtils';
+
+// StickyNoteAppからエディタを操作するためのハンドル（textareaと同じ使い方ができる範囲）
+export interface NoteEditorHandle {
+  focus: () => void;
+  readonly value: string;
+  setSelectionRange: (start: number, end: number) => void;
+}
+
+interface FormattedTextEditorProps {
+  value: FormattedText;
+  placeholder?: string;
+  className?: string;
+  style?: React.CSSProperties;
+  onChange: (value: FormattedText) => void;
+  onBlur?: () => void;
+  onCaretClick?: (e: React.MouseEvent<HTMLDivElement>, text: string, position: number) => void;
+  onKeyDown?: (e: React.KeyboardEvent<HTMLDivElement>, text: string, position: number) => void;
+  onContextMenu?: (e: React.MouseEvent<HTMLDivElement>, text: string, position: number) => void;
+  linkSuggestions?: string[]; // 「[[」の入力時に補完候補として表示する付箋のタイトル
+}
+
+type SelectionOffsets = { start: number; end: number };
+
+const TEXT_COLORS = ['#e53935', '#1e88e5', '#43a047'];
+const HIGHLIGHT_COLORS = ['#fff59d', '#b3e5fc', '#f8bbd0'];
+const ALL_MARK_TYPES: TextMarkType[] = ['bold', 'italic', 'strikethrough', 'underline', 'code', 'color', 'highlight'];
+const MAX_LINK_SUGGESTIONS = 8;
+
+const MARK_BUTTONS: { type: TextMarkType; label: string; title: string; style: React.CSSProperties }[] = [
+  { type: 'bold', label: 'B', title: '太字 (Ctrl+B)', style: { fontWeight: 'bold' } },
+  { type: 'italic', label: 'I', title: '斜体 (Ctrl+I)', style: { fontStyle: 'italic' } },
+  { type: 'underline', label: 'U', title: '下線 (Ctrl+U)', style: { textDecoration: 'underline' } },
+  { type: 'strikethrough', label: 'S', title: '取り消し線 (Ctrl+Shift+X)', style: { textDecoration: 'line-through' } },
+  { type: 'code', label: '</>', title: 'インラインコード (Ctrl+E)', style: { fontFamily: 'monospace' } }
+];
+
+/**
+ * 書式の表示スタイル（編集時と非アクティブ時の表示で共通）
+ */
+export const getMarkStyle = (marks: TextMark[]): React.CSSProperties => {
+  const style: React.CSSProperties = {};
+  const decorations: string[] = [];
+
+  marks.forEach(mark => {
+    switch (mark.type) {
+      case 'bold':
+        style.fontWeight = 'bold';
+        break;
+      case 'italic':
+        style.fontStyle = 'italic';
+        break;
+      case 'underline':
+        decorations.push('underline');
+        break;
+      case 'strikethrough':
+        decorations.push('line-through');
+        break;
+      case 'code':
+        style.fontFamily = 'Consolas, "Courier New", monospace';
+        style.backgroundColor = style.backgroundColor || 'rgba(0, 0, 0, 0.08)';
+        style.borderRadius = '3px';
+        break;
+      case 'color':
+        style.color = mark.value;
+        break;
+      case 'highlight':
+        style.backgroundColor = mark.value;
+        break;
+    }
+  });
+
+  if (decorations.length > 0) {
+    style.textDecoration = decorations.join(' ');
+  }
+  return style;
+};
+
+/**
+ * 書式付きテキストをDOMに描画
+ * 書式のある部分は書式をdata-marksに持つspanにし、DOMから書式を読み戻せるようにする
+ */
+const renderInto = (root: HTMLElement, value: FormattedText) => {
+  root.textContent = '';
+  getMarkSegments(value.text, value.marks).forEach(segment => {
+    if (segment.marks.length === 0) {
+      root.appendChild(document.createTextNode(segment.text));
+      return;
+    }
+    const span = document.createElement('span');
+    span.dataset.marks = JSON.stringify(segment.marks.map(({ type, value: markValue }) => ({ type, value: markValue })));
+    Object.assign(span.style, getMarkStyle(segment.marks));
+    span.textContent = segment.text;
+    root.appendChild(span);
+  });
+  // 末尾の改行は後ろに要素がないと表示されないため、読み戻し時に無視する<br>を追加
+  if (value.text.endsWith('\n')) {
+    root.appendChild(document.createElement('br'));
+  }
+};
+
+const getNodeMarks = (node: Node): Omit<TextMark, 'start' | 'end'>[] => {
+  const span = node.parentElement?.closest<HTMLElement>('span[data-marks]');
+  if (!span || !span.dataset.marks) return [];
+  try {
+    return JSON.parse(span.dataset.marks);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * DOMから書式付きテキストを読み取る
+ * 改行は\n・<br>・ブロック要素のいずれでも入りうるため、すべて\nとして扱う
+ */
+const readFrom = (root: Node, stripTrailingBreak: boolean): FormattedText => {
+  let text = '';
+  const marks: TextMark[] = [];
+
+  const walk = (node: Node) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        const data = (child as Text).data;
+        if (!data) return;
+        const start = text.length;
+        text += data;
+        getNodeMarks(child).forEach(mark => marks.push({ ...mark, start, end: text.length }));
+      } else if (child.nodeName === 'BR') {
+        text += '\n';
+      } else if (child.nodeName === 'DIV' || child.nodeName === 'P') {
+        if (text.length > 0 && !text.endsWith('\n')) text += '\n';
+        walk(child);
+      } else {
+        walk(child);
+      }
+    });
+  };
+  walk(root);
+
+  if (stripTrailingBreak && root.lastChild?.nodeName === 'BR') {
+    text = text.slice(0, -1);
+  }
+  return { text, marks: normalizeMarks(marks, text.length) };
+};
+
+const getTextOffset = (root: HTMLElement, node: Node, offset: number): number => {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(node, offset);
+  const container = document.createElement('div');
+  container.appendChild(range.cloneContents());
+  return readFrom(container, false).text.length;
+};
+
+const getSelectionOffsets = (root: HTMLElement): SelectionOffsets | null => {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+  return {
+    start: getTextOffset(root, range.startContainer, range.startOffset),
+    end: getTextOffset(root, range.endContainer, range.endOffset)
+  };
+};
+
+const findPosition = (root: HTMLElement, target: number): { node: Node; offset: number } => {
+  let count = 0;
+  let result: { node: Node; offset: number } | null = null;
+
+  const walk = (node: Node) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (result) return;
+      if (child.nodeType === Node.TEXT_NODE) {
+        const length = (child as Text).data.length;
+        if (count + length >= target) {
+          result = { node: child, offset: target - count };
+          return;
+        }
+        count += length;
+      } else if (child.nodeName === 'BR') {
+        if (count === target) {
+          result = { node, offset: Array.from(node.childNodes).indexOf(child) };
+          return;
+        }
+        count += 1;
+      } else {
+        walk(child);
+      }
+    }
+  };
+  walk(root);
+
+  return result || { node: root, offset: root.childNodes.length };
+};
+
+const setSelectionOffsets = (root: HTMLElement, start: number, end: number) => {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const startPosition = findPosition(root, start);
+  const endPosition = findPosition(root, end);
+  const range = document.createRange();
+  range.setStart(startPosition.node, startPosition.offset);
+  range.setEnd(endPosition.node, endPosition.offset);
+  selection.removeAllRanges();
+  selection.addRange(range);
+};
+
+const isSameFormattedText = (a: FormattedText, b: FormattedText): boolean =>
+  a.text === b.text && JSON.stringify(a.marks) === JSON.stringify(b.marks);
+
+/**
+ * 書式（太字・斜体・取り消し線・下線・文字色・マーカー・インラインコード）を付けられるテキストエディタ
+ * テキストを選択すると書式ツールバーを表示する
+ */
+export const FormattedTextEditor = forwardRef<NoteEditorHandle, FormattedTextEditorProps>(
+  ({ value, placeholder, className, style, onChange, onBlur, onCaretClick, onKeyDown, onContextMenu, linkSuggestions }, ref) => {
+    const editorRef = useRef<HTMLDivElement>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    // DOMに表示中の内容（入力のたびにDOMから読み取って更新）
+    const currentRef = useRef<FormattedText>(value);
+    const isRenderedRef = useRef(false);
+    const [toolbar, setToolbar] = useState<{ top: number; left: number; selection: SelectionOffsets } | null>(null);
+    const [suggestions, setSuggestions] = useState<{
+      top: number;
+      left: number;
+      start: number; // 「[[」の位置
+      caret: number;
+      titles: string[];
+      selectedIndex: number;
+    } | null>(null);
+
+    useImperativeHandle(ref, () => ({
+      focus: () => editorRef.current?.focus(),
+      get value() {
+        return currentRef.current.text;
+      },
+      setSelectionRange: (start: number, end: number) => {
+        if (editorRef.current) setSelectionOffsets(editorRef.current, start, end);
+      }
+    }), []);
+
+    // 外部で内容が変わった場合のみDOMを書き換える（入力中に書き換えるとカーソルやIMEの変換が崩れるため）
+    useLayoutEffect(() => {
+      const root = editorRef.current;
+      if (!root || (isRenderedRef.current && isSameFormattedText(value, currentRef.current))) return;
+
+      const selection = document.activeElement === root ? getSelectionOffsets(root) : null;
+      renderInto(root, value);
+      currentRef.current = value;
+      isRenderedRef.current = true;
+      if (selection) {
+        setSelectionOffsets(root, Math.min(selection.start, value.text.length), Math.min(selection.end, value.text.length));
+      }
+    }, [value]);
+
+    const emitChange = useCallback((next: FormattedText) => {
+      currentRef.current = next;
+      onChange(next);
+    }, [onChange]);
+
+    const handleInput = () => {
+      if (editorRef.current) {
+        emitChange(readFrom(editorRef.current, true));
+      }
+    };
+
+    // 選択範囲に書式を適用し、DOMを描画し直して選択範囲を戻す
+    const updateMarks = (update: (marks: TextMark[], selection: SelectionOffsets, textLength: number) => TextMark[]) => {
+      const root = editorRef.current;
+      const selection = root ? getSelectionOffsets(root) : null;
+      if (!root || !selection || selection.start === selection.end) return;
+
+      const current = readFrom(root, true);
+      const next = { text: current.text, marks: update(current.marks, selection, current.text.length) };
+      renderInto(root, next);
+      setSelectionOffsets(root, selection.start, selection.end);
+      emitChange(next);
+      updateToolbar();
+    };
+
+    const applyMark = (type: TextMarkType, markValue?: string) => {
+      updateMarks((marks, selection, textLength) =>
+        toggleMark(marks, type, selection.start, selection.end, textLength, markValue)
+      );
+    };
+
+    const clearMarks = () => {
+      updateMarks((marks, selection) =>
+        ALL_MARK_TYPES.reduce((result, type) => removeMarkRange(result, type, selection.start, selection.end), marks)
+      );
+    };
+
+    // 選択範囲の上（入らない場合は下）にツールバーを表示
+    const updateToolbar = useCallback(() => {
+      const root = editorRef.current;
+      const container = containerRef.current;
+      const domSelection = window.getSelection();
+      if (!root || !container || !domSelection || domSelection.rangeCount === 0 || domSelection.isCollapsed) {
+        setToolbar(null);
+        return;
+      }
+      const selection = getSelectionOffsets(root);
+      if (!selection || selection.start === selection.end) {
+        setToolbar(null);
+        return;
+      }
+
+      const rangeRect = domSelection.getRangeAt(0).getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+      const toolbarHeight = 28;
+      const top = rangeRect.top - containerRect.top - toolbarHeight - 4;
+      setToolbar({
+        top: top >= 0 ? top : rangeRect.bottom - containerRect.top + 4,
+        left: Math.max(0, Math.min(rangeRect.left - containerRect.left, containerRect.width - 220)),
+        selection
+      });
+    }, []);
+
+    // カーソルが入力途中の「[[」の中にある場合、タイトルの補完候補をカーソルの下に表示
+    const updateSuggestions = useCallback(() => {
+      const root = editorRef.current;
+      const container = containerRef.current;
+      const domSelection = window.getSelection();
+      const selection = root ? getSelectionOffsets(root) : null;
+      const wikiQuery = selection && selection.start === selection.end
+        ? getWikiLinkQuery(currentRef.current.text, selection.start)
+        : null;
+      if (!container || !domSelection || domSelection.rangeCount === 0 || !selection || !wikiQuery || !linkSuggestions) {
+        setSuggestions(null);
+        return;
+      }
+
+      const query = normalizeNoteTitle(wikiQuery.query);
+      const titles = linkSuggestions
+        .filter(title => normalizeNoteTitle(title).includes(query))
+        .slice(0, MAX_LINK_SUGGESTIONS);
+      if (titles.length === 0) {
+        setSuggestions(null);
+        return;
+      }
+
+      const rangeRect = domSelection.getRangeAt(0).getBoundingClientRect();
+      const containerRect = container.getBoundingClientRect();
+      setSuggestions(prev => ({
+        top: rangeRect.bottom - containerRect.top + 4,
+        left: Math.max(0, Math.min(rangeRect.left - containerRect.left, containerRect.width - 200)),
+        start: wikiQuery.start,
+        caret: selection.start,
+        titles,
+        selectedIndex: prev && prev.start === wikiQuery.start ? Math.min(prev.selectedIndex, titles.length - 1) : 0
+      }));
+    }, [linkSuggestions]);
+
+    useEffect(() => {
+      const handleSelectionChange = () => {
+        updateToolbar();
+        updateSuggestions();
+      };
+      document.addEventListener('selectionchange', handleSelectionChange);
+      return () => document.removeEventListener('selectionchange', handleSelectionChange);
+    }, [updateToolbar, updateSuggestions]);
+
+    // 入力途中の「[[...」を選択したタイトルの「[[タイトル]]」に置き換え、カーソルを後ろに移動
+    const insertLink = (title: string) => {
+      const root = editorRef.current;
+      if (!root || !suggestions) return;
+
+      const current = currentRef.current;
+      const text = current.text.substring(0, suggestions.start) + `[[${title}]]` + current.text.substring(suggestions.caret);
+      const next = { text, marks: adjustMarksForTextChange(current.marks, current.text, text) };
+      renderInto(root, next);
+      const caret = suggestions.start + title.length + 4;
+      setSelectionOffsets(root, caret, caret);
+      emitChange(next);
+      setSuggestions(null);
+    };
+
+    const getCaretPosition = (): number => {
+      const selection = editorRef.current ? getSelectionOffsets(editorRef.current) : null;
+      return selection ? selection.start : 0;
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+      // 補完候補の表示中は上下キーで選択、Enter・Tabで確定、Escで閉じる
+      if (suggestions && !e.nativeEvent.isComposing) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          const count = suggestions.titles.length;
+          setSuggestions({ ...suggestions, selectedIndex: (suggestions.selectedIndex + step + count) % count });
+          return;
+        }
+        if (e.key === 'Enter' || e.key === 'Tab') {
+          e.preventDefault();
+          insertLink(suggestions.titles[suggestions.selectedIndex]);
+          return;
+        }
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          setSuggestions(null);
+          return;
+        }
+      }
+
+      if (e.ctrlKey || e.metaKey) {
+        const key = e.key.toLowerCase();
+        const shortcut: TextMarkType | null =
+          !e.shiftKey && key === 'b' ? 'bold' :
+          !e.shiftKey && key === 'i' ? 'italic' :
+          !e.shiftKey && key === 'u' ? 'underline' :
+          !e.shiftKey && key === 'e' ? 'code' :
+          e.shiftKey && key === 'x' ? 'strikethrough' :
+          e.shiftKey && key === 'h' ? 'highlight' :
+          null;
+        if (shortcut) {
+          e.preventDefault();
+          if (shortcut === 'highlight') {
+            // マーカーは適用済みなら解除、そうでなければ黄色で適用
+            const selection = editorRef.current ? getSelectionOffsets(editorRef.current) : null;
+            const isActive = !!selection && isMarkActive(currentRef.current.marks, 'highlight', selection.start, selection.end);
+            applyMark('highlight', isActive ? undefined : HIGHLIGHT_COLORS[0]);
+          } else {
+            applyMark(shortcut);
+          }
+          return;
+        }
+      }
+      onKeyDown?.(e, currentRef.current.text, getCaretPosition());
+    };
+
+    const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+      const selection = editorRef.current ? getSelectionOffsets(editorRef.current) : null;
+      if (selection && selection.start === selection.end) {
+        onCaretClick?.(e, currentRef.current.text, selection.start);
+      }
+    };
+
+    const isActiveMark = (type: TextMarkType): boolean =>
+      !!toolbar && isMarkActive(currentRef.current.marks, type, toolbar.selection.start, toolbar.selection.end);
+
+    return (
+      <div ref={containerRef} className="formatted-editor-container">
+        <div
+          ref={editorRef}
+          className={`${className || ''} formatted-editor`}
+          style={style}
+          contentEditable="plaintext-only"
+          suppressContentEditableWarning
+          spellCheck={false}
+          data-placeholder={placeholder}
+          onInput={handleInput}
+          onKeyDown={handleKeyDown}
+          onClick={handleClick}
+          onBlur={() => {
+            setToolbar(null);
+            setSuggestions(null);
+            onBlur?.();
+          }}
+          onContextMenu={(e) => onContextMenu?.(e, currentRef.current.text, getCaretPosition())}
+        />
+
+        {toolbar && (
+          <div
+            className="formatted-toolbar"
+            style={{ top: toolbar.top, left: toolbar.left }}
+            // ボタンを押しても選択範囲が外れないようにする
+            onMouseDown={(e) => e.preventDefault()}
+          >
+            {MARK_BUTTONS.map(button => (
+              <button
+                key={button.type}
+                className={`formatted-toolbar-button ${isActiveMark(button.type) ? 'active' : ''}`}
+                style={button.style}
+                title={button.title}
+                onClick={() => applyMark(button.type)}
+              >
+                {button.label}
+              </button>
+            ))}
+            <span className="formatted-toolbar-separator" />
+            {TEXT_COLORS.map(color => (
+              <button
+                key={color}
+                className="formatted-toolbar-button"
+                style={{ color, fontWeight: 'bold' }}
+                title="文字色"
+                onClick={() => applyMark('color', color)}
+              >
+                A
+              </button>
+            ))}
+            {HIGHLIGHT_COLORS.map(color => (
+              <button
+                key={color}
+                className="formatted-toolbar-swatch"
+                style={{ background: color }}
+                title="マーカー (Ctrl+Shift+H)"
+                onClick={() => applyMark('highlight', color)}
+              />
+            ))}
+            <span className="formatted-toolbar-separator" />
+            <button className="formatted-toolbar-button" title="書式をクリア" onClick={clearMarks}>
+              ✕
+            </button>
+          </div>
+        )}
+
+        {suggestions && (
+          <div
+            className="wiki-link-suggestions"
+            style={{ top: suggestions.top, left: suggestions.left }}
+            // 候補を押してもエディタのフォーカスが外れないようにする
+            onMouseDown={(e) => e.preventDefault()}
+          >
+            {suggestions.titles.map((title, index) => (
+              <div
+                key={title}
+                className={`wiki-link-suggestion ${index === suggestions.selectedIndex ? 'selected' : ''}`}
+                onClick={() => insertLink(title)}
+              >
+                {title}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
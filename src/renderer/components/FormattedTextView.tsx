@@ -0,0 +1,107 @@
+import React, { memo } from 'react';
+import { FormattedText, getMarkSegments } from '../../utils/textMarkUtils';
+import { findLinks, getAllowedLinkKind } from '../../utils/linkUtils';
+import { findWikiLinks } from '../../utils/wikiLinkUtils';
+import { getMarkStyle } from './FormattedTextEditor';
+import { LinkLabel } from './LinkLabel';
+
+interface FormattedTextViewProps {
+  value: FormattedText;
+  className?: string;
+  style?: React.CSSProperties;
+  onLinkClick?: (url: string) => void; // 指定がある場合リンクをクリックで開く
+  onWikiLinkClick?: (title: string) => void; // 指定がある場合「[[タイトル]]」をクリックで開く
+}
+
+// クリックできる範囲（URLのリンクまたは付箋間リンク）
+interface ClickableRange {
+  start: number;
+  end: number;
+  url?: string;
+  wikiTitle?: string;
+}
+
+/**
+ * 書式付きテキストの表示（非アクティブ時用）
+ */
+export const FormattedTextView: React.FC<FormattedTextViewProps> = memo(({ value, className, style, onLinkClick, onWikiLinkClick }) => {
+  const links: ClickableRange[] = [
+    ...(onLinkClick
+      ? findLinks(value.text).filter(link => getAllowedLinkKind(link.url) !== null)
+      : []),
+    ...(onWikiLinkClick
+      ? findWikiLinks(value.text).map(link => ({ start: link.start, end: link.end, wikiTitle: link.title }))
+      : [])
+  ];
+
+  // 書式の区切りをさらにリンクの境界で区切る
+  const pieces = getMarkSegments(value.text, value.marks).flatMap(segment => {
+    const points = new Set([segment.start, segment.end]);
+    links.forEach(link => {
+      if (link.start > segment.start && link.start < segment.end) points.add(link.start);
+      if (link.end > segment.start && link.end < segment.end) points.add(link.end);
+    });
+    const sorted = Array.from(points).sort((a, b) => a - b);
+    return sorted.slice(0, -1).map((start, index) => ({
+      start,
+      end: sorted[index + 1],
+      marks: segment.marks,
+      link: links.find(link => link.start <= start && link.end >= sorted[index + 1])
+    }));
+  });
+
+  return (
+    <div className={`${className || ''} formatted-view`} style={style}>
+      {pieces.map(piece => {
+        const text = value.text.substring(piece.start, piece.end);
+        const pieceStyle = piece.marks.length > 0 ? getMarkStyle(piece.marks) : undefined;
+
+        if (piece.link?.wikiTitle && onWikiLinkClick) {
+          const title = piece.link.wikiTitle;
+          return (
+            <span
+              key={piece.start}
+              className="formatted-link formatted-wiki-link"
+              style={pieceStyle}
+              title={title}
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onWikiLinkClick(title);
+              }}
+            >
+              {text}
+            </span>
+          );
+        }
+
+        if (piece.link?.url && onLinkClick) {
+          const url = piece.link.url;
+          // リンク全体が1つの区切りに収まる場合はページタイトルで表示
+          const isWholeLink = piece.start === piece.link.start && piece.end === piece.link.end;
+          return (
+            <span
+              key={piece.start}
+              className="formatted-link"
+              style={pieceStyle}
+              title={url}
+              onClick={(e) => {
+                e.preventDefault();
+                e.stopPropagation();
+                onLinkClick(url);
+              }}
+            >
+              {isWholeLink ? <LinkLabel url={url} /> : text}
+            </span>
+          );
+        }
+
+        return pieceStyle ? (
+          <span key={piece.start} style={pieceStyle}>{text}</span>
+        ) : (
+          <React.Fragment key={piece.start}>{text}</React.Fragment>
+        );
+      })}
+    </div>
+  );
+});
@@ -0,0 +1,249 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ImageAnnotation, ImageEdits } from '../../types';
+import { getCropRect, renderAnnotation } from './AnnotatedImage';
+
+interface ImageEditorPanelProps {
+  src: string;
+  edits?: ImageEdits;
+  onSave: (edits: ImageEdits | null) => void;
+  onClose: () => void;
+}
+
+type EditorTool = 'crop' | 'arrow' | 'rect' | 'freehand' | 'text';
+type Point = { x: number; y: number };
+
+const TOOLS: { tool: EditorTool; label: string; title: string }[] = [
+  { tool: 'crop', label: '✂', title: '切り抜き' },
+  { tool: 'arrow', label: '↗', title: '矢印' },
+  { tool: 'rect', label: '□', title: '四角形' },
+  { tool: 'freehand', label: '✎', title: '手書き' },
+  { tool: 'text', label: 'T', title: '文字' }
+];
+
+const COLORS = ['#e53935', '#1e88e5', '#43a047', '#fdd835', '#000000'];
+
+const toRect = (start: Point, end: Point) => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y)
+});
+
+/**
+ * 画像の切り抜き・回転・注釈を編集するパネル
+ * 編集は元画像の座標で行い、保存時はmetadata.editsとして返す（元画像は変更しない）
+ */
+export const ImageEditorPanel: React.FC<ImageEditorPanelProps> = ({ src, edits: initialEdits, onSave, onClose }) => {
+  const [edits, setEdits] = useState<ImageEdits | null>(initialEdits || null);
+  const [tool, setTool] = useState<EditorTool>('arrow');
+  const [color, setColor] = useState(COLORS[0]);
+  const [labelText, setLabelText] = useState('');
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragPoints, setDragPoints] = useState<Point[]>([]);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // 初回編集時は元画像のサイズを取得
+  useEffect(() => {
+    if (initialEdits) return;
+    const img = new Image();
+    img.onload = () => {
+      setEdits({ naturalWidth: img.naturalWidth, naturalHeight: img.naturalHeight, rotation: 0, annotations: [] });
+    };
+    img.src = src;
+  }, [src, initialEdits]);
+
+  if (!edits) {
+    return <div className="image-editor-panel"><div className="image-editor-message">読み込み中...</div></div>;
+  }
+
+  // 線の太さと文字サイズは画像の大きさに合わせる
+  const baseSize = Math.max(edits.naturalWidth, edits.naturalHeight);
+  const strokeWidth = Math.max(2, baseSize / 150);
+  const fontSize = Math.max(12, baseSize / 20);
+
+  const toImagePoint = (e: React.MouseEvent): Point => {
+    const svg = svgRef.current!;
+    const point = svg.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const imagePoint = point.matrixTransform(svg.getScreenCTM()!.inverse());
+    return {
+      x: Math.min(Math.max(imagePoint.x, 0), edits.naturalWidth),
+      y: Math.min(Math.max(imagePoint.y, 0), edits.naturalHeight)
+    };
+  };
+
+  // ドラッグ中の図形（確定前の表示用）
+  const buildAnnotation = (start: Point, points: Point[]): ImageAnnotation | null => {
+    const end = points[points.length - 1] || start;
+    switch (tool) {
+      case 'arrow':
+        return { type: 'arrow', color, strokeWidth, x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+      case 'rect':
+        return { type: 'rect', color, strokeWidth, ...toRect(start, end) };
+      case 'freehand':
+        return { type: 'freehand', color, strokeWidth, points: [start, ...points] };
+      default:
+        return null;
+    }
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.preventDefault();
+    const point = toImagePoint(e);
+
+    if (tool === 'text') {
+      if (labelText.trim()) {
+        setEdits({
+          ...edits,
+          annotations: [...edits.annotations, { type: 'text', color, fontSize, x: point.x, y: point.y, text: labelText.trim() }]
+        });
+      }
+      return;
+    }
+
+    setDragStart(point);
+    setDragPoints([]);
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!dragStart) return;
+    const point = toImagePoint(e);
+    setDragPoints(points => tool === 'freehand' ? [...points, point] : [point]);
+  };
+
+  const handleMouseUp = () => {
+    if (!dragStart) return;
+    const end = dragPoints[dragPoints.length - 1];
+    setDragStart(null);
+    setDragPoints([]);
+
+    // クリックしただけの場合は何もしない
+    if (!end || Math.hypot(end.x - dragStart.x, end.y - dragStart.y) < strokeWidth) return;
+
+    if (tool === 'crop') {
+      const crop = toRect(dragStart, end);
+      setEdits({ ...edits, crop: { x: Math.round(crop.x), y: Math.round(crop.y), width: Math.round(crop.width), height: Math.round(crop.height) } });
+      return;
+    }
+
+    const annotation = buildAnnotation(dragStart, dragPoints);
+    if (annotation) {
+      setEdits({ ...edits, annotations: [...edits.annotations, annotation] });
+    }
+  };
+
+  const rotate = (delta: 90 | -90) => {
+    setEdits({ ...edits, rotation: ((edits.rotation + delta + 360) % 360) as ImageEdits['rotation'] });
+  };
+
+  const undoLastAnnotation = () => {
+    setEdits({ ...edits, annotations: edits.annotations.slice(0, -1) });
+  };
+
+  const resetToOriginal = () => {
+    setEdits({ naturalWidth: edits.naturalWidth, naturalHeight: edits.naturalHeight, rotation: 0, annotations: [] });
+  };
+
+  const handleSave = () => {
+    const hasEdits = !!edits.crop || edits.rotation !== 0 || edits.annotations.length > 0;
+    onSave(hasEdits ? edits : null);
+  };
+
+  const crop = getCropRect(edits);
+  const draftAnnotation = dragStart && tool !== 'crop' ? buildAnnotation(dragStart, dragPoints) : null;
+  const draftCrop = dragStart && tool === 'crop' && dragPoints.length > 0
+    ? toRect(dragStart, dragPoints[dragPoints.length - 1])
+    : null;
+  const visibleCrop = draftCrop || crop;
+
+  return (
+    <div
+      className="image-editor-panel"
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+    >
+      <div className="image-editor-toolbar">
+        {TOOLS.map(item => (
+          <button
+            key={item.tool}
+            className={`image-editor-button ${tool === item.tool ? 'active' : ''}`}
+            onClick={() => setTool(item.tool)}
+            title={item.title}
+          >
+            {item.label}
+          </button>
+        ))}
+        <button className="image-editor-button" onClick={() => rotate(-90)} title="左に回転">↺</button>
+        <button className="image-editor-button" onClick={() => rotate(90)} title="右に回転">↻</button>
+        {COLORS.map(swatch => (
+          <button
+            key={swatch}
+            className={`image-editor-swatch ${color === swatch ? 'active' : ''}`}
+            style={{ background: swatch }}
+            onClick={() => setColor(swatch)}
+            title={swatch}
+          />
+        ))}
+      </div>
+
+      {tool === 'text' && (
+        <div className="image-editor-toolbar">
+          <input
+            className="image-editor-text-input"
+            value={labelText}
+            onChange={(e) => setLabelText(e.target.value)}
+            placeholder="文字を入力して画像をクリック"
+          />
+        </div>
+      )}
+
+      <div className="image-editor-stage">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${edits.naturalWidth} ${edits.naturalHeight}`}
+          className="image-editor-canvas"
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
+        >
+          <image href={src} width={edits.naturalWidth} height={edits.naturalHeight} />
+          {edits.annotations.map((annotation, index) => renderAnnotation(annotation, index))}
+          {draftAnnotation && renderAnnotation(draftAnnotation, 'draft')}
+          {/* 切り抜き範囲外を暗く表示 */}
+          <path
+            d={`M0,0 H${edits.naturalWidth} V${edits.naturalHeight} H0 Z M${visibleCrop.x},${visibleCrop.y} v${visibleCrop.height} h${visibleCrop.width} v${-visibleCrop.height} Z`}
+            fill="rgba(0, 0, 0, 0.45)"
+            fillRule="evenodd"
+            pointerEvents="none"
+          />
+          <rect
+            x={visibleCrop.x} y={visibleCrop.y} width={visibleCrop.width} height={visibleCrop.height}
+            fill="none" stroke="white" strokeWidth={strokeWidth / 2} strokeDasharray={`${strokeWidth * 2} ${strokeWidth}`}
+            pointerEvents="none"
+          />
+        </svg>
+      </div>
+
+      <div className="image-editor-toolbar">
+        <span className="image-editor-status">{edits.rotation !== 0 ? `回転 ${edits.rotation}°` : ''}</span>
+        <button
+          className="image-editor-button"
+          onClick={undoLastAnnotation}
+          disabled={edits.annotations.length === 0}
+          title="最後の注釈を取り消す"
+        >
+          取り消し
+        </button>
+        <button className="image-editor-button" onClick={resetToOriginal} title="切り抜き・回転・注釈をすべて解除">
+          元の画像に戻す
+        </button>
+        <button className="image-editor-button" onClick={onClose}>キャンセル</button>
+        <button className="image-editor-button primary" onClick={handleSave}>保存</button>
+      </div>
+    </div>
+  );
+};
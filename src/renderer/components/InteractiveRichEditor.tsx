@@ -1,5 +1,12 @@
 import React, { useRef, useCallback, useState, useEffect } from 'react';
-import { ContentBlock, RichContent, StickyNote } from '../../types';
+import { ContentBlock, ContentBlockType, RichContent, StickyNote, ImageEdits, TextMark } from '../../types';
+import { AnnotatedImage, getEditedImageSize } from './AnnotatedImage';
+import { ImageEditorPanel } from './ImageEditorPanel';
+import { CodeBlockEditor } from './CodeBlockEditor';
+import { FormattedTextView } from './FormattedTextView';
+import { TableBlockEditor } from './TableBlockEditor';
+import { getTableRows } from '../../utils/blockTextUtils';
+import { adjustMarksForTextChange, joinFormattedLines, splitFormattedLines } from '../../utils/textMarkUtils';
 
 interface InteractiveRichEditorProps {
   note: StickyNote;
@@ -9,9 +16,11 @@ interface InteractiveRichEditorProps {
 }
 
 interface ContentLine {
-  type: 'text' | 'image';
+  type: ContentBlockType;
   id: string;
   content: string;
+  blockId?: string; // テキスト行の元のテキストブロックのID
+  marks?: TextMark[]; // テキスト行の書式（行内の位置）
   metadata?: any;
 }
 
@@ -24,6 +33,7 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
   const [draggedImageId, setDraggedImageId] = useState<string | null>(null);
   const [dropTargetIndex, setDropTargetIndex] = useState<number | null>(null);
   const [isEditingText, setIsEditingText] = useState(false);
+  const [editingImageId, setEditingImageId] = useState<string | null>(null);
 
   // content を行ベースの構造に変換
   const getContentLines = useCallback((): ContentLine[] => {
@@ -41,38 +51,29 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
       richContent = note.content;
     }
 
+    // ブロックの順序どおりに並べる（テキストブロックは行に分割）
     const lines: ContentLine[] = [];
-    let textLines: string[] = [];
-    
-    // テキストブロックを行に分割
     richContent.blocks.forEach(block => {
       if (block.type === 'text') {
-        textLines = textLines.concat(block.content.split('\n'));
+        splitFormattedLines({ text: block.content || '', marks: block.marks || [] }).forEach((line, index) => {
+          lines.push({
+            type: 'text',
+            id: `${block.id}-line-${index}`,
+            content: line.text,
+            blockId: block.id,
+            marks: line.marks
+          });
+        });
+      } else {
+        lines.push({
+          type: block.type,
+          id: block.id,
+          content: block.content,
+          metadata: block.metadata
+        });
       }
     });
 
-    // 画像ブロックを収集
-    const imageBlocks = richContent.blocks.filter(block => block.type === 'image');
-
-    // テキスト行を追加
-    textLines.forEach((line, index) => {
-      lines.push({
-        type: 'text',
-        id: `text-line-${index}`,
-        content: line
-      });
-    });
-
-    // 画像を最後に追加（後で位置調整可能）
-    imageBlocks.forEach(block => {
-      lines.push({
-        type: 'image',
-        id: block.id,
-        content: block.content,
-        metadata: block.metadata
-      });
-    });
-
     return lines;
   }, [note.content]);
 
@@ -83,30 +84,43 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
   }, [getContentLines]);
 
   // 行ベース構造をRichContentに変換
+  // 連続するテキスト行を1つのテキストブロックにまとめ、画像・コード・表はその位置のまま残す
   const linesToRichContent = useCallback((lines: ContentLine[]): RichContent => {
-    const textLines = lines.filter(line => line.type === 'text').map(line => line.content);
-    const imageBlocks = lines.filter(line => line.type === 'image');
-
     const blocks: ContentBlock[] = [];
+    const usedIds = new Set<string>();
+    let textRun: ContentLine[] = [];
 
-    // テキストブロックを作成
-    if (textLines.length > 0) {
+    const flushText = () => {
+      if (textRun.length === 0) return;
+      // 元のブロックIDを引き継ぐ（画像を挟んで分割された場合は後半に新しいIDを振る）
+      const blockId = textRun.map(line => line.blockId).find(id => id && !usedIds.has(id)) ||
+        `text-${Date.now()}-${blocks.length}`;
+      usedIds.add(blockId);
+
+      const formatted = joinFormattedLines(textRun.map(line => ({ text: line.content, marks: line.marks || [] })));
       blocks.push({
-        id: `text-${Date.now()}`,
+        id: blockId,
         type: 'text',
-        content: textLines.join('\n')
+        content: formatted.text,
+        ...(formatted.marks.length > 0 ? { marks: formatted.marks } : {})
       });
-    }
+      textRun = [];
+    };
 
-    // 画像ブロックを追加
-    imageBlocks.forEach(line => {
+    lines.forEach(line => {
+      if (line.type === 'text') {
+        textRun.push(line);
+        return;
+      }
+      flushText();
       blocks.push({
         id: line.id,
-        type: 'image',
+        type: line.type,
         content: line.content,
         metadata: line.metadata
       });
     });
+    flushText();
 
     return { blocks };
   }, []);
@@ -122,7 +136,12 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
   const updateTextLine = useCallback((lineIndex: number, newText: string) => {
     const newLines = [...contentLines];
     if (newLines[lineIndex] && newLines[lineIndex].type === 'text') {
-      newLines[lineIndex] = { ...newLines[lineIndex], content: newText };
+      const line = newLines[lineIndex];
+      newLines[lineIndex] = {
+        ...line,
+        content: newText,
+        marks: adjustMarksForTextChange(line.marks || [], line.content, newText)
+      };
       updateContent(newLines);
     }
   }, [contentLines, updateContent]);
@@ -138,9 +157,17 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
     updateContent(newLines);
   }, [contentLines, updateContent]);
 
-  // 画像を削除
-  const removeImage = useCallback((imageId: string) => {
-    const newLines = contentLines.filter(line => line.id !== imageId);
+  // 画像・コード・表を削除
+  const removeBlock = useCallback((blockId: string) => {
+    const newLines = contentLines.filter(line => line.id !== blockId);
+    updateContent(newLines);
+  }, [contentLines, updateContent]);
+
+  // コード・表の内容を更新
+  const updateBlock = useCallback((blockId: string, content: string, metadata: any) => {
+    const newLines = contentLines.map(line =>
+      line.id === blockId ? { ...line, content, metadata } : line
+    );
     updateContent(newLines);
   }, [contentLines, updateContent]);
 
@@ -152,6 +179,19 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
     updateContent(newLines);
   }, [contentLines, updateContent]);
 
+  // 画像の編集（切り抜き・回転・注釈）を保存
+  // 表示幅は保ったまま、編集後の縦横比に合わせて高さを変える
+  const saveImageEdits = useCallback((imageId: string, edits: ImageEdits | null, naturalSize: { width: number; height: number }) => {
+    const line = contentLines.find(item => item.id === imageId);
+    const width = line?.metadata?.width || 200;
+    const size = edits ? getEditedImageSize(edits) : naturalSize;
+    updateImage(imageId, {
+      edits: edits || undefined,
+      height: size.width > 0 ? width * (size.height / size.width) : line?.metadata?.height
+    });
+    setEditingImageId(null);
+  }, [contentLines, updateImage]);
+
   // 画像を指定位置に移動
   const moveImageToPosition = useCallback((imageId: string, targetIndex: number) => {
     const newLines = [...contentLines];
@@ -159,7 +199,8 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
     
     if (imageIndex !== -1) {
       const [imageItem] = newLines.splice(imageIndex, 1);
-      newLines.splice(targetIndex, 0, imageItem);
+      // 取り除いた分だけ後ろの位置が詰まるため、ドロップ位置を補正する
+      newLines.splice(imageIndex < targetIndex ? targetIndex - 1 : targetIndex, 0, imageItem);
       updateContent(newLines);
     }
   }, [contentLines, updateContent]);
@@ -174,22 +215,26 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
 
       const reader = new FileReader();
       reader.onload = (e) => {
+        const dataUrl = e.target?.result as string;
         const img = new Image();
-        img.onload = () => {
+        img.onload = async () => {
+          // 画像ファイルとして保存し、付箋には参照のみを持たせる（保存できない場合は埋め込む）
+          const asset = await window.electronAPI.saveImageAsset(dataUrl).catch(() => null);
           resolve({
             type: 'image',
             id: `image-${Date.now()}-${Math.random()}`,
-            content: e.target?.result as string,
+            content: asset ? asset.url : dataUrl,
             metadata: {
               width: Math.min(img.width, 300),
               height: Math.min(img.height, 300 * (img.height / img.width)),
               alt: file.name,
-              originalName: file.name
+              originalName: file.name,
+              ...(asset ? { assetHash: asset.assetHash, mimeType: asset.mimeType } : {})
             }
           });
         };
         img.onerror = () => reject(new Error('Invalid image file'));
-        img.src = e.target?.result as string;
+        img.src = dataUrl;
       };
       reader.onerror = () => reject(new Error('Failed to read file'));
       reader.readAsDataURL(file);
@@ -273,12 +318,18 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
     }
   }, [isActive, readFileAsImage, contentLines, updateContent]);
 
-  // 非アクティブ時の表示用テキスト取得
-  const getDisplayText = useCallback((): string => {
-    const textLines = contentLines.filter(line => line.type === 'text');
-    const text = textLines.map(line => line.content).join(' ');
-    return text.length > 50 ? text.substring(0, 50) + '...' : text || '空の付箋';
-  }, [contentLines]);
+  const getImageStyle = (line: ContentLine): React.CSSProperties => ({
+    maxWidth: '100%',
+    width: `${line.metadata?.width || 200}px`,
+    height: `${line.metadata?.height || 150}px`,
+    objectFit: 'contain',
+    borderRadius: '4px',
+    border: draggedImageId === line.id ? '2px dashed var(--green-dark)' : '1px solid #ddd',
+    cursor: 'move',
+    opacity: draggedImageId === line.id ? 0.6 : 1
+  });
+
+  const editingLine = contentLines.find(line => line.id === editingImageId && line.type === 'image') || null;
 
   // アクティブ時
   if (isActive) {
@@ -310,7 +361,24 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
               onDragLeave={handleDragLeave}
             />
             
-            {line.type === 'text' ? (
+            {line.type === 'code' ? (
+              <CodeBlockEditor
+                code={line.content}
+                language={line.metadata?.language || ''}
+                isActive
+                onChange={(code, language) => updateBlock(line.id, code, { ...line.metadata, language })}
+                onRemove={() => removeBlock(line.id)}
+                onBlur={onBlur}
+              />
+            ) : line.type === 'table' ? (
+              <TableBlockEditor
+                rows={getTableRows(line)}
+                isActive
+                onChange={(rows) => updateBlock(line.id, '', { ...line.metadata, rows })}
+                onRemove={() => removeBlock(line.id)}
+                onBlur={onBlur}
+              />
+            ) : line.type === 'text' ? (
               <input
                 type="text"
                 value={line.content}
@@ -346,26 +414,52 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
                 onDragStart={(e) => handleImageDragStart(e, line.id)}
                 onDragEnd={handleImageDragEnd}
               >
-                <img
-                  src={line.content}
-                  alt={line.metadata?.alt || 'Image'}
+                {line.metadata?.edits ? (
+                  <AnnotatedImage
+                    src={line.content}
+                    edits={line.metadata.edits}
+                    alt={line.metadata?.alt || 'Image'}
+                    style={getImageStyle(line)}
+                  />
+                ) : (
+                  <img
+                    src={line.content}
+                    alt={line.metadata?.alt || 'Image'}
+                    style={getImageStyle(line)}
+                  />
+                )}
+                
+                {/* 編集ボタン */}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEditingImageId(line.id);
+                  }}
                   style={{
-                    maxWidth: '100%',
-                    width: `${line.metadata?.width || 200}px`,
-                    height: `${line.metadata?.height || 150}px`,
-                    objectFit: 'contain',
-                    borderRadius: '4px',
-                    border: draggedImageId === line.id ? '2px dashed var(--green-dark)' : '1px solid #ddd',
-                    cursor: 'move',
-                    opacity: draggedImageId === line.id ? 0.6 : 1
+                    position: 'absolute',
+                    top: '-8px',
+                    right: '16px',
+                    width: '20px',
+                    height: '20px',
+                    background: 'var(--green-dark)',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '50%',
+                    cursor: 'pointer',
+                    fontSize: '11px',
+                    lineHeight: '1'
                   }}
-                />
+                  title="画像を編集（切り抜き・回転・注釈）"
+                >
+                  ✎
+                </button>
+                
                 
                 {/* 削除ボタン */}
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
-                    removeImage(line.id);
+                    removeBlock(line.id);
                   }}
                   style={{
                     position: 'absolute',
@@ -446,13 +540,25 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
           onDragOver={(e) => handleDragOver(e, contentLines.length)}
           onDragLeave={handleDragLeave}
         />
+        
+        {editingLine && (
+          <ImageEditorPanel
+            src={editingLine.content}
+            edits={editingLine.metadata?.edits}
+            onSave={(edits) => saveImageEdits(editingLine.id, edits, {
+              width: editingLine.metadata?.edits?.naturalWidth || edits?.naturalWidth || 0,
+              height: editingLine.metadata?.edits?.naturalHeight || edits?.naturalHeight || 0
+            })}
+            onClose={() => setEditingImageId(null)}
+          />
+        )}
       </div>
     );
   }
 
-  // 非アクティブ時
-  const imageCount = contentLines.filter(line => line.type === 'image').length;
-  
+  // 非アクティブ時（編集時と同じ順序で表示し、はみ出した部分は表示しない）
+  const isEmpty = contentLines.every(line => line.type === 'text' && !line.content.trim());
+
   return (
     <div
       className="interactive-rich-editor inactive"
@@ -460,20 +566,53 @@ export const InteractiveRichEditor: React.FC<InteractiveRichEditorProps> = ({
         flex: 1,
         padding: '12px',
         fontSize: '12px',
-        color: contentLines.length > 0 ? 'inherit' : 'rgba(0, 0, 0, 0.4)',
+        color: isEmpty ? 'rgba(0, 0, 0, 0.4)' : 'inherit',
         overflow: 'hidden',
         cursor: 'pointer',
         userSelect: 'none'
       }}
     >
-      {contentLines.length > 0 ? (
+      {!isEmpty ? (
         <div>
-          {getDisplayText()}
-          {imageCount > 0 && (
-            <span style={{ fontSize: '11px', color: 'rgba(0, 0, 0, 0.6)' }}>
-              {' '}📷 {imageCount}
-            </span>
-          )}
+          {/* 画像は付箋の幅に合わせて縮小表示 */}
+          {contentLines.map(line => line.type === 'text' ? (
+            <FormattedTextView
+              key={line.id}
+              value={{ text: line.content, marks: line.marks || [] }}
+              style={{ minHeight: '1.4em' }}
+              onLinkClick={(url) => {
+                window.electronAPI.openUrlInBrowser(url).catch(error => console.error('Failed to open URL:', error));
+              }}
+              onWikiLinkClick={(title) => {
+                window.electronAPI.openNoteByTitle(title).catch(error => console.error('Failed to open linked note:', error));
+              }}
+            />
+          ) : line.type === 'code' ? (
+            <CodeBlockEditor
+              key={line.id}
+              code={line.content}
+              language={line.metadata?.language || ''}
+              isActive={false}
+            />
+          ) : line.type === 'table' ? (
+            <TableBlockEditor key={line.id} rows={getTableRows(line)} isActive={false} />
+          ) : line.metadata?.edits ? (
+            <AnnotatedImage
+              key={line.id}
+              src={line.content}
+              edits={line.metadata.edits}
+              alt={line.metadata?.alt || 'Image'}
+              style={{ display: 'block', maxWidth: '100%', height: 'auto', marginTop: '4px' }}
+            />
+          ) : (
+            <img
+              key={line.id}
+              src={line.content}
+              alt={line.metadata?.alt || 'Image'}
+              style={{ display: 'block', maxWidth: '100%', marginTop: '4px' }}
+              draggable={false}
+            />
+          ))}
         </div>
       ) : (
         '空の付箋'
@@ -0,0 +1,37 @@
+import React, { memo, useEffect, useState } from 'react';
+
+// ウィンドウ内で同じURLのタイトルを何度も問い合わせないためのキャッシュ
+const titleRequests = new Map<string, Promise<string | null>>();
+
+const getLinkTitle = (url: string): Promise<string | null> => {
+  let request = titleRequests.get(url);
+  if (!request) {
+    request = window.electronAPI.getLinkTitle(url).catch(() => null);
+    titleRequests.set(url, request);
+    // 取得できなかった場合（設定で無効・通信エラー）は次回に再度問い合わせる
+    request.then(title => {
+      if (!title) titleRequests.delete(url);
+    });
+  }
+  return request;
+};
+
+/**
+ * リンクの表示名（ページタイトルが取得できればタイトル、なければURL）
+ */
+export const LinkLabel: React.FC<{ url: string }> = memo(({ url }) => {
+  const [title, setTitle] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!/^https?:\/\//i.test(url)) return;
+    let cancelled = false;
+    getLinkTitle(url).then(result => {
+      if (!cancelled) setTitle(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  return <>{title || url}</>;
+});
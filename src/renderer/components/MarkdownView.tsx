@@ -0,0 +1,355 @@
+import React, { memo, useMemo } from 'react';
+import { TextMark } from '../../types';
+import { getAllowedLinkKind } from '../../utils/linkUtils';
+import { getMarkSegments } from '../../utils/textMarkUtils';
+import { getMarkStyle } from './FormattedTextEditor';
+import { LinkLabel } from './LinkLabel';
+
+interface MarkdownViewProps {
+  text: string;
+  marks?: TextMark[]; // 本文の書式（textでの文字位置。Markdownの記法を取り除いた後も同じ文字に適用する）
+  className?: string;
+  style?: React.CSSProperties;
+  onLinkClick?: (url: string) => void; // 指定がない場合リンクはクリックできない表示のみ
+  onWikiLinkClick?: (title: string) => void; // 「[[タイトル]]」のクリック（指定がない場合は表示のみ）
+  onToggleTask?: (lineIndex: number) => void; // 指定がある場合チェックボックスをクリックで切り替え可能
+  onDoubleClick?: () => void;
+}
+
+interface ListItem {
+  text: string;
+  marker: string; // 表示用のマーカー（・、1. など）
+  checked?: boolean; // チェックリストの場合のみ
+  indent: number;
+  lineIndex: number; // 元テキストでの行番号
+  offset: number; // 元テキストでのtextの開始位置
+}
+
+interface RenderHandlers {
+  marks?: TextMark[];
+  onLinkClick?: (url: string) => void;
+  onWikiLinkClick?: (title: string) => void;
+  onToggleTask?: (lineIndex: number) => void;
+}
+
+// offset・offsetsは元テキストでの各テキストの開始位置（書式の位置を合わせるため）
+type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string; offset: number }
+  | { type: 'paragraph'; lines: string[]; offsets: number[] }
+  | { type: 'list'; items: ListItem[] }
+  | { type: 'quote'; lines: string[]; offsets: number[] }
+  | { type: 'code'; text: string; offset: number }
+  | { type: 'hr' };
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const LIST_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_PATTERN = /^\[([ xX])\]\s+(.*)$/;
+const QUOTE_PATTERN = /^\s*>\s?(.*)$/;
+const FENCE_PATTERN = /^\s*```/;
+const HR_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+
+// 強調・コード・リンク・付箋間リンクなどのインライン要素（先に出現したものから処理）
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*(?!\s)(.+?)\*|(?<![\w])_(?!\s)(.+?)_(?![\w])|\[([^\]]+)\]\(([^)\s]+)\)|((?:https?:\/\/|file:\/\/)[^\s<>()]+|mailto:[^\s<>()]+@[^\s<>()]+)|\[\[([^\[\]\n]+)\]\]/;
+
+// リンク先として許可するもの（javascript: や実行ファイルへのリンクなどは無効化する）
+const isSafeUrl = (url: string): boolean => getAllowedLinkKind(url) !== null;
+
+const parseBlocks = (text: string): MarkdownBlock[] => {
+  const lines = text.split('\n');
+  const lineStarts: number[] = [];
+  lines.reduce((start, line) => {
+    lineStarts.push(start);
+    return start + line.length + 1;
+  }, 0);
+  // 行末までを取り出した部分の開始位置
+  const tailOffset = (lineIndex: number, tail: string) => lineStarts[lineIndex] + lines[lineIndex].length - tail.length;
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // コードブロック
+    if (FENCE_PATTERN.test(line)) {
+      const codeLines: string[] = [];
+      i++;
+      const codeOffset = i < lines.length ? lineStarts[i] : text.length;
+      while (i < lines.length && !FENCE_PATTERN.test(lines[i])) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'code', text: codeLines.join('\n'), offset: codeOffset });
+      i++; // 閉じフェンスを読み飛ばす
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    if (HR_PATTERN.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    const headingMatch = line.match(HEADING_PATTERN);
+    if (headingMatch) {
+      blocks.push({ type: 'heading', level: headingMatch[1].length, text: headingMatch[2], offset: tailOffset(i, headingMatch[2]) });
+      i++;
+      continue;
+    }
+
+    if (LIST_PATTERN.test(line)) {
+      const items: ListItem[] = [];
+      let listMatch: RegExpMatchArray | null;
+      while (i < lines.length && (listMatch = lines[i].match(LIST_PATTERN))) {
+        const [, indent, bullet, body] = listMatch;
+        const taskMatch = body.match(TASK_PATTERN);
+        const itemText = taskMatch ? taskMatch[2] : body;
+        items.push({
+          text: itemText,
+          marker: /\d/.test(bullet) ? bullet : '•',
+          checked: taskMatch ? taskMatch[1] !== ' ' : undefined,
+          indent: Math.floor(indent.replace(/\t/g, '  ').length / 2),
+          lineIndex: i,
+          offset: tailOffset(i, itemText)
+        });
+        i++;
+      }
+      blocks.push({ type: 'list', items });
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoteLines: string[] = [];
+      const quoteOffsets: number[] = [];
+      let quoteMatch: RegExpMatchArray | null;
+      while (i < lines.length && (quoteMatch = lines[i].match(QUOTE_PATTERN))) {
+        quoteLines.push(quoteMatch[1]);
+        quoteOffsets.push(tailOffset(i, quoteMatch[1]));
+        i++;
+      }
+      blocks.push({ type: 'quote', lines: quoteLines, offsets: quoteOffsets });
+      continue;
+    }
+
+    // 段落（付箋では改行をそのまま活かす）
+    const paragraphLines: string[] = [];
+    const paragraphOffsets: number[] = [];
+    while (i < lines.length && lines[i].trim() &&
+           !FENCE_PATTERN.test(lines[i]) && !HR_PATTERN.test(lines[i]) &&
+           !HEADING_PATTERN.test(lines[i]) && !LIST_PATTERN.test(lines[i]) &&
+           !QUOTE_PATTERN.test(lines[i])) {
+      paragraphLines.push(lines[i]);
+      paragraphOffsets.push(lineStarts[i]);
+      i++;
+    }
+    blocks.push({ type: 'paragraph', lines: paragraphLines, offsets: paragraphOffsets });
+  }
+
+  return blocks;
+};
+
+/**
+ * テキストに書式を適用して描画（offsetは元テキストでのtextの開始位置）
+ */
+const renderMarkedText = (text: string, offset: number, key: string, marks?: TextMark[]): React.ReactNode => {
+  const textMarks = (marks || [])
+    .filter(mark => mark.end > offset && mark.start < offset + text.length)
+    .map(mark => ({ ...mark, start: Math.max(mark.start - offset, 0), end: Math.min(mark.end - offset, text.length) }));
+  if (textMarks.length === 0) {
+    return text;
+  }
+
+  return getMarkSegments(text, textMarks).map(segment => segment.marks.length > 0 ? (
+    <span key={`${key}-m${segment.start}`} style={getMarkStyle(segment.marks)}>{segment.text}</span>
+  ) : (
+    <React.Fragment key={`${key}-m${segment.start}`}>{segment.text}</React.Fragment>
+  ));
+};
+
+/**
+ * インライン要素をReact要素に変換（offsetは元テキストでのtextの開始位置）
+ * HTMLとして解釈せずテキストノードとして描画するため、本文からのHTML注入は起こらない
+ */
+const renderInline = (
+  text: string,
+  keyPrefix: string,
+  handlers: RenderHandlers,
+  offset: number
+): React.ReactNode[] => {
+  const { onLinkClick, onWikiLinkClick, marks } = handlers;
+  const nodes: React.ReactNode[] = [];
+  let rest = text;
+  let restOffset = offset;
+  let index = 0;
+
+  while (rest) {
+    const match = rest.match(INLINE_PATTERN);
+    if (!match || match.index === undefined) {
+      nodes.push(renderMarkedText(rest, restOffset, `${keyPrefix}-t${index}`, marks));
+      break;
+    }
+
+    if (match.index > 0) {
+      nodes.push(renderMarkedText(rest.substring(0, match.index), restOffset, `${keyPrefix}-t${index}`, marks));
+    }
+
+    const key = `${keyPrefix}-${index++}`;
+    const matchOffset = restOffset + match.index;
+    const [, code, bold, boldAlt, strike, italic, italicAlt, linkText, linkUrl, bareUrl, wikiTitle] = match;
+
+    if (code !== undefined) {
+      nodes.push(<code key={key} className="md-code">{renderMarkedText(code, matchOffset + 1, key, marks)}</code>);
+    } else if (bold !== undefined || boldAlt !== undefined) {
+      nodes.push(<strong key={key}>{renderInline(bold ?? boldAlt, key, handlers, matchOffset + 2)}</strong>);
+    } else if (strike !== undefined) {
+      nodes.push(<del key={key}>{renderInline(strike, key, handlers, matchOffset + 2)}</del>);
+    } else if (italic !== undefined || italicAlt !== undefined) {
+      nodes.push(<em key={key}>{renderInline(italic ?? italicAlt, key, handlers, matchOffset + 1)}</em>);
+    } else if (wikiTitle !== undefined) {
+      const title = wikiTitle.trim();
+      nodes.push(
+        <span
+          key={key}
+          className={`md-link md-wiki-link ${onWikiLinkClick ? 'clickable' : ''}`}
+          title={title}
+          onClick={onWikiLinkClick ? (e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            onWikiLinkClick(title);
+          } : undefined}
+        >
+          {title}
+        </span>
+      );
+    } else {
+      const url = linkUrl ?? bareUrl;
+      const label = linkText !== undefined ? renderInline(linkText, key, handlers, matchOffset + 1) : <LinkLabel url={url} />;
+      if (isSafeUrl(url)) {
+        nodes.push(
+          <span
+            key={key}
+            className={`md-link ${onLinkClick ? 'clickable' : ''}`}
+            title={url}
+            onClick={onLinkClick ? (e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onLinkClick(url);
+            } : undefined}
+          >
+            {label}
+          </span>
+        );
+      } else {
+        // 許可されていないスキームのリンクは元のテキストのまま表示
+        nodes.push(match[0]);
+      }
+    }
+
+    rest = rest.substring(match.index + match[0].length);
+    restOffset = matchOffset + match[0].length;
+  }
+
+  return nodes;
+};
+
+const renderCheckbox = (item: ListItem, onToggleTask?: (lineIndex: number) => void): React.ReactNode => {
+  if (!onToggleTask) {
+    return item.checked ? '☑' : '☐';
+  }
+  return (
+    <span
+      className="md-checkbox"
+      role="checkbox"
+      aria-checked={item.checked}
+      onClick={(e) => {
+        // 非アクティブ時でも付箋をアクティブ化せずに切り替える
+        e.preventDefault();
+        e.stopPropagation();
+        onToggleTask(item.lineIndex);
+      }}
+      onDoubleClick={(e) => e.stopPropagation()}
+    >
+      {item.checked ? '☑' : '☐'}
+    </span>
+  );
+};
+
+const renderBlock = (
+  block: MarkdownBlock,
+  key: string,
+  handlers: RenderHandlers
+): React.ReactNode => {
+  switch (block.type) {
+    case 'heading':
+      return React.createElement(
+        `h${block.level}`,
+        { key, className: 'md-heading' },
+        renderInline(block.text, key, handlers, block.offset)
+      );
+    case 'paragraph':
+      return (
+        <p key={key} className="md-paragraph">
+          {block.lines.map((line, i) => (
+            <React.Fragment key={i}>
+              {i > 0 && <br />}
+              {renderInline(line, `${key}-${i}`, handlers, block.offsets[i])}
+            </React.Fragment>
+          ))}
+        </p>
+      );
+    case 'list':
+      return (
+        <ul key={key} className="md-list">
+          {block.items.map((item, i) => (
+            <li
+              key={i}
+              className={`md-list-item ${item.checked ? 'checked' : ''}`}
+              style={{ paddingLeft: `${item.indent * 1.2}em` }}
+            >
+              <span className="md-list-marker">
+                {item.checked === undefined ? item.marker : renderCheckbox(item, handlers.onToggleTask)}
+              </span>
+              <span className="md-list-text">{renderInline(item.text, `${key}-${i}`, handlers, item.offset)}</span>
+            </li>
+          ))}
+        </ul>
+      );
+    case 'quote':
+      return (
+        <blockquote key={key} className="md-quote">
+          {block.lines.map((line, i) => (
+            <React.Fragment key={i}>
+              {i > 0 && <br />}
+              {renderInline(line, `${key}-${i}`, handlers, block.offsets[i])}
+            </React.Fragment>
+          ))}
+        </blockquote>
+      );
+    case 'code':
+      return (
+        <pre key={key} className="md-code-block">
+          <code>{renderMarkedText(block.text, block.offset, key, handlers.marks)}</code>
+        </pre>
+      );
+    case 'hr':
+      return <hr key={key} className="md-hr" />;
+  }
+};
+
+/**
+ * 付箋のテキストをMarkdownとして描画
+ * 見出し・強調・リスト・コード・リンク・付箋間リンクに対応し、書式（太字・色など）も重ねて表示する
+ */
+export const MarkdownView: React.FC<MarkdownViewProps> = memo(({ text, marks, className, style, onLinkClick, onWikiLinkClick, onToggleTask, onDoubleClick }) => {
+  const blocks = useMemo(() => parseBlocks(text), [text]);
+
+  return (
+    <div className={`markdown-view ${className || ''}`} style={style} onDoubleClick={onDoubleClick}>
+      {blocks.map((block, index) => renderBlock(block, `b${index}`, { marks, onLinkClick, onWikiLinkClick, onToggleTask }))}
+    </div>
+  );
+});
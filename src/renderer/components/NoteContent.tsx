@@ -1,53 +1,59 @@
-import React, { forwardRef, memo, useCallback } from 'react';
+import React, { forwardRef, memo, useCallback, useEffect, useState } from 'react';
 import { StickyNote, RichContent } from '../../types';
+import { MarkdownView } from './MarkdownView';
+import { InteractiveRichEditor } from './InteractiveRichEditor';
+import { FormattedTextEditor, NoteEditorHandle } from './FormattedTextEditor';
+import { getCheckboxOffset, isChecklistLine } from '../../utils/checklistUtils';
+import { FormattedText, getFormattedText, toFormattedContent } from '../../utils/textMarkUtils';
+import { hasNonTextBlocks } from '../../utils/blockTextUtils';
+import { findLinkAt } from '../../utils/linkUtils';
+import { findWikiLinkAt, normalizeNoteTitle } from '../../utils/wikiLinkUtils';
 
 interface NoteContentProps {
   note: StickyNote;
   isActive: boolean;
-  onContentChange: (content: string) => void;
+  isPreview?: boolean; // アクティブモードでMarkdownプレビューを表示
+  onContentChange: (content: string | RichContent) => void;
   onBlur: () => void;
+  onExitPreview?: () => void;
+  onToggleTask?: (lineIndex: number) => void; // チェックリスト項目の切り替え
   inactiveFontSize?: number;
 }
 
-export const NoteContent = memo(forwardRef<HTMLTextAreaElement, NoteContentProps>(
-  ({ note, isActive, onContentChange, onBlur, inactiveFontSize = 12 }, ref) => {
-    const URL_REGEX = /(https?:\/\/[^\s]+)/g;
-
-    const handleChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
-      onContentChange(e.target.value);
-    }, [onContentChange]);
-
-    const detectUrlAtPosition = (text: string, position: number): string | null => {
-      const matches = [...text.matchAll(URL_REGEX)];
-      for (const match of matches) {
-        if (match.index !== undefined && 
-            position >= match.index && 
-            position <= match.index + match[0].length) {
-          return match[0];
-        }
-      }
-      return null;
-    };
-
-    // ダブルクリック機能は無効化（コンテキストメニューからURLを開くように変更）
-    // const handleDoubleClick = async (e: React.MouseEvent<HTMLTextAreaElement>) => {
-    //   if (!isActive) return;
-    //   
-    //   const textarea = e.currentTarget;
-    //   const position = textarea.selectionStart;
-    //   const text = textarea.value;
-    //   const url = detectUrlAtPosition(text, position);
-    //   
-    //   if (url && window.electronAPI?.openUrlInBrowser) {
-    //     try {
-    //       await window.electronAPI.openUrlInBrowser(url);
-    //     } catch (error) {
-    //       console.error('Failed to open URL:', error);
-    //     }
-    //   }
-    // };
-
+export const NoteContent = memo(forwardRef<NoteEditorHandle, NoteContentProps>(
+  ({ note, isActive, isPreview = false, onContentChange, onBlur, onExitPreview, onToggleTask, inactiveFontSize = 12 }, ref) => {
+    const handleChange = useCallback((formatted: FormattedText) => {
+      // 既存のテキストブロックのIDを引き継ぐ
+      const blockId = typeof note.content !== 'string'
+        ? note.content?.blocks.find(block => block.type === 'text')?.id
+        : undefined;
+      onContentChange(toFormattedContent(formatted, blockId));
+    }, [onContentChange, note.content]);
 
+    // 編集モードになるたびに「[[」の補完候補（自分以外の付箋のタイトル）を取得
+    const [linkSuggestions, setLinkSuggestions] = useState<string[]>([]);
+    useEffect(() => {
+      if (!isActive) return;
+      let cancelled = false;
+      window.electronAPI.getNoteTitles()
+        .then(titles => {
+          if (cancelled) return;
+          const seen = new Set<string>();
+          setLinkSuggestions(titles
+            .filter(item => item.noteId !== note.id)
+            .map(item => item.title)
+            .filter(title => {
+              const key = normalizeNoteTitle(title);
+              if (seen.has(key)) return false;
+              seen.add(key);
+              return true;
+            }));
+        })
+        .catch(error => console.error('Failed to get note titles:', error));
+      return () => {
+        cancelled = true;
+      };
+    }, [isActive, note.id]);
 
     const getContentAsString = (content: string | RichContent): string => {
       if (typeof content === 'string') {
@@ -59,68 +65,151 @@ export const NoteContent = memo(forwardRef<HTMLTextAreaElement, NoteContentProps
         .join('\n');
     };
 
-    const handleContextMenu = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    const handleContextMenu = (e: React.MouseEvent<HTMLDivElement>, text: string, position: number) => {
       e.preventDefault();
-      
-      if (!isActive) {
-        // 非アクティブモードでは通常のコンテキストメニューのみ
-        window.electron.showContextMenu();
-        return;
-      }
-      
-      const textarea = e.currentTarget;
-      const position = textarea.selectionStart;
-      const text = textarea.value;
-      const url = detectUrlAtPosition(text, position);
+      const url = findLinkAt(text, position);
       
       // カーソル位置のURLとともにコンテキストメニューを表示
       window.electron.showContextMenuWithUrl(url);
     };
 
-    const truncateText = (text: string, maxLength: number = 50): string => {
-      if (text.length <= maxLength) return text;
-      
-      // 改行を考慮して切り詰め位置を調整
-      const truncated = text.substring(0, maxLength);
-      const lastNewlineIndex = truncated.lastIndexOf('\n');
-      
-      // 切り詰め位置が改行の直後の場合、改行を含めて表示
-      if (lastNewlineIndex > maxLength - 10) {
-        return text.substring(0, lastNewlineIndex + 1) + '...';
+    // カーソル位置の行番号と行内の位置を取得
+    const getLineAtPosition = (text: string, position: number): { lineIndex: number; column: number } => {
+      const before = text.substring(0, position);
+      return {
+        lineIndex: before.split('\n').length - 1,
+        column: position - (before.lastIndexOf('\n') + 1)
+      };
+    };
+
+    // 編集モードではCtrl+クリックでリンク・付箋間リンクを開き、「[ ]」の上をクリックするとチェックを切り替え
+    // （エディタは内容の更新後もカーソル位置を保持する）
+    const handleEditorClick = (e: React.MouseEvent<HTMLDivElement>, text: string, position: number) => {
+      if (e.ctrlKey || e.metaKey) {
+        const url = findLinkAt(text, position);
+        if (url) {
+          e.preventDefault();
+          handleLinkClick(url);
+          return;
+        }
+        const title = findWikiLinkAt(text, position);
+        if (title) {
+          e.preventDefault();
+          handleWikiLinkClick(title);
+          return;
+        }
+      }
+      if (!onToggleTask) return;
+
+      const { lineIndex, column } = getLineAtPosition(text, position);
+      const offset = getCheckboxOffset(text.split('\n')[lineIndex]);
+      if (offset >= 0 && column >= offset - 1 && column <= offset + 2) {
+        onToggleTask(lineIndex);
       }
-      
-      return truncated + '...';
     };
 
+    // Ctrl+Enterでカーソル行のチェックを切り替え
+    const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, text: string, position: number) => {
+      if (!onToggleTask || !e.ctrlKey || e.key !== 'Enter') return;
+
+      const { lineIndex } = getLineAtPosition(text, position);
+      if (isChecklistLine(text.split('\n')[lineIndex])) {
+        e.preventDefault();
+        onToggleTask(lineIndex);
+      }
+    };
+
+    const handleLinkClick = useCallback(async (url: string) => {
+      try {
+        await window.electronAPI.openUrlInBrowser(url);
+      } catch (error) {
+        console.error('Failed to open URL:', error);
+      }
+    }, []);
+
+    // 「[[タイトル]]」の付箋を開く
+    const handleWikiLinkClick = useCallback(async (title: string) => {
+      try {
+        await window.electronAPI.openNoteByTitle(title);
+      } catch (error) {
+        console.error('Failed to open linked note:', error);
+      }
+    }, []);
+
+    // 画像・コード・表を含む付箋はブロックを扱えるエディタで表示
+    if (hasNonTextBlocks(note.content) && !isPreview) {
+      return (
+        <InteractiveRichEditor
+          note={note}
+          isActive={isActive}
+          onContentChange={onContentChange}
+          onBlur={onBlur}
+        />
+      );
+    }
+
+    if (isActive && isPreview) {
+      // プレビュー中はダブルクリックで編集に戻る
+      return (
+        <MarkdownView
+          text={getContentAsString(note.content)}
+          marks={getFormattedText(note.content).marks}
+          className="note-content preview-mode"
+          style={{ fontSize: `${note.fontSize}px` }}
+          onLinkClick={handleLinkClick}
+          onWikiLinkClick={handleWikiLinkClick}
+          onToggleTask={onToggleTask}
+          onDoubleClick={onExitPreview}
+        />
+      );
+    }
+
     if (isActive) {
       return (
-        <textarea
+        <FormattedTextEditor
           ref={ref}
           className="note-content"
-          value={getContentAsString(note.content)}
+          value={getFormattedText(note.content)}
           onChange={handleChange}
+          onCaretClick={handleEditorClick}
+          onKeyDown={handleEditorKeyDown}
           onBlur={onBlur}
           onContextMenu={handleContextMenu}
+          linkSuggestions={linkSuggestions}
           placeholder="付箋の内容を入力..."
           style={{ fontSize: `${note.fontSize}px` }}
         />
       );
     }
 
+    const text = getContentAsString(note.content);
+
+    if (!text) {
+      return (
+        <div
+          className="note-content stay-mode"
+          style={{ 
+            fontSize: `${inactiveFontSize}px`,
+            color: 'rgba(0, 0, 0, 0.4)'
+          }}
+        >
+          空の付箋
+        </div>
+      );
+    }
+
+    // 非アクティブモードではMarkdownとして描画（はみ出した部分は表示しない）
+    // 書式は記法を取り除いた後の文字に重ね、リンクはクリックすると付箋を編集モードにせずに開く
     return (
-      <div
+      <MarkdownView
+        text={text}
+        marks={getFormattedText(note.content).marks}
         className="note-content stay-mode"
-        style={{ 
-          fontSize: `${inactiveFontSize}px`,
-          color: getContentAsString(note.content) ? 'inherit' : 'rgba(0, 0, 0, 0.4)',
-          whiteSpace: 'pre-wrap'
-        }}
-      >
-        {getContentAsString(note.content) ? 
-          truncateText(getContentAsString(note.content)) : 
-          '空の付箋'
-        }
-      </div>
+        style={{ fontSize: `${inactiveFontSize}px` }}
+        onLinkClick={handleLinkClick}
+        onWikiLinkClick={handleWikiLinkClick}
+        onToggleTask={onToggleTask}
+      />
     );
   }
 ));
\ No newline at end of file
@@ -1,5 +1,7 @@
 import React, { useState, useRef, useEffect, useMemo, memo } from 'react';
-import { StickyNote } from '../../types';
+import { StickyNote, RichContent, ReminderRecurrence } from '../../types';
+import { getChecklistProgress } from '../../utils/checklistUtils';
+import { ReminderPopup, formatReminder, getRecurrenceLabel } from './ReminderPopup';
 
 interface NoteHeaderProps {
   note: StickyNote;
@@ -9,6 +11,10 @@ interface NoteHeaderProps {
   onCreateNote: () => Promise<void>;
   onTogglePin: () => Promise<void>;
   onToggleLock: () => Promise<void>;
+  isPreview?: boolean;
+  onTogglePreview?: () => void;
+  onSetReminder?: (reminderAt: number | null, recurrence: ReminderRecurrence | null) => Promise<void>;
+  onInsertBlock?: (type: 'code' | 'table') => void;
 }
 
 const colorOptions = [
@@ -147,13 +153,21 @@ export const NoteHeader: React.FC<NoteHeaderProps> = memo(({
   onUpdateNote,
   onCreateNote,
   onTogglePin,
-  onToggleLock
+  onToggleLock,
+  isPreview = false,
+  onTogglePreview,
+  onSetReminder,
+  onInsertBlock
 }) => {
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [showFontSizePicker, setShowFontSizePicker] = useState(false);
+  const [showReminderPicker, setShowReminderPicker] = useState(false);
+  const [showInsertMenu, setShowInsertMenu] = useState(false);
   const [popupPosition, setPopupPosition] = useState<PopupPosition>({ top: 0, left: 0 });
   const colorButtonRef = useRef<HTMLButtonElement>(null);
   const fontButtonRef = useRef<HTMLButtonElement>(null);
+  const reminderButtonRef = useRef<HTMLButtonElement>(null);
+  const insertButtonRef = useRef<HTMLButtonElement>(null);
   
   // ダブルクリック検出用（カラーピッカーで使用）
   const [clickTimeout, setClickTimeout] = useState<NodeJS.Timeout | null>(null);
@@ -162,6 +176,8 @@ export const NoteHeader: React.FC<NoteHeaderProps> = memo(({
   // ポップアップ要素への参照
   const colorPickerRef = useRef<HTMLDivElement>(null);
   const fontSizePickerRef = useRef<HTMLDivElement>(null);
+  const reminderPopupRef = useRef<HTMLDivElement>(null);
+  const insertMenuRef = useRef<HTMLDivElement>(null);
 
   // isActiveが変更されたときにポップアップを閉じる
   useEffect(() => {
@@ -174,12 +190,14 @@ export const NoteHeader: React.FC<NoteHeaderProps> = memo(({
   // ポップアップ外クリックで閉じる
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
-      if (showColorPicker || showFontSizePicker) {
+      if (showColorPicker || showFontSizePicker || showReminderPicker || showInsertMenu) {
         const target = event.target as Element;
         
         // より包括的にポップアップ要素をチェック
         const isInsideColorPicker = target.closest('.color-picker-popup');
         const isInsideFontSizePicker = target.closest('.font-size-popup');
+        const isInsideReminderPopup = target.closest('.reminder-popup');
+        const isInsideInsertMenu = target.closest('.insert-block-popup');
         const isMenuButton = target.closest('.menu-button');
         
         // さらに、物理的境界判定も追加でチェック
@@ -205,20 +223,30 @@ export const NoteHeader: React.FC<NoteHeaderProps> = memo(({
           }
         }
 
+        if (showReminderPicker && reminderPopupRef.current) {
+          const rect = reminderPopupRef.current.getBoundingClientRect();
+          const x = event.clientX;
+          const y = event.clientY;
+          
+          if (x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom) {
+            isInsidePopupArea = true;
+          }
+        }
+
         // DOM検索または座標判定のいずれかで内部と判定されれば閉じない
-        if (!isInsideColorPicker && !isInsideFontSizePicker && !isMenuButton && !isInsidePopupArea) {
+        if (!isInsideColorPicker && !isInsideFontSizePicker && !isInsideReminderPopup && !isInsideInsertMenu && !isMenuButton && !isInsidePopupArea) {
           closeAllPopups();
         }
       }
     };
 
-    if (showColorPicker || showFontSizePicker) {
+    if (showColorPicker || showFontSizePicker || showReminderPicker || showInsertMenu) {
       document.addEventListener('mousedown', handleClickOutside, true);
       return () => {
         document.removeEventListener('mousedown', handleClickOutside, true);
       };
     }
-  }, [showColorPicker, showFontSizePicker]);
+  }, [showColorPicker, showFontSizePicker, showReminderPicker, showInsertMenu]);
 
 
   const handleButtonClick = (e: React.MouseEvent, action: () => void) => {
@@ -335,6 +363,8 @@ export const NoteHeader: React.FC<NoteHeaderProps> = memo(({
   const closeAllPopups = () => {
     setShowColorPicker(false);
     setShowFontSizePicker(false);
+    setShowReminderPicker(false);
+    setShowInsertMenu(false);
   };
 
   // スタイルをuseMemoで管理して確実に再計算されるようにする
@@ -349,6 +379,55 @@ export const NoteHeader: React.FC<NoteHeaderProps> = memo(({
     height: `${headerIconSize + 8}px`
   }), [headerIconSize]);
 
+  const tagChipStyle = useMemo(() => ({
+    fontSize: `${Math.max(10, Math.round(headerIconSize * 0.6))}px`
+  }), [headerIconSize]);
+
+  // チェックリストの進捗（完了数/総数）
+  const checklistProgress = useMemo(() => {
+    const text = typeof note.content === 'string'
+      ? note.content
+      : (note.content as RichContent).blocks
+          .filter(block => block.type === 'text')
+          .map(block => block.content)
+          .join('\n');
+    return getChecklistProgress(text);
+  }, [note.content]);
+
+  // リマインダー・チェックリストの進捗・本文の#タグをヘッダー右側に表示
+  const hasTags = note.tags && note.tags.length > 0;
+  const headerInfo = note.reminderAt || checklistProgress.total > 0 || hasTags ? (
+    <div className="note-header-info">
+      {note.reminderAt && (
+        <span
+          className="note-reminder-badge"
+          style={tagChipStyle}
+          title={`リマインダー: ${new Date(note.reminderAt).toLocaleString()}${note.reminderRecurrence ? `（${getRecurrenceLabel(note.reminderRecurrence)}）` : ''}`}
+        >
+          ⏰ {formatReminder(note.reminderAt)}
+        </span>
+      )}
+      {checklistProgress.total > 0 && (
+        <span
+          className={`note-progress-badge ${checklistProgress.done === checklistProgress.total ? 'complete' : ''}`}
+          style={tagChipStyle}
+          title={`完了 ${checklistProgress.done} / ${checklistProgress.total}`}
+        >
+          ☑ {checklistProgress.done}/{checklistProgress.total}
+        </span>
+      )}
+      {hasTags && (
+        <div className="note-tags" title={note.tags.map(tag => `#${tag}`).join(' ')}>
+          {note.tags.map(tag => (
+            <span key={tag} className="note-tag-chip" style={tagChipStyle}>
+              #{tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  ) : null;
+
 
   if (!isActive) {
     
@@ -417,6 +496,7 @@ export const NoteHeader: React.FC<NoteHeaderProps> = memo(({
             {note.isPinned ? '📍' : '📌'}
           </button>
         </div>
+        {headerInfo}
       </div>
     );
   }
@@ -452,8 +532,15 @@ export const NoteHeader: React.FC<NoteHeaderProps> = memo(({
         style={headerStyle} 
         onClick={(e) => e.stopPropagation()}
         onContextMenu={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
           console.log('[DEBUG] Active NoteHeader right-click event triggered for note:', note.id);
           console.log('[DEBUG] Note isActive:', isActive);
+          
+          // 編集モードでも同じヘッダーメニュー（変更履歴など）を表示
+          if (window.electron && window.electron.showInactiveHeaderContextMenu) {
+            window.electron.showInactiveHeaderContextMenu(note.id);
+          }
         }}
       >
         <div className="header-menu">
@@ -502,6 +589,57 @@ export const NoteHeader: React.FC<NoteHeaderProps> = memo(({
             🎨
           </button>
           
+          {onTogglePreview && (
+            <button
+              className="menu-button"
+              style={iconStyle}
+              title={isPreview ? "編集に戻る" : "Markdownプレビュー"}
+              onMouseDown={(e) => handleButtonClick(e, onTogglePreview)}
+            >
+              {isPreview ? '✏️' : '👁'}
+            </button>
+          )}
+          
+          {onInsertBlock && (
+            <button
+              ref={insertButtonRef}
+              className="menu-button"
+              style={iconStyle}
+              title="コードブロック・表を挿入"
+              onMouseDown={(e) => handleButtonClick(e, () => {
+                closeAllPopups();
+                const newShow = !showInsertMenu;
+                if (newShow) {
+                  const position = calculatePopupPosition(insertButtonRef);
+                  setPopupPosition(position);
+                }
+                setShowInsertMenu(newShow);
+              })}
+            >
+              ⊞
+            </button>
+          )}
+          
+          {onSetReminder && (
+            <button
+              ref={reminderButtonRef}
+              className="menu-button"
+              style={iconStyle}
+              title="リマインダー"
+              onMouseDown={(e) => handleButtonClick(e, () => {
+                closeAllPopups();
+                const newShow = !showReminderPicker;
+                if (newShow) {
+                  const position = calculatePopupPosition(reminderButtonRef);
+                  setPopupPosition(position);
+                }
+                setShowReminderPicker(newShow);
+              })}
+            >
+              {note.reminderAt ? '⏰' : '🔔'}
+            </button>
+          )}
+          
           <button
             className="menu-button"
             style={iconStyle}
@@ -522,6 +660,7 @@ export const NoteHeader: React.FC<NoteHeaderProps> = memo(({
             </span>
           </button>
         </div>
+        {headerInfo}
       </div>
 
       {showColorPicker && (
@@ -652,6 +791,48 @@ export const NoteHeader: React.FC<NoteHeaderProps> = memo(({
         </div>
       )}
 
+      {showReminderPicker && onSetReminder && (
+        <ReminderPopup
+          ref={reminderPopupRef}
+          note={note}
+          style={{ 
+            top: `${popupPosition.top}px`, 
+            left: `${popupPosition.left}px`,
+            ...(popupPosition.maxWidth && { maxWidth: `${popupPosition.maxWidth}px` }),
+            ...(popupPosition.maxHeight && { maxHeight: `${popupPosition.maxHeight}px` })
+          }}
+          onSetReminder={onSetReminder}
+          onClose={() => setShowReminderPicker(false)}
+        />
+      )}
+
+      {showInsertMenu && onInsertBlock && (
+        <div
+          ref={insertMenuRef}
+          className="insert-block-popup"
+          style={{ top: `${popupPosition.top}px`, left: `${popupPosition.left}px` }}
+        >
+          <div
+            className="insert-block-option"
+            onMouseDown={(e) => handleButtonClick(e, () => {
+              onInsertBlock('code');
+              setShowInsertMenu(false);
+            })}
+          >
+            {'</>'} コードブロック
+          </div>
+          <div
+            className="insert-block-option"
+            onMouseDown={(e) => handleButtonClick(e, () => {
+              onInsertBlock('table');
+              setShowInsertMenu(false);
+            })}
+          >
+            ▦ 表
+          </div>
+        </div>
+      )}
+
     </>
   );
 });
\ No newline at end of file
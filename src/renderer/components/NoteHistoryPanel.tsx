@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { StickyNote, NoteRevision } from '../../types';
+import { getPlainText } from '../../utils/blockTextUtils';
+
+interface NoteHistoryPanelProps {
+  note: StickyNote;
+  onClose: () => void;
+}
+
+interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// 行単位の差分を計算（LCSベース）
+const computeLineDiff = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  const m = oldLines.length;
+  const n = newLines.length;
+
+  // lcs[i][j] = oldLines[i..] と newLines[j..] の最長共通部分列の長さ
+  const lcs: number[][] = Array.from({ length: m + 1 }, () => new Array(n + 1).fill(0));
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < m && j < n) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'same', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i] });
+      i++;
+    } else {
+      result.push({ type: 'added', text: newLines[j] });
+      j++;
+    }
+  }
+  while (i < m) {
+    result.push({ type: 'removed', text: oldLines[i++] });
+  }
+  while (j < n) {
+    result.push({ type: 'added', text: newLines[j++] });
+  }
+
+  return result;
+};
+
+const formatRevisionDate = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const NoteHistoryPanel: React.FC<NoteHistoryPanelProps> = ({ note, onClose }) => {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const history = await window.electronAPI.getNoteHistory(note.id);
+        setRevisions(history);
+        // 現在の内容と異なる最新のリビジョンを初期選択
+        const currentText = getPlainText(note.content);
+        const firstDifferent = history.find(revision => getPlainText(revision.content) !== currentText);
+        setSelectedRevisionId(firstDifferent ? firstDifferent.id : history[0]?.id ?? null);
+      } catch (error) {
+        console.error('[ERROR] Failed to load note history:', error);
+        setErrorMessage('履歴を読み込めませんでした');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+  }, [note.id]);
+
+  const selectedRevision = revisions.find(revision => revision.id === selectedRevisionId) || null;
+
+  // 選択したリビジョン → 現在の内容 への差分
+  const diffLines = useMemo(() => {
+    if (!selectedRevision) return [];
+    return computeLineDiff(getPlainText(selectedRevision.content), getPlainText(note.content));
+  }, [selectedRevision, note.content]);
+
+  const handleRestore = async () => {
+    if (!selectedRevision || isRestoring) return;
+
+    setIsRestoring(true);
+    setErrorMessage('');
+    try {
+      const result = await window.electronAPI.restoreNoteRevision(note.id, selectedRevision.id);
+      if (result.success) {
+        // 復元後の内容はnote-dataイベントで反映される
+        onClose();
+      } else {
+        setErrorMessage(result.error || '復元に失敗しました');
+      }
+    } catch (error) {
+      console.error('[ERROR] Failed to restore revision:', error);
+      setErrorMessage('復元に失敗しました');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div
+      className="note-history-panel"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="note-history-toolbar">
+        <select
+          className="note-history-select"
+          value={selectedRevisionId ?? ''}
+          onChange={(e) => setSelectedRevisionId(e.target.value)}
+          disabled={isLoading || revisions.length === 0}
+        >
+          {revisions.map(revision => (
+            <option key={revision.id} value={revision.id}>
+              {formatRevisionDate(revision.updatedAt)}
+            </option>
+          ))}
+        </select>
+        <button
+          className="note-history-button"
+          onClick={handleRestore}
+          disabled={!selectedRevision || isRestoring}
+          title="この版に戻す"
+        >
+          {isRestoring ? '復元中...' : '復元'}
+        </button>
+        <button
+          className="note-history-button"
+          onClick={onClose}
+          title="閉じる"
+        >
+          ×
+        </button>
+      </div>
+
+      <div className="note-history-diff">
+        {isLoading && <div className="note-history-message">読み込み中...</div>}
+        {!isLoading && revisions.length === 0 && (
+          <div className="note-history-message">まだ履歴がありません</div>
+        )}
+        {errorMessage && <div className="note-history-message error">{errorMessage}</div>}
+        {diffLines.map((line, index) => (
+          <div key={index} className={`note-history-line ${line.type}`}>
+            <span className="note-history-marker">
+              {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+            </span>
+            {line.text || ' '}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState, forwardRef } from 'react';
+import { StickyNote, ReminderRecurrence } from '../../types';
+
+interface ReminderPopupProps {
+  note: StickyNote;
+  style: React.CSSProperties;
+  onSetReminder: (reminderAt: number | null, recurrence: ReminderRecurrence | null) => Promise<void>;
+  onClose: () => void;
+}
+
+const recurrenceOptions: { value: ReminderRecurrence | ''; label: string }[] = [
+  { value: '', label: '繰り返しなし' },
+  { value: 'daily', label: '毎日' },
+  { value: 'weekdays', label: '平日' },
+  { value: 'weekly', label: '毎週' },
+  { value: 'monthly', label: '毎月' }
+];
+
+// datetime-local入力用の「YYYY-MM-DDTHH:mm」形式（ローカル時刻）
+const toInputValue = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const formatReminder = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getMonth() + 1}/${date.getDate()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const getRecurrenceLabel = (recurrence?: ReminderRecurrence): string => {
+  return recurrenceOptions.find(option => option.value === recurrence)?.label || '';
+};
+
+export const ReminderPopup = forwardRef<HTMLDivElement, ReminderPopupProps>(
+  ({ note, style, onSetReminder, onClose }, ref) => {
+    const [dateValue, setDateValue] = useState(() =>
+      toInputValue(note.reminderAt || Date.now() + 60 * 60 * 1000)
+    );
+    const [recurrence, setRecurrence] = useState<ReminderRecurrence | ''>(note.reminderRecurrence || '');
+
+    const applyReminder = async (reminderAt: number | null) => {
+      await onSetReminder(reminderAt, reminderAt && recurrence ? recurrence : null);
+      onClose();
+    };
+
+    const handleSubmit = () => {
+      const reminderAt = new Date(dateValue).getTime();
+      if (!isNaN(reminderAt)) {
+        applyReminder(reminderAt);
+      }
+    };
+
+    // 現在時刻から指定分後（スヌーズ）
+    const snooze = (minutes: number) => {
+      applyReminder(Date.now() + minutes * 60 * 1000);
+    };
+
+    const tomorrowMorning = () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 1);
+      date.setHours(9, 0, 0, 0);
+      applyReminder(date.getTime());
+    };
+
+    return (
+      <div
+        ref={ref}
+        className="reminder-popup"
+        style={style}
+        onClick={(e) => e.stopPropagation()}
+        onMouseDown={(e) => e.stopPropagation()}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+        }}
+      >
+        <div className="reminder-current">
+          {note.reminderAt
+            ? `⏰ ${formatReminder(note.reminderAt)}${note.reminderRecurrence ? `（${getRecurrenceLabel(note.reminderRecurrence)}）` : ''}`
+            : 'リマインダー未設定'}
+        </div>
+
+        <div className="reminder-row">
+          <input
+            type="datetime-local"
+            className="reminder-input"
+            value={dateValue}
+            onChange={(e) => setDateValue(e.target.value)}
+          />
+        </div>
+
+        <div className="reminder-row">
+          <select
+            className="reminder-input"
+            value={recurrence}
+            onChange={(e) => setRecurrence(e.target.value as ReminderRecurrence | '')}
+          >
+            {recurrenceOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button className="reminder-button primary" onClick={handleSubmit}>
+            設定
+          </button>
+        </div>
+
+        <div className="reminder-row">
+          <button className="reminder-button" onClick={() => snooze(10)}>10分後</button>
+          <button className="reminder-button" onClick={() => snooze(60)}>1時間後</button>
+          <button className="reminder-button" onClick={tomorrowMorning}>明日 9:00</button>
+        </div>
+
+        {note.reminderAt && (
+          <div className="reminder-row">
+            <button className="reminder-button danger" onClick={() => applyReminder(null)}>
+              解除
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+);
@@ -0,0 +1,81 @@
+import React, { useState, useEffect } from 'react';
+import '../styles/capture.css';
+
+type Point = { x: number; y: number };
+
+const toRegion = (start: Point, end: Point) => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y)
+});
+
+/**
+ * 画面の範囲選択ウィンドウ
+ * 撮影した画面を全面に表示し、ドラッグで選択した範囲をメインプロセスに返す
+ */
+export const ScreenCaptureApp: React.FC = () => {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [start, setStart] = useState<Point | null>(null);
+  const [current, setCurrent] = useState<Point | null>(null);
+
+  useEffect(() => {
+    window.electronAPI.getScreenCaptureImage().then(setImageUrl);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        window.electronAPI.finishScreenCapture(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    setStart({ x: e.clientX, y: e.clientY });
+    setCurrent({ x: e.clientX, y: e.clientY });
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (start) {
+      setCurrent({ x: e.clientX, y: e.clientY });
+    }
+  };
+
+  const handleMouseUp = (e: React.MouseEvent) => {
+    if (!start) return;
+    const region = toRegion(start, { x: e.clientX, y: e.clientY });
+    setStart(null);
+    setCurrent(null);
+    window.electronAPI.finishScreenCapture(region);
+  };
+
+  const region = start && current ? toRegion(start, current) : null;
+
+  return (
+    <div
+      className="screen-capture"
+      style={imageUrl ? { backgroundImage: `url(${imageUrl})` } : undefined}
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseUp={handleMouseUp}
+      onContextMenu={(e) => {
+        // 右クリックでキャンセル
+        e.preventDefault();
+        window.electronAPI.finishScreenCapture(null);
+      }}
+    >
+      {region ? (
+        <div
+          className="screen-capture-selection"
+          style={{ left: region.x, top: region.y, width: region.width, height: region.height }}
+        >
+          <span className="screen-capture-size">{region.width} × {region.height}</span>
+        </div>
+      ) : (
+        <div className="screen-capture-hint">ドラッグして範囲を選択（Escでキャンセル）</div>
+      )}
+    </div>
+  );
+};
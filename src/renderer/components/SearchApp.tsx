@@ -1,6 +1,9 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { SearchResult, SearchQuery } from '../../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { SearchResult, SearchQuery, SavedSearch } from '../../types';
 import { SearchResults } from './SearchResults';
+import { normalizeTag } from '../../utils/tagUtils';
+import { parseSearchQuery } from '../../utils/searchQueryUtils';
+import { validateSavedSearch } from '../../utils/savedSearchUtils';
 
 interface SearchAppState {
   query: string;
@@ -8,9 +11,41 @@ interface SearchAppState {
   isSearching: boolean;
   selectedIndex: number;
   caseSensitive: boolean;
+  regex: boolean;
+  fuzzy: boolean;
+  romaji: boolean;
   maxResults: number;
+  selectedIds: string[]; // 複数選択中の付箋ID（一括操作の対象）
+  selectionAnchor: number; // Shift+クリックで範囲選択するときの起点
 }
 
+interface TagFacet {
+  tag: string;
+  count: number;
+}
+
+const TAG_FILTER_PREFIX = 'tag:';
+
+// 一括で変更できる背景色（付箋の色パレットから各系統を1色ずつ）
+const BULK_COLOR_OPTIONS = ['#FFCDD2', '#FFE4CC', '#FFF5CC', '#CCFFE6', '#CCF2FF', '#BBDEFB', '#E1BEE7', '#FFFFFF'];
+
+const CANCELED_ERROR = 'ユーザーによってキャンセルされました';
+
+// 検索構文のヘルプ
+const SYNTAX_HELP: { syntax: string; description: string }[] = [
+  { syntax: 'りんご みかん', description: 'すべての語を含む' },
+  { syntax: 'りんご OR みかん', description: 'いずれかの語を含む' },
+  { syntax: '"買い物 リスト"', description: 'フレーズを含む' },
+  { syntax: '-完了', description: '語を含まない（他の指定にも使えます）' },
+  { syntax: '/\\d{3}-\\d{4}/', description: '正規表現に一致' },
+  { syntax: 'tag:仕事', description: 'タグが付いた付箋' },
+  { syntax: 'color:#CCFFE6', description: '背景色・ヘッダー色' },
+  { syntax: 'pinned:true / locked:false', description: 'ピン留め・ロックの状態' },
+  { syntax: 'has:image', description: '画像・コード・表・リンク・リマインダーを含む（image / code / table / link / reminder）' },
+  { syntax: 'created:>2026-01-01', description: '作成日で絞り込み（< <= > >= 、日付のみはその日）' },
+  { syntax: 'updated:<7d', description: '更新からの経過時間で絞り込み（h: 時間 / d: 日 / w: 週）' }
+];
+
 export const SearchApp: React.FC = () => {
   const [state, setState] = useState<SearchAppState>({
     query: '',
@@ -18,10 +53,23 @@ export const SearchApp: React.FC = () => {
     isSearching: false,
     selectedIndex: -1,
     caseSensitive: false,
-    maxResults: 50
+    regex: false,
+    fuzzy: true,
+    romaji: false,
+    maxResults: 50,
+    selectedIds: [],
+    selectionAnchor: -1
   });
+  const [showSyntaxHelp, setShowSyntaxHelp] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [isBulkRunning, setIsBulkRunning] = useState(false);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [activeSavedSearchId, setActiveSavedSearchId] = useState<string | null>(null);
+  const [saveName, setSaveName] = useState<string | null>(null); // 保存フォームの入力中の名前（nullは非表示）
+  const isSaveFormOpen = saveName !== null;
 
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const saveNameInputRef = useRef<HTMLInputElement>(null);
   const searchTimeoutRef = useRef<NodeJS.Timeout>();
   const selectedItemRef = useRef<HTMLDivElement>(null);
 
@@ -30,8 +78,21 @@ export const SearchApp: React.FC = () => {
     if (searchInputRef.current) {
       searchInputRef.current.focus();
     }
+    
+    window.electronAPI.getSavedSearches()
+      .then(result => {
+        setSavedSearches(result.savedSearches);
+        setActiveSavedSearchId(result.activeId);
+      })
+      .catch(error => console.error('保存した検索を読み込めませんでした:', error));
   }, []);
 
+  useEffect(() => {
+    if (isSaveFormOpen) {
+      saveNameInputRef.current?.focus();
+    }
+  }, [isSaveFormOpen]);
+
   // 選択アイテムのスクロール追従
   useEffect(() => {
     if (selectedItemRef.current && state.selectedIndex >= 0) {
@@ -45,6 +106,11 @@ export const SearchApp: React.FC = () => {
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
+      // 保存フォームの名前の入力中はフォーム側でキーを処理する
+      if (event.target === saveNameInputRef.current) {
+        return;
+      }
+
       // 検索ウィンドウがアクティブな間はホットキー競合を避けるため、
       // 主要なキーイベントをキャプチャしてpreventDefaultを呼ぶ
       const shouldPreventDefault = (
@@ -53,6 +119,7 @@ export const SearchApp: React.FC = () => {
         event.key === 'ArrowUp' ||
         event.key === 'Enter' ||
         (event.ctrlKey && (event.key === 'k' || event.key === 'K')) ||
+        (isSelectAllKey(event) && shouldSelectAllResults()) ||
         (event.ctrlKey && event.shiftKey) ||
         (event.altKey && (event.key === 'Tab' || event.key.length === 1))
       );
@@ -62,9 +129,19 @@ export const SearchApp: React.FC = () => {
         event.stopPropagation();
       }
 
+      if (isSelectAllKey(event)) {
+        if (shouldSelectAllResults()) {
+          selectAllResults();
+        }
+        return;
+      }
+
       switch (event.key) {
         case 'Escape':
-          if (state.query) {
+          if (state.selectedIds.length > 0) {
+            // 複数選択を解除
+            clearSelection();
+          } else if (state.query) {
             // 検索をクリア
             setState(prev => ({ ...prev, query: '', results: [], selectedIndex: -1 }));
             if (searchInputRef.current) {
@@ -98,7 +175,7 @@ export const SearchApp: React.FC = () => {
     // より高い優先度でイベントをキャプチャ
     document.addEventListener('keydown', handleKeyDown, true);
     return () => document.removeEventListener('keydown', handleKeyDown, true);
-  }, [state.query, state.results, state.selectedIndex]);
+  }, [state.query, state.results, state.selectedIndex, state.selectedIds]);
 
   const performSearch = useCallback(async (searchQuery: string) => {
     console.log('[DEBUG] SearchApp.performSearch called with:', JSON.stringify(searchQuery));
@@ -109,34 +186,52 @@ export const SearchApp: React.FC = () => {
         text: searchQuery,
         keywords: searchQuery.split(/\s+/).filter(k => k.length > 0),
         caseSensitive: state.caseSensitive,
+        regex: state.regex,
+        fuzzy: state.fuzzy,
+        romaji: state.romaji,
         maxResults: state.maxResults
       };
 
       console.log('[DEBUG] SearchApp query object:', JSON.stringify(query));
       const results = await window.electronAPI.searchNotes(query);
       console.log('[DEBUG] SearchApp received results:', results.length);
-      setState(prev => ({
-        ...prev,
-        results,
-        isSearching: false,
-        selectedIndex: results.length > 0 ? 0 : -1
-      }));
+      setState(prev => {
+        // 検索し直しても結果に残っている付箋の選択は保つ
+        const resultIds = new Set(results.map(result => result.note.id));
+        const selectedIds = prev.selectedIds.filter(id => resultIds.has(id));
+        return {
+          ...prev,
+          results,
+          isSearching: false,
+          selectedIndex: results.length > 0 ? 0 : -1,
+          selectedIds,
+          selectionAnchor: selectedIds.length > 0 ? prev.selectionAnchor : -1
+        };
+      });
     } catch (error) {
       console.error('検索エラー:', error);
       setState(prev => ({
         ...prev,
         results: [],
         isSearching: false,
-        selectedIndex: -1
+        selectedIndex: -1,
+        selectedIds: [],
+        selectionAnchor: -1
       }));
     }
-  }, [state.caseSensitive, state.maxResults]);
+  }, [state.caseSensitive, state.regex, state.fuzzy, state.romaji, state.maxResults]);
 
-  // 初期検索の実行（performSearchが定義された後）
+  // 初期検索の実行（検索オプションが変わった場合は現在のクエリで検索し直す）
   useEffect(() => {
-    performSearch('');
+    performSearch(state.query);
   }, [performSearch]);
 
+  // クエリの構文エラー（入力中に表示）
+  const queryErrors = useMemo(
+    () => parseSearchQuery(state.query, { regex: state.regex, caseSensitive: state.caseSensitive }).errors,
+    [state.query, state.regex, state.caseSensitive]
+  );
+
   const handleSearchInput = (value: string) => {
     setState(prev => ({ ...prev, query: value }));
 
@@ -159,17 +254,287 @@ export const SearchApp: React.FC = () => {
     }
   };
 
+  // Ctrl+A（入力欄では文字列を全選択した後にもう一度押すと結果をすべて選択）
+  const isSelectAllKey = (event: KeyboardEvent) => {
+    return (event.ctrlKey || event.metaKey) && !event.shiftKey && !event.altKey && (event.key === 'a' || event.key === 'A');
+  };
+
+  const shouldSelectAllResults = () => {
+    if (state.results.length === 0) return false;
+    const input = searchInputRef.current;
+    if (!input || document.activeElement !== input || input.value.length === 0) return true;
+    return input.selectionStart === 0 && input.selectionEnd === input.value.length;
+  };
+
+  const selectAllResults = () => {
+    setState(prev => ({
+      ...prev,
+      selectedIds: prev.results.map(result => result.note.id),
+      selectionAnchor: 0
+    }));
+  };
+
+  const clearSelection = () => {
+    setState(prev => ({ ...prev, selectedIds: [], selectionAnchor: -1 }));
+  };
+
+  // クリック: 開く / Ctrl+クリック: 選択を切り替え / Shift+クリック: 起点からの範囲を選択
+  const handleResultClick = (result: SearchResult, index: number, event: React.MouseEvent) => {
+    if (!event.shiftKey && !event.ctrlKey && !event.metaKey) {
+      openNote(result);
+      return;
+    }
+
+    setState(prev => {
+      if (event.shiftKey) {
+        const anchor = prev.selectionAnchor >= 0 ? prev.selectionAnchor : Math.max(prev.selectedIndex, 0);
+        const [from, to] = anchor <= index ? [anchor, index] : [index, anchor];
+        const rangeIds = prev.results.slice(from, to + 1).map(item => item.note.id);
+        // Ctrl+Shift+クリックは現在の選択に範囲を追加する
+        const baseIds = event.ctrlKey || event.metaKey ? prev.selectedIds : [];
+        return {
+          ...prev,
+          selectedIndex: index,
+          selectedIds: Array.from(new Set([...baseIds, ...rangeIds])),
+          selectionAnchor: anchor
+        };
+      }
+
+      const noteId = result.note.id;
+      const isSelected = prev.selectedIds.includes(noteId);
+      return {
+        ...prev,
+        selectedIndex: index,
+        selectedIds: isSelected ? prev.selectedIds.filter(id => id !== noteId) : [...prev.selectedIds, noteId],
+        selectionAnchor: index
+      };
+    });
+  };
+
+  // 選択中の付箋に一括操作を実行し、結果を表示して検索し直す
+  const runBulkAction = async <T extends { success: boolean; error?: string }>(
+    action: (noteIds: string[]) => Promise<T>,
+    getMessage: (noteIds: string[], result: T) => string
+  ) => {
+    const noteIds = state.selectedIds;
+    if (noteIds.length === 0 || isBulkRunning) return;
+
+    setIsBulkRunning(true);
+    try {
+      const result = await action(noteIds);
+      if (result.success) {
+        setStatusMessage({ text: getMessage(noteIds, result), isError: false });
+        await performSearch(state.query);
+      } else if (result.error !== CANCELED_ERROR) {
+        setStatusMessage({ text: result.error || '操作に失敗しました', isError: true });
+      }
+    } catch (error) {
+      console.error('一括操作エラー:', error);
+      setStatusMessage({ text: '操作中にエラーが発生しました', isError: true });
+    } finally {
+      setIsBulkRunning(false);
+    }
+  };
+
+  const bringSelectedToFront = () => {
+    runBulkAction(
+      noteIds => window.electronAPI.bringNotesToFront(noteIds),
+      noteIds => `${noteIds.length}件の付箋を前面に表示しました`
+    );
+  };
+
+  const setSelectedPinned = (isPinned: boolean) => {
+    runBulkAction(
+      noteIds => window.electronAPI.setNotesPinned(noteIds, isPinned),
+      noteIds => `${noteIds.length}件の付箋の${isPinned ? 'ピン留めを設定' : 'ピン留めを解除'}しました`
+    );
+  };
+
+  const setSelectedColor = (color: string) => {
+    runBulkAction(
+      noteIds => window.electronAPI.setNotesColor(noteIds, color),
+      noteIds => `${noteIds.length}件の付箋の色を変更しました`
+    );
+  };
+
+  const exportSelected = () => {
+    runBulkAction(
+      noteIds => window.electronAPI.exportNotesMarkdown(noteIds),
+      (_, result) => `${result.exportedCount}件の付箋を出力しました: ${result.path}`
+    );
+  };
+
+  const deleteSelected = () => {
+    const count = state.selectedIds.length;
+    if (count === 0 || !window.confirm(`選択した${count}件の付箋をゴミ箱へ移動します。よろしいですか？`)) {
+      return;
+    }
+    runBulkAction(
+      noteIds => window.electronAPI.deleteNotes(noteIds),
+      noteIds => `${noteIds.length}件の付箋をゴミ箱へ移動しました`
+    );
+  };
+
+  // 保存した検索を選択: 検索条件を読み込み、一致する付箋だけを表示する
+  const selectSavedSearch = async (savedSearch: SavedSearch) => {
+    const options = {
+      caseSensitive: Boolean(savedSearch.caseSensitive),
+      regex: Boolean(savedSearch.regex),
+      fuzzy: savedSearch.fuzzy !== false,
+      romaji: Boolean(savedSearch.romaji)
+    };
+    const optionsChanged = options.caseSensitive !== state.caseSensitive || options.regex !== state.regex ||
+      options.fuzzy !== state.fuzzy || options.romaji !== state.romaji;
+
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+    setState(prev => ({ ...prev, ...options, query: savedSearch.query }));
+    // オプションが変わった場合は検索し直しのeffectで検索される
+    if (!optionsChanged) {
+      performSearch(savedSearch.query);
+    }
+
+    try {
+      const result = await window.electronAPI.applySavedSearch(savedSearch.id);
+      if (result.success) {
+        setActiveSavedSearchId(savedSearch.id);
+        setStatusMessage({ text: `「${savedSearch.name}」に一致する${result.count}件の付箋だけを表示しています`, isError: false });
+      } else {
+        setStatusMessage({ text: result.error || '付箋の表示を切り替えられませんでした', isError: true });
+      }
+    } catch (error) {
+      console.error('保存した検索の適用エラー:', error);
+      setStatusMessage({ text: '付箋の表示を切り替えられませんでした', isError: true });
+    }
+  };
+
+  const showAllNotes = async () => {
+    try {
+      await window.electronAPI.clearSavedSearchFilter();
+      setActiveSavedSearchId(null);
+      setStatusMessage(null);
+    } catch (error) {
+      console.error('絞り込みの解除エラー:', error);
+    }
+  };
+
+  // 現在の検索条件を名前を付けて保存
+  const saveCurrentSearch = async () => {
+    if (saveName === null) return;
+    const savedSearch = {
+      name: saveName,
+      query: state.query,
+      caseSensitive: state.caseSensitive,
+      regex: state.regex,
+      fuzzy: state.fuzzy,
+      romaji: state.romaji
+    };
+    const validationError = validateSavedSearch(savedSearch);
+    if (validationError) {
+      setStatusMessage({ text: validationError, isError: true });
+      return;
+    }
+
+    try {
+      const result = await window.electronAPI.saveSearch(savedSearch);
+      if (result.success && result.savedSearch) {
+        const saved = result.savedSearch;
+        setSavedSearches(prev => [...prev, saved]);
+        setSaveName(null);
+        setStatusMessage({ text: `「${saved.name}」を保存しました（トレイメニューからも呼び出せます）`, isError: false });
+      } else {
+        setStatusMessage({ text: result.error || '検索を保存できませんでした', isError: true });
+      }
+    } catch (error) {
+      console.error('検索の保存エラー:', error);
+      setStatusMessage({ text: '検索を保存できませんでした', isError: true });
+    }
+  };
+
+  const deleteSavedSearch = async (savedSearch: SavedSearch) => {
+    try {
+      const result = await window.electronAPI.deleteSavedSearch(savedSearch.id);
+      if (result.success) {
+        setSavedSearches(prev => prev.filter(item => item.id !== savedSearch.id));
+        if (activeSavedSearchId === savedSearch.id) {
+          setActiveSavedSearchId(null);
+        }
+      } else {
+        setStatusMessage({ text: result.error || '削除できませんでした', isError: true });
+      }
+    } catch (error) {
+      console.error('保存した検索の削除エラー:', error);
+    }
+  };
+
   const handleClose = () => {
     if (window.electronAPI.closeSearch) {
       window.electronAPI.closeSearch();
     }
   };
 
+  const selectedIdSet = useMemo(() => new Set(state.selectedIds), [state.selectedIds]);
+
+  // 現在の結果に含まれるタグと件数（多い順）
+  const tagFacets = useMemo<TagFacet[]>(() => {
+    const facets = new Map<string, TagFacet>();
+    state.results.forEach(result => {
+      (result.note.tags || []).forEach(tag => {
+        const key = normalizeTag(tag);
+        const facet = facets.get(key);
+        if (facet) {
+          facet.count++;
+        } else {
+          facets.set(key, { tag, count: 1 });
+        }
+      });
+    });
+    return Array.from(facets.values())
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }, [state.results]);
+
+  // クエリに含まれるtag:フィルタ
+  const activeTagFilters = useMemo(() => {
+    return state.query
+      .split(/\s+/)
+      .filter(keyword => keyword.toLowerCase().startsWith(TAG_FILTER_PREFIX))
+      .map(keyword => normalizeTag(keyword.substring(TAG_FILTER_PREFIX.length)));
+  }, [state.query]);
+
+  // タグの絞り込みを切り替え（クエリのtag:フィルタを追加/削除）
+  const toggleTagFilter = (tag: string) => {
+    const key = normalizeTag(tag);
+    const keywords = state.query.split(/\s+/).filter(k => k.length > 0);
+    const isActive = activeTagFilters.includes(key);
+    const newKeywords = isActive
+      ? keywords.filter(k => !(k.toLowerCase().startsWith(TAG_FILTER_PREFIX) &&
+          normalizeTag(k.substring(TAG_FILTER_PREFIX.length)) === key))
+      : [...keywords, `${TAG_FILTER_PREFIX}${tag}`];
+    const newQuery = newKeywords.join(' ');
+
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+    setState(prev => ({ ...prev, query: newQuery }));
+    performSearch(newQuery);
+    searchInputRef.current?.focus();
+  };
+
   const toggleCaseSensitive = () => {
     setState(prev => ({ ...prev, caseSensitive: !prev.caseSensitive }));
-    if (state.query) {
-      performSearch(state.query);
-    }
+  };
+
+  const toggleRegex = () => {
+    setState(prev => ({ ...prev, regex: !prev.regex }));
+  };
+
+  const toggleFuzzy = () => {
+    setState(prev => ({ ...prev, fuzzy: !prev.fuzzy }));
+  };
+
+  const toggleRomaji = () => {
+    setState(prev => ({ ...prev, romaji: !prev.romaji }));
   };
 
 
@@ -187,11 +552,37 @@ export const SearchApp: React.FC = () => {
           placeholder="検索キーワードを入力..."
           value={state.query}
           onChange={(e) => handleSearchInput(e.target.value)}
-          className="search-input"
+          className={`search-input ${queryErrors.length > 0 ? 'invalid' : ''}`}
         />
         {state.isSearching && <div className="search-spinner">🔄</div>}
+        <button
+          type="button"
+          className={`search-syntax-toggle ${showSyntaxHelp ? 'active' : ''}`}
+          onClick={() => setShowSyntaxHelp(prev => !prev)}
+          title="検索構文のヘルプ"
+        >
+          ?
+        </button>
+        {queryErrors.length > 0 && (
+          <div className="search-query-errors">
+            {queryErrors.map(error => (
+              <div key={error}>⚠ {error}</div>
+            ))}
+          </div>
+        )}
       </div>
 
+      {showSyntaxHelp && (
+        <div className="search-syntax-help">
+          {SYNTAX_HELP.map(item => (
+            <div key={item.syntax} className="search-syntax-row">
+              <code>{item.syntax}</code>
+              <span>{item.description}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="search-options">
         <label className="option-checkbox">
           <input
@@ -201,6 +592,30 @@ export const SearchApp: React.FC = () => {
           />
           大文字小文字を区別
         </label>
+        <label className="option-checkbox">
+          <input
+            type="checkbox"
+            checked={state.regex}
+            onChange={toggleRegex}
+          />
+          正規表現
+        </label>
+        <label className="option-checkbox" title="一致する語がない場合、1〜2文字違いの語も探します">
+          <input
+            type="checkbox"
+            checked={state.fuzzy}
+            onChange={toggleFuzzy}
+          />
+          あいまい検索
+        </label>
+        <label className="option-checkbox" title="「gakkou」で「がっこう」「ガッコウ」も探します">
+          <input
+            type="checkbox"
+            checked={state.romaji}
+            onChange={toggleRomaji}
+          />
+          ローマ字
+        </label>
         <div className="results-count">
           {state.results.length > 0 && (
             <span>{state.results.length}件の結果</span>
@@ -208,20 +623,158 @@ export const SearchApp: React.FC = () => {
         </div>
       </div>
 
-      <SearchResults
-        results={state.results}
-        selectedIndex={state.selectedIndex}
-        onResultClick={openNote}
-        onResultHover={(index) => setState(prev => ({ ...prev, selectedIndex: index }))}
-        query={state.query}
-        isSearching={state.isSearching}
-        selectedItemRef={selectedItemRef}
-      />
+      <div className="search-body">
+        <aside className="saved-searches">
+          <div className="saved-searches-title">保存した検索</div>
+          <div className="saved-searches-list">
+            {savedSearches.length === 0 && (
+              <div className="saved-searches-empty">よく使う検索を保存すると、こことトレイメニューから呼び出せます</div>
+            )}
+            {savedSearches.map(savedSearch => (
+              <div
+                key={savedSearch.id}
+                className={`saved-search-item ${savedSearch.id === activeSavedSearchId ? 'active' : ''}`}
+                onClick={() => selectSavedSearch(savedSearch)}
+                title={`${savedSearch.query}（一致する付箋だけを表示）`}
+              >
+                <span className="saved-search-name">{savedSearch.name}</span>
+                <button
+                  type="button"
+                  className="saved-search-delete"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    deleteSavedSearch(savedSearch);
+                  }}
+                  title="保存した検索を削除"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+          {activeSavedSearchId && (
+            <button type="button" className="saved-searches-show-all" onClick={showAllNotes}>
+              すべての付箋を表示
+            </button>
+          )}
+          {isSaveFormOpen ? (
+            <div className="saved-search-form">
+              <input
+                ref={saveNameInputRef}
+                type="text"
+                placeholder="名前"
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    saveCurrentSearch();
+                  } else if (e.key === 'Escape') {
+                    e.preventDefault();
+                    setSaveName(null);
+                    searchInputRef.current?.focus();
+                  }
+                }}
+              />
+              <div className="saved-search-form-buttons">
+                <button type="button" onClick={saveCurrentSearch}>保存</button>
+                <button type="button" onClick={() => setSaveName(null)}>キャンセル</button>
+              </div>
+            </div>
+          ) : (
+            <button
+              type="button"
+              className="saved-searches-add"
+              onClick={() => setSaveName(state.query.trim())}
+              disabled={!state.query.trim() || queryErrors.length > 0}
+              title="現在の検索キーワードとオプションを保存"
+            >
+              ＋ 現在の検索を保存
+            </button>
+          )}
+        </aside>
+
+        <div className="search-main">
+          {tagFacets.length > 0 && (
+            <div className="tag-facets">
+              {tagFacets.map(facet => (
+                <button
+                  key={facet.tag}
+                  type="button"
+                  className={`tag-facet ${activeTagFilters.includes(normalizeTag(facet.tag)) ? 'active' : ''}`}
+                  onClick={() => toggleTagFilter(facet.tag)}
+                  title={`tag:${facet.tag} で絞り込み`}
+                >
+                  #{facet.tag}
+                  <span className="tag-facet-count">{facet.count}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {state.selectedIds.length > 0 && (
+            <div className="bulk-actions">
+              <span className="bulk-selection-count">{state.selectedIds.length}件選択中</span>
+              <button type="button" onClick={bringSelectedToFront} disabled={isBulkRunning} title="選択した付箋を前面に表示">
+                前面に表示
+              </button>
+              <button type="button" onClick={() => setSelectedPinned(true)} disabled={isBulkRunning} title="常に最前面に表示">
+                📌 ピン留め
+              </button>
+              <button type="button" onClick={() => setSelectedPinned(false)} disabled={isBulkRunning}>
+                ピン留め解除
+              </button>
+              <div className="bulk-color-options" title="背景色を変更">
+                {BULK_COLOR_OPTIONS.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    className="bulk-color-option"
+                    style={{ backgroundColor: color }}
+                    onClick={() => setSelectedColor(color)}
+                    disabled={isBulkRunning}
+                    aria-label={`背景色を${color}に変更`}
+                  />
+                ))}
+              </div>
+              <button type="button" onClick={exportSelected} disabled={isBulkRunning} title="Markdownファイルとして出力">
+                エクスポート
+              </button>
+              <button type="button" className="bulk-delete" onClick={deleteSelected} disabled={isBulkRunning}>
+                🗑 削除
+              </button>
+              <button type="button" className="bulk-clear" onClick={clearSelection} title="選択を解除 (Esc)">
+                ✕
+              </button>
+            </div>
+          )}
+
+          {statusMessage && (
+            <div className={`bulk-message ${statusMessage.isError ? 'error' : ''}`} onClick={() => setStatusMessage(null)}>
+              {statusMessage.text}
+            </div>
+          )}
+
+          <SearchResults
+            results={state.results}
+            selectedIndex={state.selectedIndex}
+            selectedIds={selectedIdSet}
+            onResultClick={handleResultClick}
+            onResultHover={(index) => setState(prev => ({ ...prev, selectedIndex: index }))}
+            query={state.query}
+            queryErrors={queryErrors}
+            isSearching={state.isSearching}
+            selectedItemRef={selectedItemRef}
+          />
+        </div>
+      </div>
 
       <div className="search-footer">
         <div className="shortcuts-help">
           <span>↑↓: 選択</span>
           <span>Enter: 開く</span>
+          <span>Ctrl/Shift+クリック: 複数選択</span>
+          <span>Ctrl+A: すべて選択</span>
           <span>Esc: 閉じる</span>
         </div>
       </div>
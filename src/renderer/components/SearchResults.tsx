@@ -1,12 +1,15 @@
 import React from 'react';
 import { SearchResult } from '../../types';
+import { getPlainText } from '../../utils/blockTextUtils';
 
 interface SearchResultsProps {
   results: SearchResult[];
   selectedIndex: number;
-  onResultClick: (result: SearchResult) => void;
+  selectedIds: Set<string>; // 複数選択中の付箋（一括操作の対象）
+  onResultClick: (result: SearchResult, index: number, event: React.MouseEvent) => void;
   onResultHover: (index: number) => void;
   query: string;
+  queryErrors: string[]; // クエリの構文エラー（ある場合は検索されない）
   isSearching: boolean;
   selectedItemRef: React.RefObject<HTMLDivElement>;
 }
@@ -24,11 +27,9 @@ const HighlightedText: React.FC<HighlightedTextProps> = ({ result }) => {
       return content;
     }
     
+    // 検索時と同じ抽出方法にしてハイライト位置を合わせる
     if (content && content.blocks && Array.isArray(content.blocks)) {
-      return content.blocks
-        .filter((block: any) => block.type === 'text')
-        .map((block: any) => block.content || '')
-        .join(' ');
+      return getPlainText(content, ' ');
     }
     
     return '';
@@ -109,9 +110,11 @@ const HighlightedText: React.FC<HighlightedTextProps> = ({ result }) => {
 export const SearchResults: React.FC<SearchResultsProps> = ({
   results,
   selectedIndex,
+  selectedIds,
   onResultClick,
   onResultHover,
   query,
+  queryErrors,
   isSearching,
   selectedItemRef
 }) => {
@@ -126,6 +129,20 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
     );
   }
 
+  if (queryErrors.length > 0) {
+    return (
+      <div className="search-results-container">
+        <div className="no-results">
+          <div className="no-results-icon">⚠️</div>
+          <div className="no-results-text">検索条件を解釈できませんでした</div>
+          <div className="no-results-suggestion">
+            「?」ボタンから検索構文を確認してください
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (query && results.length === 0) {
     return (
       <div className="search-results-container">
@@ -153,9 +170,12 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
           <div className="placeholder-tips">
             <div>💡 検索のコツ:</div>
             <ul>
-              <li>スペースで区切って複数キーワード検索</li>
+              <li>スペースで区切って複数キーワード検索（「OR」でいずれか）</li>
+              <li>「"フレーズ"」で語順どおり、「-語」で除外</li>
+              <li>「tag:タグ名」「has:image」「updated:&lt;7d」などで絞り込み</li>
               <li>「大文字小文字を区別」で正確な検索</li>
               <li>↑↓キーで結果を選択、Enterで開く</li>
+              <li>Ctrl/Shift+クリックで複数選択して一括操作</li>
             </ul>
           </div>
         </div>
@@ -177,19 +197,26 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
       <div className="results-list">
         {results.map((result, index) => {
           const isSelected = index === selectedIndex;
+          const isChecked = selectedIds.has(result.note.id);
           
           return (
             <div
               key={result.note.id}
               ref={isSelected ? selectedItemRef : null}
-              className={`search-result-item ${isSelected ? 'selected' : ''}`}
-              onClick={() => onResultClick(result)}
+              className={`search-result-item ${isSelected ? 'selected' : ''} ${isChecked ? 'checked' : ''}`}
+              onClick={(e) => onResultClick(result, index, e)}
+              onMouseDown={(e) => {
+                // Shift+クリックでテキストが範囲選択されないようにする
+                if (e.shiftKey) e.preventDefault();
+              }}
               onMouseEnter={() => onResultHover(index)}
               role="button"
               tabIndex={0}
+              aria-selected={isChecked}
             >
               <div className="result-header">
                 <div className="note-info">
+                  {isChecked && <span className="result-check">✓</span>}
                   <div 
                     className="note-color-badge"
                     style={{ 
@@ -197,6 +224,9 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
                       borderColor: result.note.headerColor || result.note.backgroundColor
                     }}
                   />
+                  {result.note.tags && result.note.tags.map(tag => (
+                    <span key={tag} className="result-tag">#{tag}</span>
+                  ))}
                 </div>
               </div>
               
@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { TrashList } from './TrashList';
+import { BackupImportMode, StorageBackend, StorageMetrics } from '../../types';
 import '../styles/settings.css';
 
 interface SettingsState {
@@ -8,11 +10,17 @@ interface SettingsState {
   pinHotkey: string;
   lockHotkey: string;
   newNoteHotkey: string;
+  captureHotkey: string;
   headerIconSize: number;
   defaultInactiveWidth: number;
   defaultInactiveHeight: number;
   defaultInactiveFontSize: number;
   autoStart: boolean;
+  trashRetentionDays: number;
+  moveCheckedToBottom: boolean;
+  fetchLinkTitles: boolean;
+  syncFolderPath: string;
+  storageBackend: StorageBackend;
 }
 
 export const SettingsApp: React.FC = () => {
@@ -23,11 +31,17 @@ export const SettingsApp: React.FC = () => {
     pinHotkey: '',
     lockHotkey: '',
     newNoteHotkey: '',
+    captureHotkey: '',
     headerIconSize: 16,
     defaultInactiveWidth: 100,  // 仮の初期値
     defaultInactiveHeight: 100, // 仮の初期値
     defaultInactiveFontSize: 12,
-    autoStart: false
+    autoStart: false,
+    trashRetentionDays: 30,
+    moveCheckedToBottom: false,
+    fetchLinkTitles: false,
+    syncFolderPath: '',
+    storageBackend: 'json'
   });
   
   const [originalSettings, setOriginalSettings] = useState<SettingsState>({
@@ -37,11 +51,17 @@ export const SettingsApp: React.FC = () => {
     pinHotkey: '',
     lockHotkey: '',
     newNoteHotkey: '',
+    captureHotkey: '',
     headerIconSize: 16,
     defaultInactiveWidth: 100,  // 仮の初期値
     defaultInactiveHeight: 100, // 仮の初期値
     defaultInactiveFontSize: 12,
-    autoStart: false
+    autoStart: false,
+    trashRetentionDays: 30,
+    moveCheckedToBottom: false,
+    fetchLinkTitles: false,
+    syncFolderPath: '',
+    storageBackend: 'json'
   });
   
   const [listeningFor, setListeningFor] = useState<keyof SettingsState | null>(null);
@@ -51,9 +71,23 @@ export const SettingsApp: React.FC = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [isExporting, setIsExporting] = useState(false);
   const [isArranging, setIsArranging] = useState(false);
+  const [exportMessage, setExportMessage] = useState<string>('');
+  const [storageMetrics, setStorageMetrics] = useState<StorageMetrics | null>(null);
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [backupImportMode, setBackupImportMode] = useState<BackupImportMode>('merge');
+  const [backupMessage, setBackupMessage] = useState<string>('');
   const timeoutRef = useRef<NodeJS.Timeout>();
   const isClosingSafelyRef = useRef(false);
   const originalSettingsRef = useRef<SettingsState>(originalSettings);
+  const trashSectionRef = useRef<HTMLDivElement>(null);
+
+  // トレイメニューなどから特定セクションを指定して開かれた場合はそこまでスクロール
+  useEffect(() => {
+    const section = new URLSearchParams(window.location.search).get('section');
+    if (!isLoading && section === 'trash' && trashSectionRef.current) {
+      trashSectionRef.current.scrollIntoView({ block: 'start' });
+    }
+  }, [isLoading]);
 
   useEffect(() => {
     // 設定を読み込み
@@ -81,11 +115,17 @@ export const SettingsApp: React.FC = () => {
             pinHotkey: savedSettings.pinHotkey ?? '',
             lockHotkey: savedSettings.lockHotkey ?? '',
             newNoteHotkey: savedSettings.newNoteHotkey ?? '',
+            captureHotkey: savedSettings.captureHotkey ?? '',
             headerIconSize: savedSettings.headerIconSize ?? 16,
             defaultInactiveWidth: savedSettings.defaultInactiveWidth !== undefined ? savedSettings.defaultInactiveWidth : 150,
             defaultInactiveHeight: savedSettings.defaultInactiveHeight !== undefined ? savedSettings.defaultInactiveHeight : 125,
             defaultInactiveFontSize: savedSettings.defaultInactiveFontSize !== undefined ? savedSettings.defaultInactiveFontSize : 12,
-            autoStart: savedSettings.autoStart ?? false
+            autoStart: savedSettings.autoStart ?? false,
+            trashRetentionDays: savedSettings.trashRetentionDays ?? 30,
+            moveCheckedToBottom: savedSettings.moveCheckedToBottom ?? false,
+            fetchLinkTitles: savedSettings.fetchLinkTitles ?? false,
+            syncFolderPath: savedSettings.syncFolderPath ?? '',
+            storageBackend: savedSettings.storageBackend ?? 'json'
           };
           
           console.log('[DEBUG] Complete settings after merge:', completeSettings);
@@ -103,11 +143,17 @@ export const SettingsApp: React.FC = () => {
           pinHotkey: '',
           lockHotkey: '',
           newNoteHotkey: '',
+          captureHotkey: '',
           headerIconSize: 16,
           defaultInactiveWidth: 150,  // 新しい範囲の中間値
           defaultInactiveHeight: 125, // 新しい範囲の中間値
           defaultInactiveFontSize: 12,
-          autoStart: false
+          autoStart: false,
+          trashRetentionDays: 30,
+          moveCheckedToBottom: false,
+          fetchLinkTitles: false,
+          syncFolderPath: '',
+          storageBackend: 'json' as StorageBackend
         };
         setSettings(defaultSettings);
         setOriginalSettings(defaultSettings);
@@ -331,6 +377,117 @@ export const SettingsApp: React.FC = () => {
     }
   };
 
+  const handleExportToMarkdown = async () => {
+    try {
+      setIsExporting(true);
+      setErrorMessage('');
+      setExportMessage('');
+      
+      const result = await window.electronAPI.selectFolderAndExportNotesMarkdown();
+      if (result.success) {
+        setExportMessage(`${result.exportedCount}件の付箋を出力しました: ${result.path}`);
+      } else if (result.error !== 'ユーザーによってキャンセルされました') {
+        setErrorMessage(result.error || 'エクスポートに失敗しました');
+      }
+    } catch (error) {
+      console.error('Markdown export error:', error);
+      setErrorMessage('エクスポート中にエラーが発生しました');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleImportMarkdown = async () => {
+    try {
+      setIsExporting(true);
+      setErrorMessage('');
+      setExportMessage('');
+      
+      const result = await window.electronAPI.importMarkdownNotes();
+      if (result.success) {
+        setExportMessage(
+          `${result.importedCount}件の付箋を取り込みました` +
+          (result.skippedCount ? `（${result.skippedCount}件は既に存在するためスキップ）` : '')
+        );
+      } else if (result.error !== 'ユーザーによってキャンセルされました') {
+        setErrorMessage(result.error || '取り込みに失敗しました');
+      }
+    } catch (error) {
+      console.error('Markdown import error:', error);
+      setErrorMessage('取り込み中にエラーが発生しました');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // 保存形式の欄に読み込み・保存時間を表示
+  useEffect(() => {
+    window.electronAPI.getStorageMetrics()
+      .then(setStorageMetrics)
+      .catch(error => console.error('Failed to load storage metrics:', error));
+  }, []);
+
+  const handleSelectSyncFolder = async () => {
+    const folderPath = await window.electronAPI.selectSyncFolder();
+    if (folderPath) {
+      setSettings(prev => ({ ...prev, syncFolderPath: folderPath }));
+    }
+  };
+
+  const handleExportBackup = async () => {
+    try {
+      setIsBackingUp(true);
+      setErrorMessage('');
+      setBackupMessage('');
+      
+      const result = await window.electronAPI.exportBackup();
+      if (result.success) {
+        setBackupMessage(`${result.noteCount}件の付箋と設定をバックアップしました`);
+      } else if (result.error !== 'ユーザーによってキャンセルされました') {
+        setErrorMessage(result.error || 'バックアップの作成に失敗しました');
+      }
+    } catch (error) {
+      console.error('Backup export error:', error);
+      setErrorMessage('バックアップの作成中にエラーが発生しました');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleImportBackup = async () => {
+    if (backupImportMode === 'replace' &&
+        !window.confirm('現在の付箋をすべてゴミ箱へ移動し、バックアップの付箋と設定に置き換えます。よろしいですか？')) {
+      return;
+    }
+    
+    try {
+      setIsBackingUp(true);
+      setErrorMessage('');
+      setBackupMessage('');
+      
+      const result = await window.electronAPI.importBackup(backupImportMode);
+      if (result.success) {
+        if (backupImportMode === 'replace') {
+          // 復元した設定を画面に反映するため再読み込み（プレビューの巻き戻しはしない）
+          isClosingSafelyRef.current = true;
+          window.location.reload();
+          return;
+        }
+        setBackupMessage(
+          `${result.importedCount}件の付箋を復元しました` +
+          (result.remappedCount ? `（${result.remappedCount}件はIDが重複したため新しいIDで追加）` : '')
+        );
+      } else if (result.error !== 'ユーザーによってキャンセルされました') {
+        setErrorMessage(result.error || 'バックアップの復元に失敗しました');
+      }
+    } catch (error) {
+      console.error('Backup import error:', error);
+      setErrorMessage('バックアップの復元中にエラーが発生しました');
+    } finally {
+      setIsBackingUp(false);
+    }
+  };
+
   const handleArrangeAllNotes = async () => {
     console.log('[DEBUG] handleArrangeAllNotes called');
     try {
@@ -395,7 +552,8 @@ export const SettingsApp: React.FC = () => {
         { key: 'searchHotkey', label: '検索ウィンドウの表示/非表示', value: settings.searchHotkey?.trim() },
         { key: 'pinHotkey', label: '編集モード付箋のピン留め切り替え', value: settings.pinHotkey?.trim() },
         { key: 'lockHotkey', label: '編集モード付箋のロック切り替え', value: settings.lockHotkey?.trim() },
-        { key: 'newNoteHotkey', label: '新規ノート作成', value: settings.newNoteHotkey?.trim() }
+        { key: 'newNoteHotkey', label: '新規ノート作成', value: settings.newNoteHotkey?.trim() },
+        { key: 'captureHotkey', label: '画面を切り取って付箋に追加', value: settings.captureHotkey?.trim() }
       ].filter(hotkey => hotkey.value && hotkey.value.length > 0);
       
       // 重複チェック
@@ -600,6 +758,29 @@ export const SettingsApp: React.FC = () => {
             </div>
           </div>
           
+          <div className="hotkey-setting">
+            <label>画面を切り取って付箋に追加:</label>
+            <div className="hotkey-input-group">
+              <input
+                type="text"
+                value={listeningFor === 'captureHotkey' 
+                  ? (pressedKeys.size > 0 ? Array.from(pressedKeys).join('+') : 'キーを押してください...') 
+                  : (settings.captureHotkey || '')}
+                readOnly
+                onClick={() => startListening('captureHotkey')}
+                placeholder="クリックしてキーを設定"
+                className={listeningFor === 'captureHotkey' ? 'listening' : ''}
+              />
+              <button 
+                type="button" 
+                className="clear-button"
+                onClick={() => clearHotkey('captureHotkey')}
+              >
+                ×
+              </button>
+            </div>
+          </div>
+          
         </div>
 
         <div className="settings-section">
@@ -745,6 +926,57 @@ export const SettingsApp: React.FC = () => {
             </div>
           </div>
           
+          <div className="setting-row">
+            <label>チェックリスト:</label>
+            <div className="checkbox-group">
+              <input
+                type="checkbox"
+                checked={settings.moveCheckedToBottom}
+                onChange={(e) => setSettings(prev => ({ ...prev, moveCheckedToBottom: e.target.checked }))}
+                className="auto-start-checkbox"
+              />
+              <span className="checkbox-label">チェックした項目を自動でリストの末尾に移動する</span>
+            </div>
+          </div>
+          
+          <div className="setting-row">
+            <label>リンク:</label>
+            <div className="checkbox-group">
+              <input
+                type="checkbox"
+                checked={settings.fetchLinkTitles}
+                onChange={(e) => setSettings(prev => ({ ...prev, fetchLinkTitles: e.target.checked }))}
+                className="auto-start-checkbox"
+              />
+              <span className="checkbox-label">リンク先のページタイトルを取得して表示する</span>
+            </div>
+          </div>
+          
+          <div className="setting-row">
+            <label htmlFor="storageBackend">保存形式:</label>
+            <div className="export-group">
+              <select
+                id="storageBackend"
+                value={settings.storageBackend}
+                onChange={(e) => setSettings(prev => ({ ...prev, storageBackend: e.target.value as StorageBackend }))}
+                className="backup-mode-select"
+              >
+                <option value="json">JSONファイル（notes.json）</option>
+                <option value="sqlite">データベース（SQLite）</option>
+              </select>
+              <p className="arrange-description">
+                付箋が多い場合はデータベースにすると保存が速くなります。保存時に現在の付箋を新しい保存形式へ移行します
+              </p>
+              {storageMetrics && (
+                <p className="arrange-description">
+                  {storageMetrics.noteCount}件 / 読み込み {storageMetrics.loadMs.toFixed(1)}ms / 
+                  保存 平均 {storageMetrics.averageSaveMs.toFixed(1)}ms・最大 {storageMetrics.maxSaveMs.toFixed(1)}ms（{storageMetrics.saveCount}回）
+                  {storageMetrics.pendingCount > 0 && ` / 未保存 ${storageMetrics.pendingCount}件`}
+                </p>
+              )}
+            </div>
+          </div>
+          
           <div className="setting-row">
             <label>付箋のエクスポート:</label>
             <div className="export-group">
@@ -756,6 +988,61 @@ export const SettingsApp: React.FC = () => {
               >
                 {isExporting ? 'エクスポート中...' : '.txtファイルで出力'}
               </button>
+              <button 
+                type="button" 
+                onClick={handleExportToMarkdown}
+                disabled={isExporting}
+                className="export-button"
+              >
+                .mdファイルで出力（画像付き）
+              </button>
+              <button 
+                type="button" 
+                onClick={handleImportMarkdown}
+                disabled={isExporting}
+                className="export-button"
+              >
+                .mdファイルを取り込み
+              </button>
+              {exportMessage && (
+                <p className="arrange-description">{exportMessage}</p>
+              )}
+            </div>
+          </div>
+          
+          <div className="setting-row">
+            <label>バックアップ:</label>
+            <div className="export-group">
+              <button 
+                type="button" 
+                onClick={handleExportBackup}
+                disabled={isBackingUp}
+                className="export-button"
+              >
+                バックアップを作成
+              </button>
+              <div className="backup-import-group">
+                <select
+                  value={backupImportMode}
+                  onChange={(e) => setBackupImportMode(e.target.value as BackupImportMode)}
+                  disabled={isBackingUp}
+                  className="backup-mode-select"
+                >
+                  <option value="merge">現在の付箋に追加</option>
+                  <option value="replace">置き換え（現在の付箋はゴミ箱へ）</option>
+                </select>
+                <button 
+                  type="button" 
+                  onClick={handleImportBackup}
+                  disabled={isBackingUp}
+                  className="export-button"
+                >
+                  {isBackingUp ? '処理中...' : 'バックアップから復元'}
+                </button>
+              </div>
+              <p className="arrange-description">
+                {backupMessage || 'すべての付箋（画像・位置・色を含む）と設定を1つのファイルに保存します'}
+              </p>
             </div>
           </div>
           
@@ -777,6 +1064,66 @@ export const SettingsApp: React.FC = () => {
           </div>
           
         </div>
+
+        <div className="settings-section">
+          <h3>フォルダ同期</h3>
+          
+          <div className="setting-row">
+            <label>同期フォルダ:</label>
+            <div className="export-group">
+              <div className="backup-import-group">
+                <input
+                  type="text"
+                  value={settings.syncFolderPath}
+                  placeholder="同期しない"
+                  readOnly
+                  className="sync-folder-input"
+                />
+                <button type="button" onClick={handleSelectSyncFolder} className="export-button">
+                  選択
+                </button>
+                {settings.syncFolderPath && (
+                  <button
+                    type="button"
+                    onClick={() => setSettings(prev => ({ ...prev, syncFolderPath: '' }))}
+                    className="export-button"
+                  >
+                    解除
+                  </button>
+                )}
+              </div>
+              <p className="arrange-description">
+                付箋を1枚ずつファイルとしてフォルダに保存し、SyncthingやGitなどによる外部での変更を自動で取り込みます。
+                両方で編集された付箋は上書きせず、競合コピーとして別の付箋に残します
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="settings-section" ref={trashSectionRef}>
+          <h3>ゴミ箱</h3>
+          
+          <div className="setting-row">
+            <label htmlFor="trashRetentionDays">自動削除までの日数:</label>
+            <div className="size-input-group">
+              <input
+                type="number"
+                id="trashRetentionDays"
+                min="1"
+                max="365"
+                value={settings.trashRetentionDays}
+                onChange={(e) => setSettings(prev => ({
+                  ...prev,
+                  trashRetentionDays: Math.min(365, Math.max(1, parseInt(e.target.value) || 30))
+                }))}
+                className="size-input"
+              />
+              <span className="size-unit">日</span>
+            </div>
+          </div>
+          
+          <TrashList retentionDays={settings.trashRetentionDays} />
+        </div>
         
         {errorMessage && (
           <div className="error-message" style={{ 
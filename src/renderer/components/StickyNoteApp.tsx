@@ -1,7 +1,34 @@
 import React, { useState, useEffect, useRef, memo, useMemo, useCallback } from 'react';
-import { StickyNote, RichContent, AppSettings } from '../../types';
+import { StickyNote, RichContent, ContentBlock, AppSettings, ReminderRecurrence } from '../../types';
 import { NoteHeader } from './NoteHeader';
 import { NoteContent } from './NoteContent';
+import { NoteEditorHandle } from './FormattedTextEditor';
+import { NoteHistoryPanel } from './NoteHistoryPanel';
+import { BacklinksBar } from './BacklinksBar';
+import { extractTags } from '../../utils/tagUtils';
+import { toggleChecklistInContent } from '../../utils/checklistUtils';
+import { getPlainText, hasNonTextBlocks, keepsNonTextBlocks } from '../../utils/blockTextUtils';
+import { UndoStack } from '../../utils/undoStack';
+
+// 元に戻す・やり直しの対象となる付箋の状態
+type NoteSnapshot = Pick<StickyNote, 'content' | 'backgroundColor' | 'headerColor' | 'fontSize'>;
+
+const UNDOABLE_SETTINGS: (keyof NoteSnapshot)[] = ['backgroundColor', 'headerColor', 'fontSize'];
+
+const getSnapshot = (note: StickyNote): NoteSnapshot => ({
+  content: note.content,
+  backgroundColor: note.backgroundColor,
+  headerColor: note.headerColor,
+  fontSize: note.fontSize
+});
+
+// 文字入力のみの変更は連続したものを1回の操作にまとめる（ブロックの追加・移動・削除などは1回ずつ）
+const getContentHistoryGroup = (before: string | RichContent, after: string | RichContent): string | undefined => {
+  const getBlocks = (content: string | RichContent) =>
+    JSON.stringify(typeof content === 'string' ? [] : content.blocks.filter(block => block.type !== 'text'));
+  if (getBlocks(before) !== getBlocks(after)) return undefined;
+  return getPlainText(before) !== getPlainText(after) ? 'typing' : undefined;
+};
 
 
 export const StickyNoteApp: React.FC = memo(() => {
@@ -12,7 +39,10 @@ export const StickyNoteApp: React.FC = memo(() => {
   const [isTransitioning, setIsTransitioning] = useState(false);
   const [loadingError, setLoadingError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const contentRef = useRef<HTMLTextAreaElement>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isPreview, setIsPreview] = useState(false);
+  const contentRef = useRef<NoteEditorHandle>(null);
+  const undoStackRef = useRef(new UndoStack<NoteSnapshot>());
   const saveTimeoutRef = useRef<NodeJS.Timeout>();
   const lastEscPressRef = useRef<number>(0);
   const autoSaveIntervalRef = useRef<NodeJS.Timeout>();
@@ -307,6 +337,23 @@ export const StickyNoteApp: React.FC = memo(() => {
       
       const keyCombo = keys.join('+');
 
+      // 元に戻す・やり直し（テキスト・画像・色・文字サイズの変更をまとめて扱うため、入力欄の標準の動作は使わない）
+      // 画像編集パネルの中では画像編集の操作を優先する
+      const isInImageEditor = event.target instanceof Element && !!event.target.closest('.image-editor-panel');
+      if (!isInImageEditor && (event.ctrlKey || event.metaKey) && !event.altKey) {
+        const key = event.key.toLowerCase();
+        if (key === 'z' && !event.shiftKey) {
+          event.preventDefault();
+          undo();
+          return;
+        }
+        if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.shiftKey)) {
+          event.preventDefault();
+          redo();
+          return;
+        }
+      }
+
       // ピン留めショートカットキー
       if (settings.pinHotkey && keyCombo === settings.pinHotkey) {
         event.preventDefault();
@@ -466,6 +513,48 @@ export const StickyNoteApp: React.FC = memo(() => {
     };
   }, [isActive, note]);
 
+  // 変更履歴パネルの表示要求をリッスン（コンテキストメニューから送信される）
+  useEffect(() => {
+    window.electronAPI.onShowNoteHistory(() => {
+      setShowHistory(true);
+    });
+  }, []);
+
+  // 通知後にメインプロセスで更新されたリマインダー（次回時刻・解除）を反映
+  useEffect(() => {
+    window.electronAPI.onReminderChanged((reminder) => {
+      setNote(prev => prev ? {
+        ...prev,
+        reminderAt: reminder.reminderAt ?? undefined,
+        reminderRecurrence: reminder.reminderRecurrence ?? undefined
+      } : null);
+    });
+  }, []);
+
+  // 履歴パネルは編集モードで表示し、表示モードに戻ったら閉じる
+  useEffect(() => {
+    if (showHistory && !isActive) {
+      handleNoteClick();
+    }
+  }, [showHistory]);
+
+  useEffect(() => {
+    if (!isActive) {
+      setShowHistory(false);
+      setIsPreview(false);
+    }
+  }, [isActive]);
+
+  const togglePreview = useCallback(() => {
+    setIsPreview(prev => {
+      if (prev) {
+        // 編集に戻ったらエディタにフォーカス
+        setTimeout(() => contentRef.current?.focus(), 0);
+      }
+      return !prev;
+    });
+  }, []);
+
   useEffect(() => {
     if (note) {
       document.body.style.backgroundColor = note.backgroundColor;
@@ -579,13 +668,18 @@ export const StickyNoteApp: React.FC = memo(() => {
     }
   }, [note?.backgroundColor, note?.headerColor]);
 
-  const updateNoteContent = async (content: string) => {
+  // historyGroupを省略すると変更内容から履歴のまとめ方を決める（nullはまとめない）
+  const updateNoteContent = async (content: string | RichContent, historyGroup?: string | null) => {
     if (!note) {
       console.log('[DEBUG] updateNoteContent: note is null, skipping update');
       return;
     }
 
-    setNote(prev => prev ? { ...prev, content } : null);
+    undoStackRef.current.record(
+      getSnapshot(note),
+      historyGroup === undefined ? getContentHistoryGroup(note.content, content) : historyGroup ?? undefined
+    );
+    setNote(prev => prev ? { ...prev, content, tags: extractTags(content) } : null);
 
     // タイマーをクリア
     if (saveTimeoutRef.current) {
@@ -593,7 +687,7 @@ export const StickyNoteApp: React.FC = memo(() => {
     }
 
     try {
-      // 即座に保存して競合状態を回避（contentは文字列なのでサニタイズ不要）
+      // 即座に保存して競合状態を回避
       await window.electronAPI.updateNote(note.id, { content });
       lastSaveRef.current = Date.now();
     } catch (error) {
@@ -630,6 +724,11 @@ export const StickyNoteApp: React.FC = memo(() => {
       return;
     }
 
+    // 色・文字サイズの変更は元に戻せるよう記録
+    if (UNDOABLE_SETTINGS.some(key => key in updates && updates[key] !== note[key])) {
+      undoStackRef.current.record(getSnapshot(note));
+    }
+
     // 付箋が削除されていないかチェック
     try {
       setNote(prev => prev ? { ...prev, ...updates } : null);
@@ -644,6 +743,38 @@ export const StickyNoteApp: React.FC = memo(() => {
     }
   };
 
+  // 記録した状態を付箋に反映（内容・色・文字サイズをまとめて保存）
+  const applySnapshot = async (snapshot: NoteSnapshot) => {
+    if (!note) return;
+    setNote(prev => prev ? { ...prev, ...snapshot, tags: extractTags(snapshot.content) } : null);
+    try {
+      // ヘッダー色が未設定だった場合は空文字で解除する（undefinedはIPCで送られないため）
+      await window.electronAPI.updateNote(note.id, { ...snapshot, headerColor: snapshot.headerColor ?? '' });
+      lastSaveRef.current = Date.now();
+    } catch (error) {
+      console.error('Failed to apply undo/redo:', error);
+    }
+  };
+
+  const undo = () => {
+    if (!note) return;
+    const snapshot = undoStackRef.current.undo(getSnapshot(note));
+    if (snapshot) applySnapshot(snapshot);
+  };
+
+  const redo = () => {
+    if (!note) return;
+    const snapshot = undoStackRef.current.redo(getSnapshot(note));
+    if (snapshot) applySnapshot(snapshot);
+  };
+
+  // コンテキストメニューからの元に戻す・やり直し
+  const editCommandHandlerRef = useRef<(command: 'undo' | 'redo') => void>(() => {});
+  editCommandHandlerRef.current = (command) => (command === 'undo' ? undo() : redo());
+  useEffect(() => {
+    window.electronAPI.onNoteEditCommand((command) => editCommandHandlerRef.current(command));
+  }, []);
+
   const handleNoteClick = async () => {
     if (!isActive && note && !isTransitioning) {
       setIsTransitioning(true);
@@ -681,10 +812,61 @@ export const StickyNoteApp: React.FC = memo(() => {
       .join('\n');
   };
 
+  const setReminder = async (reminderAt: number | null, recurrence: ReminderRecurrence | null) => {
+    if (!note) return;
+
+    const result = await window.electronAPI.setNoteReminder(note.id, reminderAt, recurrence);
+    if (result.success) {
+      setNote(prev => prev ? {
+        ...prev,
+        reminderAt: reminderAt ?? undefined,
+        reminderRecurrence: reminderAt ? recurrence ?? undefined : undefined
+      } : null);
+    } else {
+      console.error('[ERROR] Failed to set reminder:', result.error);
+    }
+  };
+
+  // チェックリスト項目の切り替え（非アクティブ時も付箋をアクティブ化せずに保存）
+  const toggleTask = (lineIndex: number) => {
+    if (!note) return;
+    // 行を含むテキストブロックだけを書き換える（画像・コード・表のブロックはそのまま）
+    const newContent = toggleChecklistInContent(
+      note.content,
+      lineIndex,
+      settings?.moveCheckedToBottom ?? false
+    );
+    if (newContent === note.content) return;
+    if (!keepsNonTextBlocks(note.content, newContent)) {
+      console.error('[ERROR] toggleTask: refusing to save content that drops non-text blocks');
+      return;
+    }
+    updateNoteContent(newContent, null);
+  };
+
+  // コードブロック・表を末尾に追加（テキストのみの付箋はブロック形式に変換）
+  const insertBlock = (type: 'code' | 'table') => {
+    if (!note) return;
+    const blocks: ContentBlock[] = typeof note.content === 'string'
+      ? (note.content ? [{ id: `text-${Date.now()}`, type: 'text', content: note.content }] : [])
+      : note.content.blocks;
+    const newBlock: ContentBlock = type === 'code'
+      ? { id: `code-${Date.now()}`, type: 'code', content: '', metadata: { language: '' } }
+      : { id: `table-${Date.now()}`, type: 'table', content: '', metadata: { rows: [['', ''], ['', '']] } };
+
+    setIsPreview(false);
+    updateNoteContent({ blocks: [...blocks, newBlock] });
+  };
+
   // 確実な空判定関数
   const isReallyEmpty = (content: string | RichContent): boolean => {
     if (!content) return true;
     
+    // 画像・コード・表を含む付箋は空として扱わない
+    if (hasNonTextBlocks(content)) {
+      return false;
+    }
+    
     let textContent = '';
     if (typeof content === 'string') {
       textContent = content;
@@ -938,14 +1120,21 @@ export const StickyNoteApp: React.FC = memo(() => {
         onCreateNote={createNewNote}
         onTogglePin={togglePin}
         onToggleLock={toggleLock}
+        isPreview={isPreview}
+        onTogglePreview={togglePreview}
+        onSetReminder={setReminder}
+        onInsertBlock={insertBlock}
       />
       
       <NoteContent
         note={note}
         isActive={isActive}
+        isPreview={isPreview}
         ref={contentRef}
         onContentChange={updateNoteContent}
         onBlur={handleBlur}
+        onExitPreview={togglePreview}
+        onToggleTask={toggleTask}
         inactiveFontSize={(() => {
           const fontSize = settings?.defaultInactiveFontSize ?? 12;
           if (process.env.NODE_ENV === 'development') {
@@ -954,6 +1143,15 @@ export const StickyNoteApp: React.FC = memo(() => {
           return fontSize;
         })()}
       />
+      
+      {isActive && <BacklinksBar note={note} />}
+      
+      {showHistory && (
+        <NoteHistoryPanel
+          note={note}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   );
 });
\ No newline at end of file
@@ -0,0 +1,154 @@
+import React, { useRef, useState } from 'react';
+
+interface TableBlockEditorProps {
+  rows: string[][];
+  isActive: boolean;
+  onChange?: (rows: string[][]) => void;
+  onRemove?: () => void;
+  onBlur?: () => void;
+}
+
+type CellPosition = { row: number; column: number };
+
+/**
+ * 簡易的な表ブロック（1行目は見出し行）
+ * Tab/Shift+Tabで次/前のセルへ移動し、最後のセルでTabを押すと行を追加する
+ */
+export const TableBlockEditor: React.FC<TableBlockEditorProps> = ({ rows, isActive, onChange, onRemove, onBlur }) => {
+  const [focusedCell, setFocusedCell] = useState<CellPosition | null>(null);
+  const tableRef = useRef<HTMLTableElement>(null);
+  const columnCount = Math.max(1, ...rows.map(row => row.length));
+
+  // 列数の揃っていない行は空のセルで補う
+  const normalizedRows = rows.map(row => Array.from({ length: columnCount }, (_, index) => row[index] ?? ''));
+
+  const focusCell = (position: CellPosition) => {
+    setTimeout(() => {
+      const input = tableRef.current?.querySelector<HTMLInputElement>(
+        `input[data-row="${position.row}"][data-column="${position.column}"]`
+      );
+      input?.focus();
+    }, 0);
+  };
+
+  const updateCell = (rowIndex: number, columnIndex: number, value: string) => {
+    onChange?.(normalizedRows.map((row, r) =>
+      r === rowIndex ? row.map((cell, c) => (c === columnIndex ? value : cell)) : row
+    ));
+  };
+
+  const addRow = (afterIndex: number) => {
+    const newRows = [...normalizedRows];
+    newRows.splice(afterIndex + 1, 0, Array(columnCount).fill(''));
+    onChange?.(newRows);
+    return afterIndex + 1;
+  };
+
+  const addColumn = (afterIndex: number) => {
+    onChange?.(normalizedRows.map(row => {
+      const newRow = [...row];
+      newRow.splice(afterIndex + 1, 0, '');
+      return newRow;
+    }));
+  };
+
+  const removeRow = (rowIndex: number) => {
+    if (normalizedRows.length <= 1) return;
+    onChange?.(normalizedRows.filter((_, index) => index !== rowIndex));
+    setFocusedCell(null);
+  };
+
+  const removeColumn = (columnIndex: number) => {
+    if (columnCount <= 1) return;
+    onChange?.(normalizedRows.map(row => row.filter((_, index) => index !== columnIndex)));
+    setFocusedCell(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, position: CellPosition) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+
+    const index = position.row * columnCount + position.column + (e.shiftKey ? -1 : 1);
+    if (index < 0) return;
+    if (index >= normalizedRows.length * columnCount) {
+      const newRow = addRow(normalizedRows.length - 1);
+      focusCell({ row: newRow, column: 0 });
+      return;
+    }
+    focusCell({ row: Math.floor(index / columnCount), column: index % columnCount });
+  };
+
+  if (!isActive || !onChange) {
+    return (
+      <table className="table-block">
+        <tbody>
+          {normalizedRows.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              {row.map((cell, columnIndex) => rowIndex === 0
+                ? <th key={columnIndex}>{cell}</th>
+                : <td key={columnIndex}>{cell}</td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  const target = focusedCell || { row: normalizedRows.length - 1, column: columnCount - 1 };
+
+  return (
+    <div className="table-block-editor" onClick={(e) => e.stopPropagation()}>
+      <table ref={tableRef} className="table-block">
+        <tbody>
+          {normalizedRows.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              {row.map((cell, columnIndex) => {
+                const CellTag = rowIndex === 0 ? 'th' : 'td';
+                return (
+                  <CellTag key={columnIndex}>
+                    <input
+                      className="table-block-input"
+                      value={cell}
+                      data-row={rowIndex}
+                      data-column={columnIndex}
+                      onChange={(e) => updateCell(rowIndex, columnIndex, e.target.value)}
+                      onKeyDown={(e) => handleKeyDown(e, { row: rowIndex, column: columnIndex })}
+                      onFocus={() => setFocusedCell({ row: rowIndex, column: columnIndex })}
+                      onBlur={onBlur}
+                    />
+                  </CellTag>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* 選択中のセル（未選択時は最後のセル）を基準に行・列を追加・削除 */}
+      <div className="table-block-toolbar" onMouseDown={(e) => e.preventDefault()}>
+        <button className="table-block-button" onClick={() => addRow(target.row)} title="下に行を追加">＋行</button>
+        <button className="table-block-button" onClick={() => addColumn(target.column)} title="右に列を追加">＋列</button>
+        <button
+          className="table-block-button"
+          onClick={() => removeRow(target.row)}
+          disabled={normalizedRows.length <= 1}
+          title="行を削除"
+        >
+          −行
+        </button>
+        <button
+          className="table-block-button"
+          onClick={() => removeColumn(target.column)}
+          disabled={columnCount <= 1}
+          title="列を削除"
+        >
+          −列
+        </button>
+        {onRemove && (
+          <button className="table-block-button" onClick={onRemove} title="表を削除">×</button>
+        )}
+      </div>
+    </div>
+  );
+};
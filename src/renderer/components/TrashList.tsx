@@ -0,0 +1,130 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { StickyNote, RichContent } from '../../types';
+
+interface TrashListProps {
+  retentionDays: number;
+}
+
+const getContentAsString = (content: string | RichContent): string => {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content.blocks
+    .filter(block => block.type === 'text')
+    .map(block => block.content)
+    .join(' ');
+};
+
+const createPreviewText = (note: StickyNote, maxLength: number = 40): string => {
+  const text = getContentAsString(note.content).replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return typeof note.content === 'string' ? '（空の付箋）' : '（画像のみの付箋）';
+  }
+  return text.length > maxLength ? text.substring(0, maxLength - 3) + '...' : text;
+};
+
+export const TrashList: React.FC<TrashListProps> = ({ retentionDays }) => {
+  const [trashedNotes, setTrashedNotes] = useState<StickyNote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState('');
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const notes = await window.electronAPI.getTrashedNotes();
+      setTrashedNotes(notes);
+    } catch (error) {
+      console.error('[ERROR] Failed to load trash:', error);
+      setErrorMessage('ゴミ箱を読み込めませんでした');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  const handleRestore = async (noteId: string) => {
+    setErrorMessage('');
+    const result = await window.electronAPI.restoreTrashedNote(noteId);
+    if (!result.success) {
+      setErrorMessage(result.error || '付箋の復元に失敗しました');
+    }
+    await loadTrash();
+  };
+
+  const handlePurge = async (noteId: string) => {
+    setErrorMessage('');
+    const result = await window.electronAPI.purgeTrashedNote(noteId);
+    if (!result.success) {
+      setErrorMessage(result.error || '付箋の削除に失敗しました');
+    }
+    await loadTrash();
+  };
+
+  const handleEmptyTrash = async () => {
+    setErrorMessage('');
+    const result = await window.electronAPI.emptyTrash();
+    if (!result.success) {
+      setErrorMessage(result.error || 'ゴミ箱を空にできませんでした');
+    }
+    await loadTrash();
+  };
+
+  // 自動削除までの残り日数
+  const getRemainingDays = (note: StickyNote): number => {
+    const elapsedDays = (Date.now() - (note.deletedAt || 0)) / (24 * 60 * 60 * 1000);
+    return Math.max(0, Math.ceil(retentionDays - elapsedDays));
+  };
+
+  if (isLoading) {
+    return <p className="arrange-description">読み込み中...</p>;
+  }
+
+  return (
+    <div className="trash-list">
+      {trashedNotes.length === 0 ? (
+        <p className="arrange-description">ゴミ箱は空です</p>
+      ) : (
+        <>
+          {trashedNotes.map(note => (
+            <div key={note.id} className="trash-item">
+              <div
+                className="trash-color-badge"
+                style={{ backgroundColor: note.backgroundColor }}
+              />
+              <div className="trash-item-info">
+                <div className="trash-item-text">{createPreviewText(note)}</div>
+                <div className="trash-item-meta">
+                  {new Date(note.deletedAt || 0).toLocaleString()} に削除・あと{getRemainingDays(note)}日で自動削除
+                </div>
+              </div>
+              <button
+                type="button"
+                className="trash-action-button"
+                onClick={() => handleRestore(note.id)}
+              >
+                復元
+              </button>
+              <button
+                type="button"
+                className="trash-action-button danger"
+                onClick={() => handlePurge(note.id)}
+              >
+                完全に削除
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            className="trash-action-button danger"
+            onClick={handleEmptyTrash}
+          >
+            ゴミ箱を空にする
+          </button>
+        </>
+      )}
+      {errorMessage && <p className="trash-error">{errorMessage}</p>}
+    </div>
+  );
+};
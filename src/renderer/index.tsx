@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client';
 import { StickyNoteApp } from './components/StickyNoteApp';
 import { SettingsApp } from './components/SettingsApp';
 import { SearchApp } from './components/SearchApp';
+import { ScreenCaptureApp } from './components/ScreenCaptureApp';
 import './styles/global.css';
 import './styles/search.css';
 
@@ -13,6 +14,7 @@ const root = createRoot(container!);
 const urlParams = new URLSearchParams(window.location.search);
 const isSettingsPage = urlParams.get('settings') === 'true';
 const isSearchPage = urlParams.get('search') === 'true';
+const isCapturePage = urlParams.get('capture') === 'true';
 
 // 適切なアプリコンポーネントを選択
 let AppComponent;
@@ -20,6 +22,8 @@ if (isSettingsPage) {
   AppComponent = <SettingsApp />;
 } else if (isSearchPage) {
   AppComponent = <SearchApp />;
+} else if (isCapturePage) {
+  AppComponent = <ScreenCaptureApp />;
 } else {
   AppComponent = <StickyNoteApp />;
 }
@@ -1,4 +1,4 @@
-import { StickyNote, SearchQuery, SearchResult } from '../types';
+import { StickyNote, SearchQuery, SearchResult, NoteLinkInfo, NoteRevision, ReminderRecurrence, BackupImportMode, StorageMetrics, SavedSearch } from '../types';
 
 declare global {
   interface Window {
@@ -13,6 +13,9 @@ declare global {
       onSettingsChanged: (callback: () => void) => void;
       onSettingsPreview: (callback: (settings: any) => void) => void;
       onEmergencySaveRequest: (callback: () => void) => void;
+      onShowNoteHistory: (callback: () => void) => void;
+      onNoteEditCommand: (callback: (command: 'undo' | 'redo') => void) => void;
+      onReminderChanged: (callback: (reminder: { reminderAt: number | null; reminderRecurrence: ReminderRecurrence | null }) => void) => void;
       sendSettingsPreview: (settings: any) => Promise<void>;
       createNote: (nearNoteId?: string) => Promise<StickyNote>;
       updateNote: (noteId: string, updates: Partial<StickyNote>) => Promise<boolean>;
@@ -25,7 +28,10 @@ declare global {
       saveSettings: (settings: any) => Promise<boolean>;
       exportNotesToTxt: () => Promise<{success: boolean; path?: string; error?: string}>;
       selectFolderAndExportNotes: () => Promise<{success: boolean; path?: string; error?: string}>;
+      selectFolderAndExportNotesMarkdown: () => Promise<{success: boolean; path?: string; exportedCount?: number; error?: string}>;
+      importMarkdownNotes: () => Promise<{success: boolean; importedCount?: number; skippedCount?: number; error?: string}>;
       openUrlInBrowser: (url: string) => Promise<boolean>;
+      getLinkTitle: (url: string) => Promise<string | null>;
       arrangeAllNotes: () => Promise<{success: boolean; movedCount?: number; error?: string}>;
       reloadNote: (noteId: string) => Promise<{success: boolean; error?: string}>;
       
@@ -34,6 +40,52 @@ declare global {
       openNoteById: (noteId: string) => Promise<boolean>;
       closeSearch: () => void;
       
+      // 検索結果の一括操作のメソッド
+      deleteNotes: (noteIds: string[]) => Promise<{success: boolean; count?: number; error?: string}>;
+      setNotesColor: (noteIds: string[], backgroundColor: string) => Promise<{success: boolean; count?: number; error?: string}>;
+      setNotesPinned: (noteIds: string[], isPinned: boolean) => Promise<{success: boolean; count?: number; error?: string}>;
+      exportNotesMarkdown: (noteIds: string[]) => Promise<{success: boolean; path?: string; exportedCount?: number; error?: string}>;
+      bringNotesToFront: (noteIds: string[]) => Promise<{success: boolean; count?: number}>;
+      
+      // 保存した検索関連のメソッド
+      getSavedSearches: () => Promise<{savedSearches: SavedSearch[]; activeId: string | null}>;
+      saveSearch: (savedSearch: Omit<SavedSearch, 'id'> & { id?: string }) => Promise<{success: boolean; savedSearch?: SavedSearch; error?: string}>;
+      deleteSavedSearch: (savedSearchId: string) => Promise<{success: boolean; error?: string}>;
+      applySavedSearch: (savedSearchId: string) => Promise<{success: boolean; count?: number; error?: string}>;
+      clearSavedSearchFilter: () => Promise<void>;
+      
+      // 付箋間リンク関連のメソッド
+      getNoteTitles: () => Promise<NoteLinkInfo[]>;
+      openNoteByTitle: (title: string) => Promise<boolean>;
+      getBacklinks: (noteId: string) => Promise<NoteLinkInfo[]>;
+      
+      // ゴミ箱関連のメソッド
+      getTrashedNotes: () => Promise<StickyNote[]>;
+      restoreTrashedNote: (noteId: string) => Promise<{success: boolean; error?: string}>;
+      purgeTrashedNote: (noteId: string) => Promise<{success: boolean; error?: string}>;
+      emptyTrash: () => Promise<{success: boolean; error?: string}>;
+      
+      // リマインダー関連のメソッド
+      setNoteReminder: (noteId: string, reminderAt: number | null, recurrence: ReminderRecurrence | null) => Promise<{success: boolean; error?: string}>;
+      
+      getStorageMetrics: () => Promise<StorageMetrics>;
+      saveImageAsset: (dataUrl: string) => Promise<{ assetHash: string; mimeType: string; url: string } | null>;
+      
+      // 画面の範囲選択関連のメソッド
+      getScreenCaptureImage: () => Promise<string | null>;
+      finishScreenCapture: (region: { x: number; y: number; width: number; height: number } | null) => Promise<void>;
+      
+      // フォルダ同期関連のメソッド
+      selectSyncFolder: () => Promise<string | null>;
+      
+      // バックアップ関連のメソッド
+      exportBackup: () => Promise<{success: boolean; filePath?: string; noteCount?: number; error?: string}>;
+      importBackup: (mode: BackupImportMode) => Promise<{success: boolean; importedCount?: number; remappedCount?: number; error?: string}>;
+      
+      // 変更履歴関連のメソッド
+      getNoteHistory: (noteId: string) => Promise<NoteRevision[]>;
+      restoreNoteRevision: (noteId: string, revisionId: string) => Promise<{success: boolean; error?: string}>;
+      
       // コンソール関連のメソッド
       openConsole: () => Promise<void>;
     };
@@ -1,14 +1,57 @@
+// テキストの書式（start〜endはブロックのcontent内の文字位置、endは含まない）
+export type TextMarkType = 'bold' | 'italic' | 'strikethrough' | 'underline' | 'code' | 'color' | 'highlight';
+
+export interface TextMark {
+  type: TextMarkType;
+  start: number;
+  end: number;
+  value?: string; // color・highlightの色
+}
+
+export type ContentBlockType = 'text' | 'image' | 'code' | 'table';
+
 export interface ContentBlock {
   id: string;
-  type: 'text' | 'image';
-  content: string;
+  type: ContentBlockType;
+  content: string; // codeブロックはコード本文、tableブロックは未使用（空文字）
+  marks?: TextMark[]; // テキストブロックの書式（contentは常に書式なしのテキスト）
   metadata?: any;
 }
 
+// codeブロックのmetadata
+export interface CodeBlockMetadata {
+  language: string; // 空文字は言語指定なし
+}
+
+// tableブロックのmetadata（1行目を見出し行として表示）
+export interface TableBlockMetadata {
+  rows: string[][];
+}
+
+// 画像ブロックの注釈（座標は元画像のピクセル座標）
+export type ImageAnnotation =
+  | { type: 'arrow'; color: string; strokeWidth: number; x1: number; y1: number; x2: number; y2: number }
+  | { type: 'rect'; color: string; strokeWidth: number; x: number; y: number; width: number; height: number }
+  | { type: 'freehand'; color: string; strokeWidth: number; points: { x: number; y: number }[] }
+  | { type: 'text'; color: string; fontSize: number; x: number; y: number; text: string };
+
+// 画像ブロックの非破壊編集（metadata.editsに保存し、元画像は変更しない）
+// 表示時は 元画像に注釈を描画 → 切り抜き → 回転 の順に適用する
+export interface ImageEdits {
+  naturalWidth: number;
+  naturalHeight: number;
+  crop?: { x: number; y: number; width: number; height: number };
+  rotation: 0 | 90 | 180 | 270;
+  annotations: ImageAnnotation[];
+}
+
 export interface RichContent {
   blocks: ContentBlock[];
 }
 
+// リマインダーの繰り返し設定
+export type ReminderRecurrence = 'daily' | 'weekdays' | 'weekly' | 'monthly';
+
 export interface StickyNote {
   id: string;
   content: string | RichContent;
@@ -30,12 +73,25 @@ export interface StickyNote {
   displayId: string;
   isActive: boolean;
   isNewlyCreated?: boolean; // 新規作成フラグ（初回編集モード化時にfalseになる）
+  tags: string[]; // 本文の#タグから抽出したタグ
+  reminderAt?: number; // リマインダーの通知日時（未設定時はundefined）
+  reminderRecurrence?: ReminderRecurrence; // リマインダーの繰り返し（未設定時は1回のみ）
   createdAt: number;
   updatedAt: number;
+  deletedAt?: number; // ゴミ箱に移動した日時（ゴミ箱内の付箋のみ）
 }
 
 // AnchorPoint型は削除
 
+// 付箋の変更履歴（リビジョン）
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  content: string | RichContent;
+  createdAt: number; // リビジョンの開始日時
+  updatedAt: number; // 最後に更新がまとめられた日時
+}
+
 export type DisplayInfo = {
   id: string;
   bounds: {
@@ -61,18 +117,84 @@ export interface AppSettings {
   pinHotkey?: string; // アクティブ付箋のピン留めを切り替えるホットキー
   lockHotkey?: string; // アクティブ付箋のロックを切り替えるホットキー
   newNoteHotkey?: string; // 新しい付箋を追加するホットキー
+  captureHotkey?: string; // 画面の範囲を切り取って新しい付箋にするホットキー
   autoStart?: boolean; // PC起動時の自動開始設定
+  trashRetentionDays?: number; // ゴミ箱内の付箋を自動削除するまでの日数（1-365日）
+  moveCheckedToBottom?: boolean; // チェックリストの完了項目を自動で末尾に移動
+  fetchLinkTitles?: boolean; // リンク先ページのタイトルを取得して表示
+  syncFolderPath?: string; // 付箋をファイルとして同期するフォルダ（空の場合は同期しない）
+  storageBackend?: StorageBackend; // 付箋データの保存形式
+  savedSearches?: SavedSearch[]; // 保存した検索（検索ウィンドウとトレイメニューから呼び出す）
+}
+
+// 保存した検索（選択すると一致する付箋だけを表示する）
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string; // 検索文字列（検索構文をそのまま保存）
+  caseSensitive?: boolean;
+  regex?: boolean;
+  fuzzy?: boolean;
+  romaji?: boolean;
+}
+
+// 付箋データの保存形式（json: notes.json / sqlite: notes.db）
+export type StorageBackend = 'json' | 'sqlite';
+
+// 付箋データの読み込み・保存にかかった時間（ミリ秒）
+export interface StorageMetrics {
+  backend: StorageBackend;
+  noteCount: number;
+  loadMs: number; // 起動時に保存先から全件を読み込んだ時間
+  saveCount: number;
+  lastSaveMs: number;
+  averageSaveMs: number;
+  maxSaveMs: number;
+  pendingCount: number; // まだ保存先に書き込まれていない付箋の数
 }
 
+// フォルダ同期で外部の変更を取り込んだ結果
+export interface FolderSyncResult {
+  updatedNotes: StickyNote[];
+  addedNotes: StickyNote[];
+  removedIds: string[]; // 外部で削除され、ゴミ箱へ移動した付箋
+  conflictCopies: StickyNote[]; // 両方で編集されていたため別の付箋として追加した外部側の版
+}
+
+// バックアップ関連の型定義
+export interface NotesBackup {
+  format: string; // バックアップファイルの識別子
+  version: number; // バックアップ形式のバージョン
+  exportedAt: number;
+  appVersion: string;
+  notes: StickyNote[];
+  settings: AppSettings;
+}
+
+// merge: 現在の付箋に追加 / replace: 現在の付箋を置き換え
+export type BackupImportMode = 'merge' | 'replace';
+
 // 検索関連の型定義
 export interface SearchIndex {
   noteId: string;
   searchText: string; // 検索用の正規化されたテキスト
+  sourceStarts: number[]; // searchTextの各文字に対応する元のテキストでの開始位置
+  sourceEnds: number[]; // searchTextの各文字に対応する元のテキストでの終了位置（含まない）
   previewText: string; // 表示用のプレビューテキスト（最初の100文字程度）
+  tags: string[]; // 正規化済みのタグ（tag:フィルタ用）
+  title: string; // 付箋のタイトル（本文の最初の行）
+  linkTitles: string[]; // 本文中の「[[タイトル]]」で参照している付箋の正規化済みタイトル
+  tokenCount: number; // 転置索引に登録した単語・n-gramの数（関連度の計算で文書の長さとして使う）
   updatedAt: number;
   createdAt: number;
 }
 
+// 付箋間リンクの補完候補・バックリンクとして表示する付箋
+export interface NoteLinkInfo {
+  noteId: string;
+  title: string;
+}
+
 export interface SearchHighlight {
   start: number;
   end: number;
@@ -86,8 +208,11 @@ export interface SearchResult {
 }
 
 export interface SearchQuery {
-  text: string;
+  text: string; // 検索文字列（フレーズ・除外・OR・フィールド指定は検索時に解析）
   keywords: string[]; // スペースで分割されたキーワード
   caseSensitive?: boolean;
+  regex?: boolean; // 単語・フレーズを正規表現として扱う
+  fuzzy?: boolean; // 一致しない場合に編集距離の近い語も探す（未指定時は有効）
+  romaji?: boolean; // ローマ字の検索語をひらがなに変換した語でも探す
   maxResults?: number;
 }
\ No newline at end of file
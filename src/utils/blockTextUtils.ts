@@ -0,0 +1,61 @@
+import { ContentBlock, RichContent } from '../types';
+
+/**
+ * 表の行（metadata.rows）を取得（不正な値は空の表として扱う）
+ */
+export const getTableRows = (block: ContentBlock): string[][] => {
+  const rows = block.metadata?.rows;
+  if (!Array.isArray(rows)) return [];
+  return rows
+    .filter((row: unknown) => Array.isArray(row))
+    .map((row: unknown[]) => row.map(cell => (typeof cell === 'string' ? cell : String(cell ?? ''))));
+};
+
+/**
+ * ブロックのテキスト（検索・テキスト出力用）
+ * 表はセルをタブ、行を改行で区切る。画像は対象外
+ */
+export const getBlockText = (block: ContentBlock): string => {
+  switch (block.type) {
+    case 'text':
+    case 'code':
+      return block.content || '';
+    case 'table':
+      return getTableRows(block).map(row => row.join('\t')).join('\n');
+    default:
+      return '';
+  }
+};
+
+/**
+ * 付箋の内容からテキストのみを取り出す
+ */
+export const getPlainText = (content: string | RichContent, separator: string = '\n'): string => {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return (content?.blocks || [])
+    .filter(block => block.type !== 'image')
+    .map(getBlockText)
+    .join(separator);
+};
+
+/**
+ * テキスト以外（画像・コード・表）のブロックを含むか
+ */
+export const hasNonTextBlocks = (content: string | RichContent): boolean => {
+  return typeof content !== 'string' && (content?.blocks || []).some(block => block.type !== 'text');
+};
+
+/**
+ * 変更後の内容にテキスト以外のブロックがすべて同じ順序で残っているか
+ * （画像ファイルは参照がなくなると削除されるため、失われる変更は保存しない）
+ */
+export const keepsNonTextBlocks = (before: string | RichContent, after: string | RichContent): boolean => {
+  const getIds = (content: string | RichContent) => typeof content === 'string'
+    ? []
+    : (content?.blocks || []).filter(block => block.type !== 'text').map(block => block.id);
+  const beforeIds = getIds(before);
+  const afterIds = getIds(after);
+  return beforeIds.length === afterIds.length && beforeIds.every((id, index) => id === afterIds[index]);
+};
@@ -0,0 +1,114 @@
+import { RichContent } from '../types';
+import { adjustMarksForTextChange } from './textMarkUtils';
+
+// 「- [ ] 項目」「* [x] 項目」「1. [ ] 項目」形式のチェックリスト行
+const CHECKLIST_LINE_PATTERN = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\]\s)/;
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+export const isChecklistLine = (line: string): boolean => {
+  return CHECKLIST_LINE_PATTERN.test(line);
+};
+
+const isCheckedLine = (line: string): boolean => {
+  const match = line.match(CHECKLIST_LINE_PATTERN);
+  return !!match && match[2] !== ' ';
+};
+
+/**
+ * チェックリストの完了数と総数を取得
+ */
+export const getChecklistProgress = (text: string): ChecklistProgress => {
+  let done = 0;
+  let total = 0;
+  text.split('\n').forEach(line => {
+    if (isChecklistLine(line)) {
+      total++;
+      if (isCheckedLine(line)) done++;
+    }
+  });
+  return { done, total };
+};
+
+/**
+ * 行内のチェックボックス（[ ] の中の文字）の位置を取得
+ * チェックリスト行でない場合は-1
+ */
+export const getCheckboxOffset = (line: string): number => {
+  const match = line.match(CHECKLIST_LINE_PATTERN);
+  return match ? match[1].length : -1;
+};
+
+/**
+ * 指定行のチェック状態を切り替えたテキストを返す
+ * @param lineIndex 切り替える行番号（0始まり）
+ * @param moveCheckedToBottom trueの場合、連続したチェックリスト内で完了項目を末尾に移動する
+ */
+export const toggleChecklistLine = (text: string, lineIndex: number, moveCheckedToBottom: boolean = false): string => {
+  const lines = text.split('\n');
+  const line = lines[lineIndex];
+  if (line === undefined || !isChecklistLine(line)) {
+    return text;
+  }
+
+  lines[lineIndex] = line.replace(CHECKLIST_LINE_PATTERN, (_, before, mark, after) =>
+    `${before}${mark === ' ' ? 'x' : ' '}${after}`
+  );
+
+  if (moveCheckedToBottom) {
+    // 切り替えた行を含む連続したチェックリストの範囲
+    let start = lineIndex;
+    while (start > 0 && isChecklistLine(lines[start - 1])) start--;
+    let end = lineIndex;
+    while (end < lines.length - 1 && isChecklistLine(lines[end + 1])) end++;
+
+    // 未完了 → 完了の順に並べ替え（それぞれの中の順序は維持）
+    const block = lines.slice(start, end + 1);
+    const reordered = [
+      ...block.filter(blockLine => !isCheckedLine(blockLine)),
+      ...block.filter(blockLine => isCheckedLine(blockLine))
+    ];
+    lines.splice(start, block.length, ...reordered);
+  }
+
+  return lines.join('\n');
+};
+
+/**
+ * 付箋の内容の指定行（テキストブロックを改行で連結したときの行番号）のチェック状態を切り替える
+ * 行を含むテキストブロックだけを書き換え、画像・コード・表などのブロックはそのまま残す
+ */
+export const toggleChecklistInContent = (
+  content: string | RichContent,
+  lineIndex: number,
+  moveCheckedToBottom: boolean = false
+): string | RichContent => {
+  if (typeof content === 'string') {
+    return toggleChecklistLine(content, lineIndex, moveCheckedToBottom);
+  }
+
+  let lineOffset = 0;
+  let changed = false;
+  const blocks = (content?.blocks || []).map(block => {
+    if (block.type !== 'text' || changed) return block;
+
+    const text = block.content || '';
+    const lineCount = text.split('\n').length;
+    if (lineIndex >= lineOffset + lineCount) {
+      lineOffset += lineCount;
+      return block;
+    }
+
+    changed = true;
+    const newText = toggleChecklistLine(text, lineIndex - lineOffset, moveCheckedToBottom);
+    if (newText === text) return block;
+    // 行の並べ替えで書式がずれないよう、書式の位置も合わせて更新
+    const marks = adjustMarksForTextChange(block.marks || [], text, newText);
+    return { ...block, content: newText, marks };
+  });
+
+  return changed ? { ...content, blocks } : content;
+};
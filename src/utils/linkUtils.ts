@@ -0,0 +1,82 @@
+export interface LinkMatch {
+  url: string;
+  start: number;
+  end: number;
+}
+
+// 本文中のリンク（http/https・mailto・file）
+const LINK_PATTERN = /(?:https?:\/\/|file:\/\/)[^\s<>()"']+|mailto:[^\s<>()"']+/gi;
+
+// リンク末尾に付きやすい句読点はリンクに含めない
+const TRAILING_PUNCTUATION_PATTERN = /[.,;:!?。、，．！？」』）】]+$/;
+
+// file:リンクで開いてよいファイル（文書と画像のみ。実行・マクロ・マウントされうる形式は含めない）
+const ALLOWED_FILE_EXTENSIONS = [
+  '.pdf', '.txt', '.md', '.csv', '.tsv', '.log', '.rtf', '.epub',
+  '.doc', '.docx', '.xls', '.xlsx', '.ppt', '.pptx', '.odt', '.ods', '.odp',
+  '.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp', '.tif', '.tiff', '.heic'
+];
+
+export type LinkKind = 'web' | 'mailto' | 'file';
+
+/**
+ * 本文中のリンクをすべて取得
+ */
+export const findLinks = (text: string): LinkMatch[] => {
+  const links: LinkMatch[] = [];
+  for (const match of text.matchAll(LINK_PATTERN)) {
+    const url = match[0].replace(TRAILING_PUNCTUATION_PATTERN, '');
+    const start = match.index ?? 0;
+    if (url.length > 0) {
+      links.push({ url, start, end: start + url.length });
+    }
+  }
+  return links;
+};
+
+/**
+ * 指定位置にあるリンク（なければnull）
+ */
+export const findLinkAt = (text: string, position: number): string | null => {
+  const link = findLinks(text).find(item => position >= item.start && position <= item.end);
+  return link ? link.url : null;
+};
+
+/**
+ * 開いてよいリンクの種類を判定（許可されていないものはnull）
+ * - web: ホスト名のあるhttp/https
+ * - mailto: 宛先のあるmailto
+ * - file: ホスト名のない（共有フォルダでない）ローカルの文書・画像ファイル
+ */
+export const getAllowedLinkKind = (url: string): LinkKind | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  switch (parsed.protocol) {
+    case 'http:':
+    case 'https:':
+      return parsed.hostname ? 'web' : null;
+    case 'mailto:':
+      return parsed.pathname.includes('@') ? 'mailto' : null;
+    case 'file:': {
+      // file://host/share や file:////host/share はネットワーク上のファイルとなり、
+      // 存在を確認するだけで接続先に認証情報が送られうるため開かない
+      if (parsed.hostname !== '' || parsed.pathname.startsWith('//')) {
+        return null;
+      }
+      let pathname: string;
+      try {
+        pathname = decodeURIComponent(parsed.pathname).toLowerCase().replace(/\/+$/, '');
+      } catch {
+        return null;
+      }
+      return ALLOWED_FILE_EXTENSIONS.some(extension => pathname.endsWith(extension)) ? 'file' : null;
+    }
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,40 @@
+import { ContentBlock, RichContent } from '../types';
+import { joinFormattedLines } from './textMarkUtils';
+
+/**
+ * ブロックの並びを正規化する（ブロックの順序はそのまま保つ）
+ * 連続するテキストブロックを1つにまとめ、重複・欠落したIDを振り直す
+ * 変更がなければ元のオブジェクトをそのまま返す
+ */
+export const normalizeRichContent = (content: RichContent): RichContent => {
+  const blocks: ContentBlock[] = [];
+  const usedIds = new Set<string>();
+  let changed = false;
+
+  (content.blocks || []).forEach((block, index) => {
+    const previous = blocks[blocks.length - 1];
+    if (block.type === 'text' && previous?.type === 'text') {
+      const joined = joinFormattedLines([
+        { text: previous.content || '', marks: previous.marks || [] },
+        { text: block.content || '', marks: block.marks || [] }
+      ]);
+      blocks[blocks.length - 1] = {
+        ...previous,
+        content: joined.text,
+        ...(joined.marks.length > 0 ? { marks: joined.marks } : {})
+      };
+      changed = true;
+      return;
+    }
+
+    let id = block.id;
+    if (typeof id !== 'string' || !id || usedIds.has(id)) {
+      id = `${block.type}-${Date.now()}-${index}`;
+      changed = true;
+    }
+    usedIds.add(id);
+    blocks.push(id === block.id ? block : { ...block, id });
+  });
+
+  return changed ? { ...content, blocks } : content;
+};
@@ -0,0 +1,34 @@
+import { SavedSearch, SearchQuery } from '../types';
+import { parseSearchQuery } from './searchQueryUtils';
+
+// 保存した検索の名前の最大文字数
+const MAX_NAME_LENGTH = 50;
+
+/**
+ * 保存した検索から検索条件を作成（検索画面と同じ形）
+ */
+export const createSavedSearchQuery = (savedSearch: SavedSearch, maxResults?: number): SearchQuery => ({
+  text: savedSearch.query,
+  keywords: savedSearch.query.split(/\s+/).filter(k => k.length > 0),
+  caseSensitive: savedSearch.caseSensitive,
+  regex: savedSearch.regex,
+  fuzzy: savedSearch.fuzzy,
+  romaji: savedSearch.romaji,
+  maxResults
+});
+
+/**
+ * 保存する検索の内容を検証（問題がなければnull、あればエラーメッセージ）
+ */
+export const validateSavedSearch = (savedSearch: Pick<SavedSearch, 'name' | 'query' | 'regex' | 'caseSensitive'>): string | null => {
+  const name = savedSearch.name.trim();
+  if (!name) return '名前を入力してください';
+  if (name.length > MAX_NAME_LENGTH) return `名前は${MAX_NAME_LENGTH}文字以内で入力してください`;
+  if (!savedSearch.query.trim()) return '検索キーワードを入力してください';
+
+  const { errors } = parseSearchQuery(savedSearch.query, {
+    regex: savedSearch.regex,
+    caseSensitive: savedSearch.caseSensitive
+  });
+  return errors.length > 0 ? errors[0] : null;
+};
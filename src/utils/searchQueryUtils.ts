@@ -0,0 +1,284 @@
+import { normalizeTag } from './tagUtils';
+
+// has: で指定できる付箋の内容
+export type SearchHasTarget = 'image' | 'code' | 'table' | 'link' | 'reminder';
+
+export type SearchComparator = '<' | '<=' | '>' | '>=' | '=';
+
+export type SearchFieldFilter =
+  | { field: 'tag'; value: string }
+  | { field: 'color'; value: string }
+  | { field: 'pinned' | 'locked'; value: boolean }
+  | { field: 'has'; value: SearchHasTarget }
+  // 日付指定は{ start, end }（その日の0時〜翌日0時）、相対指定（7dなど）はageMs（現在からの経過時間）
+  | { field: 'created' | 'updated'; comparator: SearchComparator; date?: { start: number; end: number }; ageMs?: number };
+
+export type SearchTerm =
+  | { type: 'text'; value: string; negated: boolean } // 単語または"フレーズ"
+  | { type: 'regex'; pattern: RegExp; negated: boolean }
+  | { type: 'filter'; filter: SearchFieldFilter; negated: boolean };
+
+/**
+ * 解析済みの検索クエリ
+ * groupsはすべて満たす必要があり（AND）、各グループ内はいずれかを満たせばよい（OR）
+ */
+export interface ParsedSearchQuery {
+  groups: SearchTerm[][];
+  errors: string[]; // 構文エラー（ある場合は検索しない）
+}
+
+export interface SearchQueryOptions {
+  regex?: boolean; // 正規表現モード（単語・フレーズを正規表現として扱う）
+  caseSensitive?: boolean;
+}
+
+interface RawToken {
+  text: string;
+  quoted: boolean;
+  negated: boolean;
+}
+
+const HAS_TARGETS: SearchHasTarget[] = ['image', 'code', 'table', 'link', 'reminder'];
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, yes: true, '1': true, false: false, no: false, '0': false };
+const DURATION_UNITS: Record<string, number> = { h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+const REGEX_TOKEN_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * 検索文字列を単語に分割（"..."はひとまとまり、先頭の-は除外指定）
+ */
+const tokenize = (input: string, errors: string[]): RawToken[] => {
+  const tokens: RawToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    let negated = false;
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    let text = '';
+    let quoted = false;
+    // 正規表現（/.../）は中の空白も含めて1語として扱う
+    const regexMatch = input[i] === '/' ? input.substring(i).match(/^\/(?:\\.|[^\/\\])+\/[a-z]*(?=\s|$)/) : null;
+    if (regexMatch) {
+      text = regexMatch[0];
+      i += text.length;
+    } else {
+      while (i < input.length && !/\s/.test(input[i])) {
+        if (input[i] === '"') {
+          const close = input.indexOf('"', i + 1);
+          if (close === -1) {
+            errors.push('「"」が閉じられていません');
+            text += input.substring(i + 1);
+            i = input.length;
+            break;
+          }
+          // 先頭が"の場合のみフレーズ（tag:"..." などはフィールドの値として扱う）
+          quoted = quoted || text === '';
+          text += input.substring(i + 1, close);
+          i = close + 1;
+        } else {
+          text += input[i++];
+        }
+      }
+    }
+
+    tokens.push({ text, quoted, negated });
+  }
+
+  return tokens;
+};
+
+/**
+ * 日付（YYYY-MM-DD）または相対期間（7d・12h・2w）の指定を解析
+ */
+const parseDateFilter = (
+  field: 'created' | 'updated',
+  value: string,
+  errors: string[]
+): SearchFieldFilter | null => {
+  const match = value.match(/^(<=|>=|<|>|=)?(.+)$/);
+  const comparator = (match?.[1] || '=') as SearchComparator;
+  const operand = match?.[2] || '';
+
+  const duration = operand.match(/^(\d+)([hdw])$/i);
+  if (duration) {
+    return { field, comparator, ageMs: Number(duration[1]) * DURATION_UNITS[duration[2].toLowerCase()] };
+  }
+
+  const date = operand.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (date) {
+    const start = new Date(Number(date[1]), Number(date[2]) - 1, Number(date[3]));
+    if (start.getMonth() === Number(date[2]) - 1) {
+      const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1);
+      return { field, comparator, date: { start: start.getTime(), end: end.getTime() } };
+    }
+  }
+
+  errors.push(`「${field}:${value}」の日付が不正です（例: ${field}:>2026-01-01、${field}:<7d）`);
+  return null;
+};
+
+/**
+ * 「フィールド:値」の指定を解析（フィールドでない場合はundefined）
+ */
+const parseFieldFilter = (text: string, errors: string[]): SearchFieldFilter | null | undefined => {
+  const separator = text.indexOf(':');
+  if (separator <= 0) return undefined;
+
+  const field = text.substring(0, separator).toLowerCase();
+  const value = text.substring(separator + 1);
+
+  switch (field) {
+    case 'tag': {
+      const tag = normalizeTag(value);
+      if (!tag) {
+        errors.push('「tag:」にタグ名を指定してください');
+        return null;
+      }
+      return { field, value: tag };
+    }
+    case 'color': {
+      const color = value.trim().replace(/^#/, '').toLowerCase();
+      if (!/^[0-9a-f]{1,8}$/.test(color)) {
+        errors.push(`「color:${value}」の色が不正です（例: color:#CCFFE6）`);
+        return null;
+      }
+      return { field, value: color };
+    }
+    case 'pinned':
+    case 'locked': {
+      const flag = BOOLEAN_VALUES[value.toLowerCase()];
+      if (flag === undefined) {
+        errors.push(`「${field}:」には true または false を指定してください`);
+        return null;
+      }
+      return { field, value: flag };
+    }
+    case 'has': {
+      const target = value.toLowerCase() as SearchHasTarget;
+      if (!HAS_TARGETS.includes(target)) {
+        errors.push(`「has:${value}」は指定できません（${HAS_TARGETS.join('・')}）`);
+        return null;
+      }
+      return { field, value: target };
+    }
+    case 'created':
+    case 'updated':
+      return parseDateFilter(field, value, errors);
+    default:
+      // URL（https://...）などはフィールド指定ではなく通常の単語として扱う
+      return undefined;
+  }
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const createRegExp = (source: string, flags: string, errors: string[]): RegExp | null => {
+  try {
+    return new RegExp(source, Array.from(new Set(flags + 'g')).join(''));
+  } catch (error) {
+    errors.push(`正規表現が不正です: ${error instanceof Error ? error.message : source}`);
+    return null;
+  }
+};
+
+const parseTerm = (token: RawToken, options: SearchQueryOptions, errors: string[]): SearchTerm | null => {
+  const { negated } = token;
+  const caseFlag = options.caseSensitive ? '' : 'i';
+
+  if (!token.quoted) {
+    const regexMatch = token.text.match(REGEX_TOKEN_PATTERN);
+    if (regexMatch) {
+      const pattern = createRegExp(regexMatch[1], regexMatch[2] + caseFlag, errors);
+      return pattern ? { type: 'regex', pattern, negated } : null;
+    }
+
+    const filter = parseFieldFilter(token.text, errors);
+    if (filter === null) return null;
+    if (filter) return { type: 'filter', filter, negated };
+  }
+
+  if (!token.text) {
+    if (negated || token.quoted) errors.push('空の検索語があります');
+    return null;
+  }
+
+  if (options.regex) {
+    const pattern = createRegExp(token.quoted ? escapeRegExp(token.text) : token.text, caseFlag, errors);
+    return pattern ? { type: 'regex', pattern, negated } : null;
+  }
+  return { type: 'text', value: token.text, negated };
+};
+
+/**
+ * 検索文字列を解析
+ * - 空白区切りの単語はすべて含む付箋（AND）、「OR」で区切るといずれかを含む付箋
+ * - "..."でフレーズ、先頭の-で除外、/.../で正規表現
+ * - tag: color: pinned: locked: has: created: updated: で絞り込み
+ */
+export const parseSearchQuery = (input: string, options: SearchQueryOptions = {}): ParsedSearchQuery => {
+  const errors: string[] = [];
+  const tokens = tokenize(input, errors);
+  const groups: SearchTerm[][] = [];
+  let pendingOr = false;
+
+  tokens.forEach((token, index) => {
+    if (token.text === 'OR' && !token.quoted && !token.negated) {
+      if (groups.length === 0 || pendingOr || index === tokens.length - 1) {
+        errors.push('「OR」の前後に検索語が必要です');
+      }
+      pendingOr = true;
+      return;
+    }
+
+    const term = parseTerm(token, options, errors);
+    if (term) {
+      if (pendingOr && groups.length > 0) {
+        groups[groups.length - 1].push(term);
+      } else {
+        groups.push([term]);
+      }
+    }
+    pendingOr = false;
+  });
+
+  return { groups, errors };
+};
+
+/**
+ * 作成日時・更新日時の絞り込み条件を満たすか
+ */
+export const matchesDateFilter = (
+  filter: Extract<SearchFieldFilter, { field: 'created' | 'updated' }>,
+  timestamp: number,
+  now: number
+): boolean => {
+  if (filter.ageMs !== undefined) {
+    // 相対指定は経過時間で比較（updated:<7d は7日以内に更新）
+    const age = now - timestamp;
+    switch (filter.comparator) {
+      case '<': return age < filter.ageMs;
+      case '<=': return age <= filter.ageMs;
+      case '>': return age > filter.ageMs;
+      case '>=': return age >= filter.ageMs;
+      case '=': return age <= filter.ageMs;
+    }
+  }
+
+  if (!filter.date) return false;
+  const { start, end } = filter.date;
+  switch (filter.comparator) {
+    case '<': return timestamp < start;
+    case '<=': return timestamp < end;
+    case '>': return timestamp >= end;
+    case '>=': return timestamp >= start;
+    case '=': return timestamp >= start && timestamp < end;
+  }
+};
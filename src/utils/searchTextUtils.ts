@@ -0,0 +1,318 @@
+/**
+ * 正規化したテキストと、各文字が元のテキストのどの範囲から来たか
+ * starts[i]〜ends[i]（endsは含まない）が正規化後のi文字目に対応する元のテキストの範囲
+ */
+export interface NormalizedText {
+  text: string;
+  starts: number[];
+  ends: number[];
+}
+
+export interface FuzzyMatch {
+  start: number;
+  end: number;
+  distance: number; // 編集距離
+}
+
+// 半角カナの濁点・半濁点と、結合文字の濁点・半濁点（直前の文字とまとめて正規化する）
+const VOICED_MARK_PATTERN = /[ﾞﾟ゙゚]/;
+
+/**
+ * カタカナをひらがなに変換（ヴ・ヵ・ヶも含む）
+ */
+const toHiragana = (text: string): string => {
+  return text.replace(/[ァ-ヶ]/g, char => String.fromCharCode(char.charCodeAt(0) - 0x60));
+};
+
+/**
+ * NFKCで変わらないよく使う文字（空白以外のASCII文字・ひらがな・カタカナ・漢字）の正規化
+ * 索引の作成を速くするため、これらの文字はNFKCを使わずに変換する（該当しない文字はnull）
+ */
+const normalizeCommonChar = (codePoint: number, char: string): string | null => {
+  if (codePoint > 0x20 && codePoint < 0x7F) {
+    return char.toLowerCase();
+  }
+  if ((codePoint >= 0x3041 && codePoint <= 0x3096) || codePoint === 0x30FC || (codePoint >= 0x4E00 && codePoint <= 0x9FFF)) {
+    return char;
+  }
+  if (codePoint >= 0x30A1 && codePoint <= 0x30F6) {
+    return toHiragana(char);
+  }
+  return null;
+};
+
+/**
+ * 検索用にテキストを正規化し、元のテキストでの位置を記録
+ * - 全角英数・記号は半角に、半角カナは全角に（NFKC）
+ * - 小文字化、カタカナはひらがなに
+ * - 連続する空白は1つにまとめ、前後の空白は除去
+ */
+export const normalizeSearchText = (source: string): NormalizedText => {
+  let text = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const codePoint = source.codePointAt(i) ?? 0;
+    let end = i + (codePoint > 0xFFFF ? 2 : 1);
+    while (end < source.length && VOICED_MARK_PATTERN.test(source[end])) {
+      end++;
+    }
+    const commonChar = end === i + 1 ? normalizeCommonChar(codePoint, source[i]) : null;
+    if (commonChar !== null) {
+      text += commonChar;
+      starts.push(i);
+      ends.push(end);
+      i = end;
+      continue;
+    }
+    const chunk = source.substring(i, end);
+
+    if (/^\s+$/.test(chunk)) {
+      if (text.length > 0 && text[text.length - 1] === ' ') {
+        // 連続する空白は直前の空白に含める
+        ends[ends.length - 1] = end;
+      } else if (text.length > 0) {
+        text += ' ';
+        starts.push(i);
+        ends.push(end);
+      }
+    } else {
+      const normalized = toHiragana(chunk.normalize('NFKC').toLowerCase());
+      for (const char of normalized) {
+        // 1文字が複数の文字に展開される場合（㍿ など）はすべて同じ範囲に対応させる
+        for (let unit = 0; unit < char.length; unit++) {
+          starts.push(i);
+          ends.push(end);
+        }
+        text += char;
+      }
+    }
+    i = end;
+  }
+
+  if (text.endsWith(' ')) {
+    text = text.slice(0, -1);
+    starts.pop();
+    ends.pop();
+  }
+
+  return { text, starts, ends };
+};
+
+/**
+ * 検索語の正規化（本文と同じ規則）
+ */
+export const normalizeSearchKeyword = (keyword: string): string => normalizeSearchText(keyword).text;
+
+/**
+ * 正規化後のテキストでの範囲を元のテキストでの範囲に変換
+ */
+export const toSourceRange = (
+  normalized: NormalizedText,
+  start: number,
+  end: number
+): { start: number; end: number } | null => {
+  if (start < 0 || end <= start || end > normalized.text.length) return null;
+  return { start: normalized.starts[start], end: normalized.ends[end - 1] };
+};
+
+// 漢字・かな（1文字あたりの情報量が多いため、英数字より長い語から2文字の違いを許す）
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u;
+
+/**
+ * 検索語の長さに応じて許容する編集距離（短い語は完全一致のみ）
+ */
+export const getFuzzyTolerance = (keyword: string): number => {
+  const length = Array.from(keyword).length;
+  if (length < 4) return 0;
+  if (length < (CJK_PATTERN.test(keyword) ? 9 : 6)) return 1;
+  return 2;
+};
+
+/**
+ * テキスト（from〜toの範囲）中で検索語との編集距離がmaxDistance以下の部分を探す（Sellersのアルゴリズム）
+ * 重なり合う候補は編集距離の小さいもの（同じ場合は長さが検索語に近いもの）を残す
+ */
+export const findFuzzyMatches = (
+  text: string,
+  keyword: string,
+  maxDistance: number,
+  from: number = 0,
+  to: number = text.length
+): FuzzyMatch[] => {
+  const m = keyword.length;
+  if (m === 0 || maxDistance <= 0) return [];
+
+  // costs[i]: 検索語のi文字目までと、テキストの現在位置で終わる部分文字列との最小編集距離
+  let costs: number[] = [];
+  // origins[i]: その部分文字列の開始位置
+  let origins: number[] = [];
+  // 1文字ごとに配列を作らないよう、前の位置の配列と入れ替えて使う
+  let nextCosts: number[] = [];
+  let nextOrigins: number[] = [];
+  // 文字の比較は文字コードで行う（text[j]は漢字・かなでは1文字ごとに文字列が作られるため）
+  const keywordCodes: number[] = [];
+  for (let i = 0; i <= m; i++) {
+    costs.push(i);
+    origins.push(from);
+    nextCosts.push(0);
+    nextOrigins.push(0);
+    if (i < m) keywordCodes.push(keyword.charCodeAt(i));
+  }
+  // 編集距離がmaxDistance以下の最後の行（それより後の行は計算しない）
+  let lastActive = Math.min(maxDistance, m);
+  const matches: FuzzyMatch[] = [];
+  let pending: FuzzyMatch | null = null;
+
+  for (let j = from; j < to; j++) {
+    const code = text.charCodeAt(j);
+    nextCosts[0] = 0;
+    nextOrigins[0] = j + 1;
+
+    const limit = Math.min(lastActive + 1, m);
+    for (let i = 1; i <= limit; i++) {
+      const substitution = costs[i - 1] + (keywordCodes[i - 1] === code ? 0 : 1);
+      const skipText = costs[i] + 1;
+      const skipKeyword = nextCosts[i - 1] + 1;
+
+      if (substitution <= skipText && substitution <= skipKeyword) {
+        nextCosts[i] = substitution;
+        nextOrigins[i] = origins[i - 1];
+      } else if (skipKeyword <= skipText) {
+        nextCosts[i] = skipKeyword;
+        nextOrigins[i] = nextOrigins[i - 1];
+      } else {
+        nextCosts[i] = skipText;
+        nextOrigins[i] = origins[i];
+      }
+    }
+    // 計算しなかった行はmaxDistanceを超えているものとして扱う
+    if (limit < m) nextCosts[limit + 1] = maxDistance + 1;
+
+    const previousCosts = costs;
+    const previousOrigins = origins;
+    costs = nextCosts;
+    origins = nextOrigins;
+    nextCosts = previousCosts;
+    nextOrigins = previousOrigins;
+
+    lastActive = limit;
+    while (lastActive > 0 && costs[lastActive] > maxDistance) {
+      lastActive--;
+    }
+
+    if (lastActive === m) {
+      const candidate = { start: origins[m], end: j + 1, distance: costs[m] };
+      if (pending && candidate.start < pending.end) {
+        const lengthGap = (match: FuzzyMatch) => Math.abs(match.end - match.start - m);
+        if (
+          candidate.distance < pending.distance ||
+          (candidate.distance === pending.distance && lengthGap(candidate) < lengthGap(pending))
+        ) {
+          pending = candidate;
+        }
+      } else {
+        if (pending) matches.push(pending);
+        pending = candidate;
+      }
+    }
+  }
+
+  if (pending) matches.push(pending);
+  return matches.filter(match => match.end > match.start);
+};
+
+// ローマ字→ひらがな（長いつづりから順に照合する）
+const ROMAJI_TABLE: Record<string, string> = {
+  kya: 'きゃ', kyu: 'きゅ', kyo: 'きょ', sha: 'しゃ', shu: 'しゅ', sho: 'しょ', shi: 'し',
+  sya: 'しゃ', syu: 'しゅ', syo: 'しょ', cha: 'ちゃ', chu: 'ちゅ', cho: 'ちょ', chi: 'ち',
+  tya: 'ちゃ', tyu: 'ちゅ', tyo: 'ちょ', tsu: 'つ', nya: 'にゃ', nyu: 'にゅ', nyo: 'にょ',
+  hya: 'ひゃ', hyu: 'ひゅ', hyo: 'ひょ', mya: 'みゃ', myu: 'みゅ', myo: 'みょ',
+  rya: 'りゃ', ryu: 'りゅ', ryo: 'りょ', gya: 'ぎゃ', gyu: 'ぎゅ', gyo: 'ぎょ',
+  jya: 'じゃ', jyu: 'じゅ', jyo: 'じょ', bya: 'びゃ', byu: 'びゅ', byo: 'びょ',
+  pya: 'ぴゃ', pyu: 'ぴゅ', pyo: 'ぴょ', dya: 'ぢゃ', dyu: 'ぢゅ', dyo: 'ぢょ',
+  ja: 'じゃ', ju: 'じゅ', jo: 'じょ', ji: 'じ', je: 'じぇ', fa: 'ふぁ', fi: 'ふぃ', fu: 'ふ', fe: 'ふぇ', fo: 'ふぉ',
+  ka: 'か', ki: 'き', ku: 'く', ke: 'け', ko: 'こ', sa: 'さ', si: 'し', su: 'す', se: 'せ', so: 'そ',
+  ta: 'た', ti: 'ち', tu: 'つ', te: 'て', to: 'と', na: 'な', ni: 'に', nu: 'ぬ', ne: 'ね', no: 'の',
+  ha: 'は', hi: 'ひ', hu: 'ふ', he: 'へ', ho: 'ほ', ma: 'ま', mi: 'み', mu: 'む', me: 'め', mo: 'も',
+  ya: 'や', yu: 'ゆ', yo: 'よ', ra: 'ら', ri: 'り', ru: 'る', re: 'れ', ro: 'ろ',
+  wa: 'わ', wo: 'を', ga: 'が', gi: 'ぎ', gu: 'ぐ', ge: 'げ', go: 'ご', za: 'ざ', zi: 'じ', zu: 'ず', ze: 'ぜ', zo: 'ぞ',
+  da: 'だ', di: 'ぢ', du: 'づ', de: 'で', do: 'ど', ba: 'ば', bi: 'び', bu: 'ぶ', be: 'べ', bo: 'ぼ',
+  pa: 'ぱ', pi: 'ぴ', pu: 'ぷ', pe: 'ぺ', po: 'ぽ', vu: 'ゔ', "n'": 'ん',
+  a: 'あ', i: 'い', u: 'う', e: 'え', o: 'お', '-': 'ー'
+};
+
+/**
+ * ローマ字の検索語をひらがなに変換（すべて変換できない場合はnull）
+ * 子音の重ね（kk・tt など）は「っ」、母音・y以外の前のnとnnは「ん」にする
+ */
+export const romajiToHiragana = (romaji: string): string | null => {
+  const input = romaji.toLowerCase();
+  if (!/^[a-z'-]+$/.test(input) || !/[aiueo]/.test(input)) return null;
+
+  let result = '';
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i];
+    const next = input[i + 1];
+
+    if (char === 'n' && next === 'n') {
+      // 「konnichiwa」のように母音が続く場合、2つ目のnは次の音節に使う
+      result += 'ん';
+      i += /[aiueoy]/.test(input[i + 2] ?? '') ? 1 : 2;
+      continue;
+    }
+    if (char === next && /[bcdfghjkmprstvwz]/.test(char)) {
+      result += 'っ';
+      i++;
+      continue;
+    }
+    if (char === 'n' && (next === undefined || !/[aiueoy']/.test(next))) {
+      result += 'ん';
+      i++;
+      continue;
+    }
+
+    const syllable = [3, 2, 1]
+      .map(length => input.substring(i, i + length))
+      .find(candidate => ROMAJI_TABLE[candidate] !== undefined);
+    if (!syllable) return null;
+
+    result += ROMAJI_TABLE[syllable];
+    i += syllable.length;
+  }
+
+  return result;
+};
+
+export interface SearchRun {
+  text: string;
+  cjk: boolean; // 漢字・ひらがな・カタカナの連続（単語の区切りがないためn-gramで扱う）
+}
+
+// 漢字・かなの連続と、それ以外の文字・数字の連続（記号と空白は区切りとして扱う）
+const SEARCH_RUN_PATTERN = /([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々〆]+)|(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー々〆])[\p{L}\p{N}_])+/gu;
+
+/**
+ * 正規化済みのテキストを、索引に使う単位（漢字・かなの連続とそれ以外の単語）に分割
+ */
+export const getSearchRuns = (normalizedText: string): SearchRun[] => {
+  const runs: SearchRun[] = [];
+  for (const match of normalizedText.matchAll(SEARCH_RUN_PATTERN)) {
+    runs.push({ text: match[0], cjk: match[1] !== undefined });
+  }
+  return runs;
+};
+
+/**
+ * 索引の単語（英数字などは単語のまま、漢字・かなは2文字ずつのn-gram。1文字だけの場合はその1文字）
+ */
+export const getRunTokens = (run: SearchRun): string[] => {
+  if (!run.cjk) return [run.text];
+
+  const chars = Array.from(run.text);
+  if (chars.length === 1) return [run.text];
+  return chars.slice(0, -1).map((char, index) => char + chars[index + 1]);
+};
@@ -0,0 +1,131 @@
+export type HighlightTokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number';
+
+export interface HighlightToken {
+  type: HighlightTokenType;
+  text: string;
+}
+
+interface LanguageRule {
+  keywords: string[];
+  lineComment?: string;
+  blockComment?: [string, string];
+}
+
+const C_LIKE_KEYWORDS = [
+  'if', 'else', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return',
+  'try', 'catch', 'finally', 'throw', 'new', 'class', 'extends', 'this', 'super', 'true', 'false', 'null'
+];
+
+const LANGUAGE_RULES: Record<string, LanguageRule> = {
+  javascript: {
+    keywords: [...C_LIKE_KEYWORDS, 'const', 'let', 'var', 'function', 'async', 'await', 'import', 'export', 'from',
+      'typeof', 'instanceof', 'undefined', 'of', 'in', 'yield', 'delete', 'void'],
+    lineComment: '//',
+    blockComment: ['/*', '*/']
+  },
+  typescript: {
+    keywords: [...C_LIKE_KEYWORDS, 'const', 'let', 'var', 'function', 'async', 'await', 'import', 'export', 'from',
+      'typeof', 'instanceof', 'undefined', 'of', 'in', 'interface', 'type', 'enum', 'implements', 'public',
+      'private', 'protected', 'readonly', 'as', 'keyof', 'string', 'number', 'boolean', 'any', 'unknown', 'never'],
+    lineComment: '//',
+    blockComment: ['/*', '*/']
+  },
+  python: {
+    keywords: ['def', 'class', 'if', 'elif', 'else', 'for', 'while', 'return', 'import', 'from', 'as', 'with', 'try',
+      'except', 'finally', 'raise', 'lambda', 'yield', 'pass', 'break', 'continue', 'in', 'is', 'not', 'and', 'or',
+      'None', 'True', 'False', 'self', 'async', 'await', 'global', 'nonlocal'],
+    lineComment: '#'
+  },
+  java: {
+    keywords: [...C_LIKE_KEYWORDS, 'public', 'private', 'protected', 'static', 'final', 'void', 'int', 'long',
+      'double', 'float', 'boolean', 'char', 'interface', 'implements', 'import', 'package', 'abstract'],
+    lineComment: '//',
+    blockComment: ['/*', '*/']
+  },
+  c: {
+    keywords: [...C_LIKE_KEYWORDS, 'int', 'long', 'short', 'char', 'float', 'double', 'void', 'struct', 'typedef',
+      'const', 'static', 'unsigned', 'sizeof', 'include', 'define', 'auto', 'namespace', 'using', 'template'],
+    lineComment: '//',
+    blockComment: ['/*', '*/']
+  },
+  css: {
+    keywords: ['important', 'px', 'em', 'rem', 'auto', 'none', 'inherit', 'flex', 'grid', 'block', 'inline'],
+    blockComment: ['/*', '*/']
+  },
+  sql: {
+    keywords: ['select', 'from', 'where', 'insert', 'into', 'values', 'update', 'set', 'delete', 'create', 'table',
+      'drop', 'alter', 'join', 'left', 'right', 'inner', 'outer', 'on', 'group', 'by', 'order', 'having', 'limit',
+      'and', 'or', 'not', 'null', 'as', 'distinct', 'count', 'primary', 'key', 'index'],
+    lineComment: '--',
+    blockComment: ['/*', '*/']
+  },
+  shell: {
+    keywords: ['if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'do', 'done', 'case', 'esac', 'function',
+      'return', 'export', 'local', 'echo', 'cd', 'exit'],
+    lineComment: '#'
+  },
+  json: {
+    keywords: ['true', 'false', 'null']
+  }
+};
+
+// 言語名の別名
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', ts: 'typescript', tsx: 'typescript', py: 'python',
+  cpp: 'c', 'c++': 'c', cs: 'c', csharp: 'c', go: 'c', rust: 'c', kotlin: 'java',
+  sh: 'shell', bash: 'shell', zsh: 'shell', powershell: 'shell', scss: 'css'
+};
+
+export const CODE_LANGUAGES = ['javascript', 'typescript', 'python', 'java', 'c', 'css', 'sql', 'shell', 'json'];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const getLanguageRule = (language: string): LanguageRule | null => {
+  const name = language.trim().toLowerCase();
+  return LANGUAGE_RULES[LANGUAGE_ALIASES[name] || name] || null;
+};
+
+/**
+ * コードを色分け用のトークンに分割する（コメント・文字列・数値・キーワードのみの簡易的なもの）
+ * 未対応の言語は全体をplainとして返す
+ */
+export const highlightCode = (code: string, language: string): HighlightToken[] => {
+  const rule = getLanguageRule(language);
+  if (!rule) {
+    return code ? [{ type: 'plain', text: code }] : [];
+  }
+
+  const patterns: string[] = [];
+  if (rule.blockComment) {
+    patterns.push(`(${escapeRegExp(rule.blockComment[0])}[\\s\\S]*?(?:${escapeRegExp(rule.blockComment[1])}|$))`);
+  } else {
+    patterns.push('(?!)');
+  }
+  patterns.push(rule.lineComment ? `(${escapeRegExp(rule.lineComment)}[^\\n]*)` : '(?!)');
+  patterns.push('("(?:[^"\\\\\\n]|\\\\.)*"?|\'(?:[^\'\\\\\\n]|\\\\.)*\'?|`(?:[^`\\\\]|\\\\.)*`?)');
+  patterns.push('(\\b\\d+(?:\\.\\d+)?\\b)');
+  patterns.push(`\\b(${rule.keywords.map(escapeRegExp).join('|')})\\b`);
+
+  const isCaseInsensitive = language.trim().toLowerCase() === 'sql';
+  const pattern = new RegExp(patterns.join('|'), isCaseInsensitive ? 'gi' : 'g');
+
+  const tokens: HighlightToken[] = [];
+  let lastIndex = 0;
+  for (const match of code.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      tokens.push({ type: 'plain', text: code.substring(lastIndex, index) });
+    }
+    const type: HighlightTokenType =
+      match[1] !== undefined || match[2] !== undefined ? 'comment' :
+      match[3] !== undefined ? 'string' :
+      match[4] !== undefined ? 'number' :
+      'keyword';
+    tokens.push({ type, text: match[0] });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < code.length) {
+    tokens.push({ type: 'plain', text: code.substring(lastIndex) });
+  }
+  return tokens;
+};
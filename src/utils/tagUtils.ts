@@ -0,0 +1,41 @@
+import { RichContent } from '../types';
+
+// 行頭または空白の直後にある「#タグ」を抽出（URLのフラグメントや見出しの「# 」は対象外）
+const TAG_PATTERN = /(?:^|[\s　])[#＃]([^\s　#＃.,!?;:()\[\]{}<>"'`、。，．！？「」『』（）【】]+)/g;
+
+/**
+ * タグを比較用に正規化（先頭の#を除去し小文字化）
+ */
+export const normalizeTag = (tag: string): string => {
+  return tag.trim().replace(/^[#＃]+/, '').toLowerCase();
+};
+
+/**
+ * 付箋の内容（テキストブロック）から#タグを抽出
+ * 大文字小文字違いの重複は最初に出現した表記にまとめる
+ */
+export const extractTags = (content: string | RichContent): string[] => {
+  const text = typeof content === 'string'
+    ? content
+    : (content?.blocks || [])
+        .filter(block => block.type === 'text')
+        .map(block => block.content || '')
+        .join('\n');
+
+  const tags: string[] = [];
+  const seen = new Set<string>();
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const tag = match[1];
+    // 「#1」のような番号だけのものはタグとして扱わない
+    if (/^\d+$/.test(tag)) continue;
+
+    const key = normalizeTag(tag);
+    if (!seen.has(key)) {
+      seen.add(key);
+      tags.push(tag);
+    }
+  }
+
+  return tags;
+};
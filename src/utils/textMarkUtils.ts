@@ -0,0 +1,224 @@
+import { RichContent, TextMark, TextMarkType } from '../types';
+
+// 書式付きテキスト（書式は文字位置の範囲で保持し、テキストは書式なしのまま扱う）
+export interface FormattedText {
+  text: string;
+  marks: TextMark[];
+}
+
+export interface MarkSegment {
+  text: string;
+  start: number;
+  end: number;
+  marks: TextMark[];
+}
+
+// 値（色）を持つ書式
+const VALUE_MARK_TYPES: TextMarkType[] = ['color', 'highlight'];
+
+const isSameMark = (a: TextMark, b: TextMark): boolean =>
+  a.type === b.type && (a.value ?? '') === (b.value ?? '');
+
+/**
+ * 書式を整理する（範囲外の切り詰め、空の書式の除去、同じ書式の隣接・重複範囲の結合）
+ */
+export const normalizeMarks = (marks: TextMark[], textLength: number): TextMark[] => {
+  const sorted = marks
+    .map(mark => ({ ...mark, start: Math.max(0, mark.start), end: Math.min(textLength, mark.end) }))
+    .filter(mark => mark.end > mark.start)
+    .sort((a, b) => a.type.localeCompare(b.type) || (a.value ?? '').localeCompare(b.value ?? '') || a.start - b.start);
+
+  const merged: TextMark[] = [];
+  sorted.forEach(mark => {
+    const last = merged[merged.length - 1];
+    if (last && isSameMark(last, mark) && mark.start <= last.end) {
+      last.end = Math.max(last.end, mark.end);
+    } else {
+      merged.push({ ...mark });
+    }
+  });
+  return merged.sort((a, b) => a.start - b.start || a.type.localeCompare(b.type));
+};
+
+/**
+ * 指定範囲から書式を取り除く（範囲をまたぐ書式は分割する）
+ */
+export const removeMarkRange = (marks: TextMark[], type: TextMarkType, start: number, end: number): TextMark[] => {
+  return marks.flatMap(mark => {
+    if (mark.type !== type || mark.end <= start || mark.start >= end) {
+      return [mark];
+    }
+    return [
+      ...(mark.start < start ? [{ ...mark, end: start }] : []),
+      ...(mark.end > end ? [{ ...mark, start: end }] : [])
+    ];
+  });
+};
+
+/**
+ * 指定範囲全体に書式が適用されているか
+ */
+export const isMarkActive = (marks: TextMark[], type: TextMarkType, start: number, end: number): boolean => {
+  if (start >= end) return false;
+  let covered = start;
+  marks
+    .filter(mark => mark.type === type && mark.end > start && mark.start < end)
+    .sort((a, b) => a.start - b.start)
+    .forEach(mark => {
+      if (mark.start <= covered) {
+        covered = Math.max(covered, mark.end);
+      }
+    });
+  return covered >= end;
+};
+
+/**
+ * 書式を切り替える
+ * 色の書式は値を指定すると上書きし、値がなければ取り除く
+ * それ以外は範囲全体に適用済みなら取り除き、そうでなければ適用する
+ */
+export const toggleMark = (
+  marks: TextMark[],
+  type: TextMarkType,
+  start: number,
+  end: number,
+  textLength: number,
+  value?: string
+): TextMark[] => {
+  if (start >= end) return marks;
+
+  if (VALUE_MARK_TYPES.includes(type)) {
+    const cleared = removeMarkRange(marks, type, start, end);
+    return normalizeMarks(value ? [...cleared, { type, start, end, value }] : cleared, textLength);
+  }
+
+  if (isMarkActive(marks, type, start, end)) {
+    return normalizeMarks(removeMarkRange(marks, type, start, end), textLength);
+  }
+  return normalizeMarks([...marks, { type, start, end }], textLength);
+};
+
+/**
+ * 書式の境界でテキストを区切る（表示用）
+ */
+export const getMarkSegments = (text: string, marks: TextMark[]): MarkSegment[] => {
+  const boundaries = new Set<number>([0, text.length]);
+  marks.forEach(mark => {
+    boundaries.add(Math.min(mark.start, text.length));
+    boundaries.add(Math.min(mark.end, text.length));
+  });
+  const points = Array.from(boundaries).sort((a, b) => a - b);
+
+  const segments: MarkSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    segments.push({
+      text: text.substring(start, end),
+      start,
+      end,
+      marks: marks.filter(mark => mark.start <= start && mark.end >= end)
+    });
+  }
+  return segments;
+};
+
+/**
+ * テキストの変更に合わせて書式の位置をずらす
+ * 変更前後で共通する先頭・末尾を除いた部分を置き換えとみなし、置き換え部分にかかる書式は縮める
+ */
+export const adjustMarksForTextChange = (marks: TextMark[], oldText: string, newText: string): TextMark[] => {
+  let prefix = 0;
+  while (prefix < oldText.length && prefix < newText.length && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldText.length - prefix && suffix < newText.length - prefix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldChangeEnd = oldText.length - suffix;
+  const delta = newText.length - oldText.length;
+  const mapPosition = (position: number): number => {
+    if (position <= prefix) return position;
+    if (position >= oldChangeEnd) return position + delta;
+    return prefix;
+  };
+
+  return normalizeMarks(
+    marks.map(mark => ({ ...mark, start: mapPosition(mark.start), end: mapPosition(mark.end) })),
+    newText.length
+  );
+};
+
+/**
+ * 付箋の内容を書式付きテキストとして取得（テキストブロックを改行で連結し、書式の位置もずらす）
+ */
+export const getFormattedText = (content: string | RichContent): FormattedText => {
+  if (typeof content === 'string') {
+    return { text: content, marks: [] };
+  }
+
+  let text = '';
+  const marks: TextMark[] = [];
+  (content?.blocks || [])
+    .filter(block => block.type === 'text')
+    .forEach((block, index) => {
+      if (index > 0) text += '\n';
+      const offset = text.length;
+      (block.marks || []).forEach(mark => marks.push({ ...mark, start: mark.start + offset, end: mark.end + offset }));
+      text += block.content || '';
+    });
+
+  return { text, marks: normalizeMarks(marks, text.length) };
+};
+
+/**
+ * 書式付きテキストを付箋の内容に変換（書式がなければ従来どおり文字列）
+ */
+export const toFormattedContent = (formatted: FormattedText, blockId: string = 'text-formatted'): string | RichContent => {
+  const marks = normalizeMarks(formatted.marks, formatted.text.length);
+  if (marks.length === 0) {
+    return formatted.text;
+  }
+  return { blocks: [{ id: blockId, type: 'text', content: formatted.text, marks }] };
+};
+
+/**
+ * 書式付きテキストを行ごとに分割（行をまたぐ書式は行ごとに分ける）
+ */
+export const splitFormattedLines = (formatted: FormattedText): FormattedText[] => {
+  let offset = 0;
+  return formatted.text.split('\n').map(line => {
+    const start = offset;
+    const end = start + line.length;
+    offset = end + 1;
+    return {
+      text: line,
+      marks: normalizeMarks(
+        formatted.marks
+          .filter(mark => mark.end > start && mark.start < end)
+          .map(mark => ({ ...mark, start: mark.start - start, end: mark.end - start })),
+        line.length
+      )
+    };
+  });
+};
+
+/**
+ * 行ごとの書式付きテキストを改行で連結
+ */
+export const joinFormattedLines = (lines: FormattedText[]): FormattedText => {
+  let text = '';
+  const marks: TextMark[] = [];
+  lines.forEach((line, index) => {
+    if (index > 0) text += '\n';
+    const offset = text.length;
+    line.marks.forEach(mark => marks.push({ ...mark, start: mark.start + offset, end: mark.end + offset }));
+    text += line.text;
+  });
+  return { text, marks: normalizeMarks(marks, text.length) };
+};
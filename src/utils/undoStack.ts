@@ -0,0 +1,73 @@
+interface UndoEntry<T> {
+  state: T;
+  group?: string;
+  time: number;
+}
+
+/**
+ * 元に戻す・やり直しの履歴
+ * 変更前の状態を記録し、元に戻すときは現在の状態をやり直し側に積む
+ */
+export class UndoStack<T> {
+  private undoEntries: UndoEntry<T>[] = [];
+  private redoEntries: T[] = [];
+
+  /**
+   * @param limit 保持する履歴の最大数
+   * @param mergeWindowMs 同じグループの変更をまとめる間隔（文字入力を1文字ずつ戻さないため）
+   */
+  constructor(private readonly limit: number = 100, private readonly mergeWindowMs: number = 1000) {}
+
+  /**
+   * 変更前の状態を記録する
+   * 同じグループの変更が間隔内に続いた場合は、最初の変更前の状態のみを残す
+   */
+  record(before: T, group?: string, now: number = Date.now()): void {
+    this.redoEntries = [];
+
+    const last = this.undoEntries[this.undoEntries.length - 1];
+    if (group && last && last.group === group && now - last.time < this.mergeWindowMs) {
+      last.time = now;
+      return;
+    }
+
+    this.undoEntries.push({ state: before, group, time: now });
+    if (this.undoEntries.length > this.limit) {
+      this.undoEntries.shift();
+    }
+  }
+
+  /**
+   * 直前の状態を返す（履歴がなければnull）
+   */
+  undo(current: T): T | null {
+    const entry = this.undoEntries.pop();
+    if (!entry) return null;
+    this.redoEntries.push(current);
+    return entry.state;
+  }
+
+  /**
+   * 元に戻す前の状態を返す（履歴がなければnull）
+   */
+  redo(current: T): T | null {
+    const state = this.redoEntries.pop();
+    if (state === undefined) return null;
+    // やり直した変更は次の入力とまとめない
+    this.undoEntries.push({ state: current, time: 0 });
+    return state;
+  }
+
+  get canUndo(): boolean {
+    return this.undoEntries.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoEntries.length > 0;
+  }
+
+  clear(): void {
+    this.undoEntries = [];
+    this.redoEntries = [];
+  }
+}
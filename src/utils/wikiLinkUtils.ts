@@ -0,0 +1,76 @@
+import { RichContent } from '../types';
+import { getPlainText } from './blockTextUtils';
+
+export interface WikiLinkMatch {
+  title: string;
+  start: number;
+  end: number;
+}
+
+// 本文中の他の付箋への参照「[[付箋のタイトル]]」
+const WIKI_LINK_PATTERN = /\[\[([^\[\]\n]+)\]\]/g;
+
+// タイトルとして扱う最大文字数
+const MAX_TITLE_LENGTH = 100;
+
+/**
+ * タイトルを比較用に正規化（前後の空白を除去し、連続する空白をまとめて小文字化）
+ */
+export const normalizeNoteTitle = (title: string): string => {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+};
+
+/**
+ * 付箋のタイトル（本文の最初の空でない行。見出し・リストの記号は除く）
+ */
+export const getNoteTitle = (content: string | RichContent): string => {
+  const line = getPlainText(content)
+    .split('\n')
+    .map(item => item.replace(/^\s*(#{1,6}\s+|[-*+]\s+(\[[ xX]\]\s+)?)/, '').trim())
+    .find(item => item.length > 0);
+  return line ? line.substring(0, MAX_TITLE_LENGTH) : '';
+};
+
+/**
+ * 本文中の「[[タイトル]]」をすべて取得
+ */
+export const findWikiLinks = (text: string): WikiLinkMatch[] => {
+  const links: WikiLinkMatch[] = [];
+  for (const match of text.matchAll(WIKI_LINK_PATTERN)) {
+    const title = match[1].trim();
+    const start = match.index ?? 0;
+    if (title.length > 0) {
+      links.push({ title, start, end: start + match[0].length });
+    }
+  }
+  return links;
+};
+
+/**
+ * 指定位置にある「[[タイトル]]」のタイトル（なければnull）
+ */
+export const findWikiLinkAt = (text: string, position: number): string | null => {
+  const link = findWikiLinks(text).find(item => position > item.start && position < item.end);
+  return link ? link.title : null;
+};
+
+/**
+ * 付箋の内容から参照先のタイトルを正規化して取得（重複は除く）
+ */
+export const extractWikiLinkTitles = (content: string | RichContent): string[] => {
+  const titles = findWikiLinks(getPlainText(content)).map(link => normalizeNoteTitle(link.title));
+  return Array.from(new Set(titles));
+};
+
+/**
+ * カーソルが入力途中の「[[」の中にある場合、その開始位置と入力済みの文字列（補完用）
+ */
+export const getWikiLinkQuery = (text: string, caret: number): { start: number; query: string } | null => {
+  const before = text.substring(0, caret);
+  const start = before.lastIndexOf('[[');
+  if (start === -1) return null;
+
+  const query = before.substring(start + 2);
+  if (/[\[\]\n]/.test(query)) return null;
+  return { start, query };
+};